@@ -3,99 +3,114 @@ import { Canvas } from '@react-three/fiber';
 import { GamePhase } from './types';
 import { Experience } from './components/Experience';
 import { UIOverlay } from './components/UIOverlay';
+import { getLevel, getStep, getNextStep, getNextLevelId, ProjectKind } from './levels';
+import { hasStockFor, cutListBoards, consumeCutList } from './milling';
+import { ForestState, newForest, growForest, growSinceLastVisit } from './forest';
+import { Inventory, LogItem, BoardItem, newInventory, addItem, removeItem, itemsOfKind } from './inventory';
+import { loadGame, saveGame, ProjectSaveState } from './saveGame';
+import { DovetailSpec, DEFAULT_DOVETAIL_SPEC, normalizeDovetailSpec } from './dovetail';
+import { Stars, gradeProject } from './accuracy';
+import { JointKind } from './joints';
 
 const App: React.FC = () => {
-  const [phase, setPhase] = useState<GamePhase>(GamePhase.INTRO);
+  // Restore an autosave once on load (kids often close the tab mid-project)
+  const [savedGame] = useState(() => loadGame());
+  const [phase, setPhase] = useState<GamePhase>(savedGame?.phase ?? GamePhase.INTRO);
   const [progress, setProgress] = useState(0);
-  const [level, setLevel] = useState(1); // 1 = Box (starts with Timber), 2 = Stool
-  const [inventory, setInventory] = useState<string[]>([]);
-  const [rawWoodCount, setRawWoodCount] = useState(0);
+  const [level, setLevel] = useState(savedGame?.level ?? 1); // 1 = Box (starts with Timber), 2 = Stool
+  const [inventory, setInventory] = useState<Inventory>(() => savedGame?.inventory ?? newInventory());
+  // Seasons pass while the player is away, so saplings may have grown since the last visit
+  const [forest, setForest] = useState<ForestState>(() => growSinceLastVisit(savedGame?.forest ?? newForest()));
+  const [projectState, setProjectState] = useState<ProjectSaveState>(savedGame?.project ?? {});
+  const [dovetailSpec, setDovetailSpec] = useState<DovetailSpec>(() => normalizeDovetailSpec(savedGame?.dovetailSpec ?? DEFAULT_DOVETAIL_SPEC));
+  const [bestGrades, setBestGrades] = useState<Partial<Record<ProjectKind, Stars>>>(savedGame?.bestGrades ?? {});
+  // The joint library is browsed from the start screen, in place of the project
+  const [libraryJoint, setLibraryJoint] = useState<JointKind | null>(null);
+  const [jointExplode, setJointExplode] = useState(0);
 
-  // Helper to advance phases
+  const handleProjectStateChange = (patch: ProjectSaveState) => {
+    setProjectState(prev => ({ ...prev, ...patch }));
+  };
+
+  // Autosave on every phase transition and whenever cut progress changes
+  useEffect(() => {
+    saveGame({ phase, level, inventory, forest, project: projectState, dovetailSpec, bestGrades });
+  }, [phase, level, inventory, forest, projectState, dovetailSpec, bestGrades]);
+
+  // Helper to advance phases, driven by the level definitions in levels.ts
   const nextPhase = () => {
-    // === LEVEL 1: DOVETAIL BOX (Now includes Timber) ===
-    if (level === 1) {
-      switch (phase) {
-        case GamePhase.INTRO:
-          setPhase(GamePhase.TIMBER);
-          setRawWoodCount(0); // Reset for new game
-          break;
-        case GamePhase.TIMBER:
-          setPhase(GamePhase.CLAMPING);
-          break;
-        case GamePhase.CLAMPING:
-          setPhase(GamePhase.MARKING);
-          setTimeout(() => setPhase(GamePhase.CUTTING), 2000); 
-          break;
-        case GamePhase.CUTTING:
-          setPhase(GamePhase.ASSEMBLY_PREP);
-          setTimeout(() => setPhase(GamePhase.ASSEMBLY), 1500); 
-          break;
-        case GamePhase.ASSEMBLY:
-          setPhase(GamePhase.CUTTING_BACK);
-          break;
-        case GamePhase.CUTTING_BACK:
-          setPhase(GamePhase.ASSEMBLY_C);
-          break;
-        case GamePhase.ASSEMBLY_C:
-          setPhase(GamePhase.CUTTING_TOP);
-          break;
-        case GamePhase.CUTTING_TOP:
-          setPhase(GamePhase.ASSEMBLY_D);
-          break;
-        case GamePhase.ASSEMBLY_D:
-          setPhase(GamePhase.SUCCESS);
-          break;
-        case GamePhase.SUCCESS:
-          // Controlled by UI Overlay 'Collect' button
-          break;
-        default:
-          setPhase(GamePhase.INTRO);
-          break;
-      }
-    } 
-    // === LEVEL 2: WOODEN STOOL ===
-    else if (level === 2) {
-      switch (phase) {
-        case GamePhase.INTRO:
-          setPhase(GamePhase.CLAMPING);
-          break;
-        case GamePhase.CLAMPING:
-          // Skip marking, go straight to cutting holes for legs
-          setPhase(GamePhase.CUTTING); 
-          break;
-        case GamePhase.CUTTING:
-          // Assemble Legs
-          setPhase(GamePhase.ASSEMBLY); 
-          break;
-        case GamePhase.ASSEMBLY:
-          setPhase(GamePhase.SUCCESS);
-          break;
-        case GamePhase.SUCCESS:
-           // End of demo
-          break;
-        default:
-          setPhase(GamePhase.INTRO);
-          break;
-      }
+    const step = getStep(level, phase);
+    if (!step) {
+      setPhase(GamePhase.INTRO);
+      return;
+    }
+    // SUCCESS is left through the UI Overlay 'Collect' button
+    if (step.completion === 'collect') return;
+    setLibraryJoint(null);
+
+    let next = getNextStep(level, phase);
+    if (!next) return;
+
+    // Milled boards: with enough of the right wood already on hand the project
+    // skips the forest, and the boards it consumes leave the inventory as soon
+    // as work starts
+    const { consumes = [], timber } = getLevel(level);
+    const afterMilling = getNextStep(level, GamePhase.MILLING);
+    if (next.phase === GamePhase.TIMBER && afterMilling && consumes.length > 0 && hasStockFor(inventory, consumes, timber?.species)) {
+      next = afterMilling;
+    }
+    if (next.phase === afterMilling?.phase && consumes.length > 0) {
+      // The project is made from (and looks like) the wood of its main blank,
+      // preferring the species picked in the forest, or else the one it calls for
+      const species = projectState.species ?? timber?.species;
+      const [blank] = cutListBoards(inventory, consumes, species);
+      if (blank) handleProjectStateChange({ species: blank.species });
+      setInventory(prev => consumeCutList(prev, consumes, species));
     }
+
+    setPhase(next.phase);
+  };
+
+  const handleHarvest = (log: LogItem) => {
+    setInventory(prev => addItem(prev, log));
   };
 
+  // The sawmill turns every felled log into boards
+  const handleMilled = (boards: BoardItem[]) => {
+    setInventory(prev => {
+      const logs = itemsOfKind(prev, 'log');
+      const sawn = logs.reduce((rest, log) => removeItem(rest, log), prev);
+      return boards.reduce((rest, board) => addItem(rest, board), sawn);
+    });
+  };
+
+  // The felled logs couldn't fill the cut list: their boards are kept, and
+  // the player goes back to the forest for more
+  const handleNeedTimber = () => setPhase(GamePhase.TIMBER);
+
+  // Timed steps (e.g. the pause before assembly) advance by themselves
+  useEffect(() => {
+    const step = getStep(level, phase);
+    if (step?.completion !== 'timer') return;
+    const timeout = setTimeout(nextPhase, step.autoAdvanceMs ?? 0);
+    return () => clearTimeout(timeout);
+  }, [phase, level]);
+
   const handleCollectAndNext = () => {
-     if (level === 1) {
-         setInventory([...inventory, "Dovetail Box"]);
-         setLevel(2);
-         setPhase(GamePhase.INTRO);
-         setProgress(0);
-         // Keep raw wood count for immersion or reset if consumed
-     } else {
-         setInventory([...inventory, "Wooden Stool"]);
-         // Loop or finish
-         setPhase(GamePhase.INTRO);
-         setProgress(0);
-         setRawWoodCount(0);
-         setLevel(1); // Restart loop
+     const current = getLevel(level);
+     const nextLevel = getNextLevelId(level);
+     const grade = gradeProject(projectState.accuracy ?? []);
+     if (grade && grade > (bestGrades[current.project] ?? 0)) {
+       setBestGrades({ ...bestGrades, [current.project]: grade });
      }
+     // A finished piece keeps the look of its oil or lacquer in the inventory
+     const item = projectState.finish ? { ...current.yields, finish: projectState.finish } : current.yields;
+     setInventory(prev => addItem(prev, item));
+     setForest(prev => growForest(prev)); // A season passes with every finished project
+     setPhase(GamePhase.INTRO);
+     setProgress(0);
+     setProjectState({});
+     setLevel(nextLevel);
   };
 
   return (
@@ -109,8 +124,17 @@ const App: React.FC = () => {
             setProgress={setProgress}
             onPhaseComplete={nextPhase} 
             level={level}
-            rawWoodCount={rawWoodCount}
-            setRawWoodCount={setRawWoodCount}
+            inventory={inventory}
+            onHarvest={handleHarvest}
+            onMilled={handleMilled}
+            onNeedTimber={handleNeedTimber}
+            forest={forest}
+            onForestChange={setForest}
+            projectState={projectState}
+            onProjectStateChange={handleProjectStateChange}
+            dovetailSpec={dovetailSpec}
+            libraryJoint={libraryJoint}
+            jointExplode={jointExplode}
           />
         </Canvas>
       </div>
@@ -122,8 +146,15 @@ const App: React.FC = () => {
         progress={progress}
         level={level}
         inventory={inventory}
-        rawWoodCount={rawWoodCount}
         onCollect={handleCollectAndNext}
+        dovetailSpec={dovetailSpec}
+        onDovetailSpecChange={setDovetailSpec}
+        accuracy={projectState.accuracy ?? []}
+        bestGrade={bestGrades[getLevel(level).project]}
+        libraryJoint={libraryJoint}
+        onLibraryJointChange={setLibraryJoint}
+        jointExplode={jointExplode}
+        onJointExplodeChange={setJointExplode}
       />
     </div>
   );
@@ -0,0 +1,93 @@
+// Cut accuracy against the marked layout. Projects tally the tool positions
+// they are given while cutting, turn them into a report per board when a
+// cutting step finishes, and the SUCCESS card grades the whole piece.
+
+export type Stars = 1 | 2 | 3;
+
+// Running totals for one board while its cutting step is in progress
+export interface CutTally {
+  samples: number;  // Saw strokes that cut (the router's overcut is the pin it took, see carving.ts)
+  overcut: number;  // Sum of how far past the line each stroke drifted (see sawOvercut)
+  blowouts?: number; // Hand tools: faces split out by chopping right through
+  slip?: number;     // Furthest the board slipped under the router
+}
+
+export interface BoardAccuracy {
+  board: string;       // Shown on the report, e.g. "Front pins"
+  overcut?: number;    // Mean reach past the marked line (see routerBoardAccuracy, handBoardAccuracy)
+  undercut?: number;   // Share of the waste volume left standing
+  holeError?: number;  // Mean distance from the hole centres to the marks
+  blowouts?: number;   // Faces split out by the chisel, or by the drill bursting through
+  thicknessError?: number; // Mean distance of a planed face from the target thickness
+  openGlue?: number;   // Share of a glue line left open by too little clamping
+  starvedGlue?: number; // Share squeezed dry by too much
+  slip?: number;       // Furthest the board slipped while it was cut
+  roughness?: number;  // Mean roughness left by the sanding, 0-1
+  missedFinish?: number; // Share of the surface the finish missed
+  runs?: number;       // Share of it marked by runs
+  splayError?: number; // Mean angle the leg holes strayed from the splay, in radians
+  looseness?: number;  // Mean share of grip the wedged legs lack, 0-1
+  depthError?: number; // Mean distance of the holes from the depth that just breaks through
+  stars: Stars;
+}
+
+// Upper bounds for three and two stars; anything worse earns one
+const THRESHOLDS = {
+  overcut: [0.1, 0.25],
+  undercut: [0.01, 0.025],
+  holeError: [0.03, 0.08],
+  blowouts: [0, 1],
+  thicknessError: [0.004, 0.008],
+  openGlue: [0, 0.15],
+  starvedGlue: [0, 0.15],
+  slip: [0.01, 0.03],
+  roughness: [0.08, 0.3],
+  missedFinish: [0.02, 0.1],
+  runs: [0.02, 0.08],
+  splayError: [0.03, 0.08],
+  looseness: [0.05, 0.2],
+  depthError: [0.015, 0.04],
+} as const;
+
+export const emptyTally = (): CutTally => ({ samples: 0, overcut: 0 });
+
+const gradeValue = (value: number | undefined, [three, two]: readonly number[]): Stars =>
+  value === undefined || value <= three ? 3 : value <= two ? 2 : 1;
+
+export function gradeBoard(board: Omit<BoardAccuracy, 'stars'>): BoardAccuracy {
+  const stars = Math.min(
+    gradeValue(board.overcut, THRESHOLDS.overcut),
+    gradeValue(board.undercut, THRESHOLDS.undercut),
+    gradeValue(board.holeError, THRESHOLDS.holeError),
+    gradeValue(board.blowouts, THRESHOLDS.blowouts),
+    gradeValue(board.thicknessError, THRESHOLDS.thicknessError),
+    gradeValue(board.openGlue, THRESHOLDS.openGlue),
+    gradeValue(board.starvedGlue, THRESHOLDS.starvedGlue),
+    gradeValue(board.slip, THRESHOLDS.slip),
+    gradeValue(board.roughness, THRESHOLDS.roughness),
+    gradeValue(board.missedFinish, THRESHOLDS.missedFinish),
+    gradeValue(board.runs, THRESHOLDS.runs),
+    gradeValue(board.splayError, THRESHOLDS.splayError),
+    gradeValue(board.looseness, THRESHOLDS.looseness),
+    gradeValue(board.depthError, THRESHOLDS.depthError),
+  ) as Stars;
+  return { ...board, stars };
+}
+
+/** Routed sockets: `overcut` is the pin the bit took, `undercut` the waste left where the player stopped. */
+export function routerBoardAccuracy(board: string, tally: CutTally, overcut: number, undercut: number): BoardAccuracy {
+  return gradeBoard({ board, overcut, undercut, slip: tally.slip });
+}
+
+/** Hand-cut sockets: the saw's drift counts as overcut, and the waste always comes out whole. */
+export function handBoardAccuracy(board: string, tally: CutTally): BoardAccuracy {
+  return gradeBoard({ board, overcut: tally.samples > 0 ? tally.overcut / tally.samples : 0, blowouts: tally.blowouts ?? 0, slip: tally.slip });
+}
+
+/** A piece is only as good as its worst board. */
+export const gradeProject = (boards: BoardAccuracy[]): Stars | undefined =>
+  boards.length > 0 ? (Math.min(...boards.map(b => b.stars)) as Stars) : undefined;
+
+/** Adds or replaces the report for `entry.board`. */
+export const withBoardAccuracy = (boards: BoardAccuracy[] = [], entry: BoardAccuracy): BoardAccuracy[] =>
+  [...boards.filter(b => b.board !== entry.board), entry];
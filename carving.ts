@@ -0,0 +1,121 @@
+import { DovetailLayout } from './dovetail';
+
+// Router material removal for the dovetail sockets. Each socket is a
+// heightfield over the end of the pin board: a grid of columns across the
+// socket (x) and through the board (z), each storing how much of its waste is
+// left (1 = untouched, 0 = down to the marked line). The floor under a column
+// follows the dovetail slope, so columns at the edge of a socket only hold a
+// thin wedge of waste above the angled pin face. A bit that strays past the
+// marked cheeks takes pin material with it, and that can't be put back.
+
+export const SOCKET_COLS = 16;
+export const SOCKET_ROWS = 8;
+
+// A pass that would leave less than this much of a column's waste takes the
+// rest with it, so a hard wood's shallow passes still finish on the line
+const SKIM = 0.05;
+
+export type SocketField = number[]; // Row-major, SOCKET_ROWS rows of SOCKET_COLS
+// How far past each marked cheek the bit has reached into the pin beside it:
+// SOCKET_ROWS for the left cheek, then SOCKET_ROWS for the right
+export type PinBites = number[];
+
+export const freshSocket = (): SocketField => new Array(SOCKET_COLS * SOCKET_ROWS).fill(1);
+export const clearedSocket = (): SocketField => new Array(SOCKET_COLS * SOCKET_ROWS).fill(0);
+export const freshBites = (): PinBites => new Array(2 * SOCKET_ROWS).fill(0);
+
+export interface SocketColumn {
+  x: number;     // Centre, relative to the socket centre line
+  z: number;     // Centre, relative to the end of the board
+  width: number;
+  length: number;
+  floor: number; // Height of the pin face under the column
+}
+
+/** Height of the angled pin face at `dx` from the socket centre line. */
+export function socketFloor(layout: DovetailLayout, dx: number): number {
+  const halfRoot = layout.tailWidthRoot / 2;
+  const flare = (layout.tailWidthTip - layout.tailWidthRoot) / 2;
+  if (flare <= 0) return 0;
+  const t = (Math.abs(dx) - halfRoot) / flare;
+  return Math.max(0, Math.min(1, t)) * layout.jointHeight;
+}
+
+export function socketColumns(layout: DovetailLayout): SocketColumn[] {
+  const width = layout.tailWidthTip / SOCKET_COLS;
+  const length = layout.boardThickness / SOCKET_ROWS;
+  const columns: SocketColumn[] = [];
+  for (let row = 0; row < SOCKET_ROWS; row++) {
+    for (let col = 0; col < SOCKET_COLS; col++) {
+      const x = -layout.tailWidthTip / 2 + (col + 0.5) * width;
+      columns.push({ x, z: (row + 0.5) * length, width, length, floor: socketFloor(layout, x) });
+    }
+  }
+  return columns;
+}
+
+/**
+ * Lowers every column under a round bit at (x, z) by up to `depth`, never
+ * below the marked line. `x`/`z` are relative to the socket centre and the
+ * end of the board. Mutates `field`; returns true if any waste was removed.
+ */
+export function carveSocket(field: SocketField, layout: DovetailLayout, x: number, z: number, radius: number, depth: number): boolean {
+  let removed = false;
+  socketColumns(layout).forEach((column, i) => {
+    if (field[i] <= 0) return;
+    const dx = column.x - x;
+    const dz = column.z - z;
+    if (dx * dx + dz * dz > radius * radius) return;
+    const wasteHeight = layout.jointHeight - column.floor;
+    const left = wasteHeight > depth ? field[i] - depth / wasteHeight : 0;
+    field[i] = left < SKIM ? 0 : left;
+    removed = true;
+  });
+  return removed;
+}
+
+/**
+ * Records how far a round bit at (x, z) reaches past the socket's marked
+ * cheeks into the pins. `x`/`z` as for carveSocket. Mutates `bites`; returns
+ * true if the bit took any more pin than it already had.
+ */
+export function biteCheeks(bites: PinBites, layout: DovetailLayout, x: number, z: number, radius: number): boolean {
+  const length = layout.boardThickness / SOCKET_ROWS;
+  const side = x < 0 ? 0 : 1;
+  let bitten = false;
+  for (let row = 0; row < SOCKET_ROWS; row++) {
+    const dz = (row + 0.5) * length - z;
+    if (Math.abs(dz) >= radius) continue;
+    const reach = Math.abs(x) + Math.sqrt(radius * radius - dz * dz) - layout.tailWidthTip / 2;
+    const i = side * SOCKET_ROWS + row;
+    if (reach > bites[i]) {
+      bites[i] = reach;
+      bitten = true;
+    }
+  }
+  return bitten;
+}
+
+/** Mean reach past the cheeks, over every cheek of `sockets`, in bit radii. */
+export function pinOvercut(sockets: PinBites[], radius: number): number {
+  const bites = sockets.flat();
+  return bites.length > 0 ? bites.reduce((sum, b) => sum + b, 0) / bites.length / radius : 0;
+}
+
+export const isSocketCleared = (field: SocketField) => field.every(v => v <= 0);
+
+// Waste the player may leave standing in a socket and still call the routing
+// done, as a share of its volume. It stays in, and is graded as undercut.
+export const STOP_LEFTOVER = 0.05;
+
+/** Share of the socket's waste volume still standing (0 = fully cut). */
+export function socketLeftover(field: SocketField, layout: DovetailLayout): number {
+  let total = 0;
+  let left = 0;
+  socketColumns(layout).forEach((column, i) => {
+    const volume = layout.jointHeight - column.floor;
+    total += volume;
+    left += field[i] * volume;
+  });
+  return total > 0 ? left / total : 0;
+}
@@ -0,0 +1,15 @@
+// Screw clamps, as used for the glue-up and for holding work down on the
+// bench: where each one sits and how hard it is screwed down. The gauge reads
+// 0 (loose) to MAX_PRESSURE; PRESSURE_RANGE is firm without crushing.
+
+export interface ClampPlacement {
+  edge: number;     // Line on the work the clamp sits on
+  at: number;       // 0-1 along it
+  pressure: number; // Gauge reading, 0 to MAX_PRESSURE
+}
+
+export const MAX_PRESSURE = 1.2;
+export const PRESSURE_STEP = 0.1; // One turn of the screw
+export const PRESSURE_RANGE: [number, number] = [0.5, 1];
+
+export const clampPressure = (pressure: number) => Math.max(0, Math.min(MAX_PRESSURE, Math.round(pressure * 10) / 10));
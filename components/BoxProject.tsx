@@ -0,0 +1,733 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import { useSpring, config } from '@react-spring/three';
+import * as THREE from 'three';
+import { GamePhase } from '../types';
+import { Mallet, HandSaw, Chisel } from './Tools';
+import { RouterTool } from './RouterTool';
+import { AnimatedGroup, GAP_HEIGHT, HAMMER_TAPS_REQUIRED } from './shared';
+import { SawdustSystem } from './Particles';
+import { PlaningStation } from './PlaningStation';
+import { ClampLine, clampLinePoint, ClampRack } from './ClampRack';
+import { GlueEdge, GlueUpStation } from './GlueUpStation';
+import { FinishFace, FinishingStation, FinishSurface } from './FinishingStation';
+import { MarkingStation } from './MarkingStation';
+import { BOARD_LENGTH_B, BOARD_HEIGHT_A, PinBoardMesh, SocketWaste, SawKerfs, TailBoardMesh } from './DovetailBoards';
+import { hasReachedPhase } from '../levels';
+import { BoxSaveState, BoxSocketKey } from '../saveGame';
+import { SocketField, PinBites, freshSocket, freshBites, carveSocket, biteCheeks, pinOvercut, isSocketCleared, socketLeftover, STOP_LEFTOVER } from '../carving';
+import { BoardAccuracy, CutTally, emptyTally, routerBoardAccuracy, handBoardAccuracy, gradeBoard, withBoardAccuracy } from '../accuracy';
+import { SocketHandCut, SAW_STROKE_DEPTH, CHISEL_BLOW_DEPTH, freshHandCut, cheekSlope, sawStroke, chiselBlow, chopField, sawOvercut } from '../handTools';
+import { thicknessError } from '../planing';
+import { ClampPlacement } from '../clamps';
+import { WorkShift, HoldPoint, HOLD_CLAMPS, SECURE, freshShift, holdSecurity, routerNudge, shiftDistance } from '../workholding';
+import { FinishPanel, freshPanel } from '../finishing';
+import { DEFAULT_DOVETAIL_SPEC, computeDovetailLayout } from '../dovetail';
+import { LayoutMarks, idealMarks, markedLayout, jointFitGap } from '../marking';
+import { WoodSpecies, WoodPalette, SPECIES, cutSpeed } from '../species';
+
+// Level 1: a box with through dovetails. Plane and mark the boards, cut the
+// sockets with the router or by hand, then glue up, sand and finish.
+
+const TABLE_OFFSET = 0.00;
+const ROUTER_BIT_RADIUS = 0.08;        // Matches the bit drawn by RouterTool
+const ROUTER_DEPTH_PER_FRAME = 1 / 12; // Fraction of the joint depth one frame of routing removes
+const SAWDUST_INTERVAL_MS = 200;
+const BENCH_TOP = 0.5; // Thickness of the WorkshopTable top, which hold-down clamps reach under
+
+// Joint geometry (tail count, slope, widths) comes from the DovetailSpec, see dovetail.ts
+
+// Accuracy report label for the board cut in each router phase
+const CUT_BOARD_NAMES: Partial<Record<GamePhase, string>> = {
+    [GamePhase.CUTTING]: "Front pins",
+    [GamePhase.CUTTING_BACK]: "Back pins",
+    [GamePhase.CUTTING_TOP]: "Lid",
+};
+
+// ...and for the joints glued in each glue-up
+const GLUE_BOARD_NAMES: Partial<Record<GamePhase, string>> = {
+    [GamePhase.GLUE_UP]: "Front glue-up",
+    [GamePhase.GLUE_UP_C]: "Back glue-up",
+    [GamePhase.GLUE_UP_D]: "Lid glue-up",
+};
+
+export function BoxProject(props: any) {
+    const { phase, progress, setProgress, onPhaseComplete, setOrbitEnabled, sawdustRef, level, species, savedState, accuracy, finish, onStateChange, dovetailSpec } = props;
+    const palette: WoodPalette = SPECIES[species as WoodSpecies].palette;
+    const layout = useMemo(() => computeDovetailLayout(dovetailSpec ?? DEFAULT_DOVETAIL_SPEC), [dovetailSpec]);
+    const numTails = layout.tailCenters.length;
+    const zPosBack = -(BOARD_LENGTH_B - layout.boardThickness);
+    
+    // Refs
+    const tailBoardARef = useRef<THREE.Group>(null);
+    const tailBoardCRef = useRef<THREE.Group>(null);
+    const topBoardDRef = useRef<THREE.Group>(null);
+
+    // State
+    // Carving mutates these heightfields in place every frame; the socket
+    // meshes pick the changes up through carveRevision
+    const [sockets, setSockets] = useState<BoxSaveState>(() => savedState?.socketsBFront ? savedState : freshBoxSockets(numTails));
+    const carveRevision = useRef(0);
+    const lastDustTime = useRef(0);
+    const cutComplete = useRef(false);
+    const tally = useRef<CutTally>(savedState?.tally ?? emptyTally());
+    // Mutated in place like the socket fields, and drawn through carveRevision
+    const pinBites = useRef<Partial<Record<BoxSocketKey, PinBites[]>>>(savedState?.pinBites ?? {});
+    const [marks, setMarks] = useState<LayoutMarks | undefined>(savedState?.marks);
+    // Sockets follow the player's marks; before marking (or after a redesign) they follow the ideal layout
+    const drawnMarks = useMemo(() => (marks && marks.tailCenters.length === numTails ? marks : idealMarks(layout)), [marks, layout, numTails]);
+    const socketLayout = useMemo(() => markedLayout(layout, drawnMarks), [layout, drawnMarks]);
+    const socketFrontZ = layout.boardThickness - drawnMarks.baseline;
+    const fitGap = jointFitGap(layout, drawnMarks);
+    const [assemblyState, setAssemblyState] = useState<'dragging' | 'hammering' | 'done'>('dragging');
+    const [hammerTaps, setHammerTaps] = useState(0);
+    // Workholding: the clamps set in CLAMPING hold the base board (B) while it
+    // is routed; how far it has slipped is applied straight to its group
+    const [holdClamps, setHoldClamps] = useState<ClampPlacement[]>(savedState?.holdClamps ?? []);
+    const heldBoardRef = useRef<THREE.Group>(null);
+    const shift = useRef<WorkShift>(freshShift());
+    const [workTip, setWorkTip] = useState<string | null>(null);
+    // Sanding and finishing: the front, back and lid faces of the assembled box
+    const [finishPanels, setFinishPanels] = useState<FinishPanel[]>(() => savedState?.finishPanels ?? Array.from({ length: 3 }, freshPanel));
+    // Hand-tool path: saw the cheeks, then chisel the waste out from both faces
+    const [tools, setTools] = useState<'router' | 'hand'>(savedState?.tools ?? 'router');
+    const [handTool, setHandTool] = useState<'saw' | 'chisel'>('saw');
+    const [handCuts, setHandCuts] = useState<Partial<Record<BoxSocketKey, SocketHandCut[]>>>(savedState?.handCuts ?? {});
+    const [handTip, setHandTip] = useState<string | null>(null);
+    const [chiselSpot, setChiselSpot] = useState(0);
+    const [flipped, setFlipped] = useState(false); // Board turned over to chop from its bottom face
+    const { flip } = useSpring({ flip: flipped ? 1 : 0, config: { tension: 120, friction: 20 } });
+
+    const finishClamping = () => {
+        if (phase === GamePhase.CLAMPING) {
+            setProgress(1);
+            setTimeout(onPhaseComplete, 600);
+        }
+    };
+
+    // Clamps go down the long sides, clear of the joints at either end
+    const holdLines: ClampLine[] = [1, -1].map(side => ({
+        start: [side * (layout.boardWidth / 2 - 0.1), zPosBack + layout.boardThickness + 0.15],
+        end: [side * (layout.boardWidth / 2 - 0.1), -0.15],
+        y: TABLE_OFFSET + layout.jointHeight,
+        span: layout.jointHeight + BENCH_TOP,
+        rotationY: -side * Math.PI / 2,
+    }));
+    const holdPoints: HoldPoint[] = holdClamps.map(c => {
+        const [x, , z] = clampLinePoint(holdLines[c.edge], c.at);
+        return { x, z, pressure: c.pressure };
+    });
+    const security = holdSecurity(holdPoints, BOARD_LENGTH_B);
+    const holdsBoard = phase === GamePhase.CUTTING || phase === GamePhase.CUTTING_BACK;
+    const heldPivotZ = (zPosBack + layout.boardThickness) / 2;
+
+    // Places the held board where it has slipped to, turned about its middle
+    const applyShift = () => {
+        const { x, z, spin } = shift.current;
+        heldBoardRef.current?.position.set(x - heldPivotZ * Math.sin(spin), 0, z + heldPivotZ * (1 - Math.cos(spin)));
+        heldBoardRef.current?.rotation.set(0, spin, 0);
+    };
+    const resetShift = () => {
+        shift.current = freshShift();
+        applyShift();
+    };
+
+    // A point over the bench in the held board's own (unslipped) space
+    const toHeldBoard = (x: number, z: number): [number, number] => {
+        const { x: sx, z: sz, spin } = shift.current;
+        const dx = x - sx;
+        const dz = z - sz - heldPivotZ;
+        return [dx * Math.cos(spin) - dz * Math.sin(spin), dx * Math.sin(spin) + dz * Math.cos(spin) + heldPivotZ];
+    };
+
+    // Sockets worked on in this phase, with the Z where each board end starts
+    // and, in the socket's own space, the Z of the end grain the saw enters
+    const getCutTargets = (): { key: BoxSocketKey, fields: SocketField[], zStart: number, endZ: number }[] => {
+        const front = socketLayout.boardThickness;
+        if (phase === GamePhase.CUTTING) return [{ key: 'socketsBFront', fields: sockets.socketsBFront, zStart: socketFrontZ, endZ: front }];
+        if (phase === GamePhase.CUTTING_BACK) return [{ key: 'socketsBBack', fields: sockets.socketsBBack, zStart: zPosBack, endZ: 0 }];
+        if (phase === GamePhase.CUTTING_TOP) return [
+            { key: 'socketsDFront', fields: sockets.socketsDFront, zStart: socketFrontZ, endZ: front },
+            { key: 'socketsDBack', fields: sockets.socketsDBack, zStart: zPosBack, endZ: 0 },
+        ];
+        return [];
+    };
+    const handCutsFor = (key: BoxSocketKey) => handCuts[key] ?? socketLayout.tailCenters.map(freshHandCut);
+    const bitesFor = (key: BoxSocketKey) => {
+        if (pinBites.current[key]?.length !== numTails) pinBites.current[key] = Array.from({ length: numTails }, freshBites);
+        return pinBites.current[key]!;
+    };
+
+    const saveSockets = () => {
+        const copy = (fields: SocketField[]) => fields.map(f => [...f]);
+        onStateChange?.({ box: {
+            socketsBFront: copy(sockets.socketsBFront),
+            socketsBBack: copy(sockets.socketsBBack),
+            socketsDFront: copy(sockets.socketsDFront),
+            socketsDBack: copy(sockets.socketsDBack),
+            tally: { ...tally.current },
+            pinBites: Object.fromEntries(Object.entries(pinBites.current).map(([key, bites]) => [key, bites!.map(b => [...b])])),
+            marks,
+            tools,
+            handCuts,
+            holdClamps,
+            finishPanels,
+        } });
+    };
+
+    // Done once every marked column is down to the line, or when the player
+    // calls it done with no more than a skim of waste left: the report counts
+    // the waste still standing, and it stays in the sockets for the fit.
+    // Returns whether the cut was finished.
+    const finishCutting = (report: (undercut: number) => BoardAccuracy, stopHere = false) => {
+        if (cutComplete.current) return false;
+        const fields = getCutTargets().flatMap(t => t.fields);
+        const leftovers = fields.map(f => socketLeftover(f, socketLayout));
+        if (!(stopHere ? leftovers.every(left => left <= STOP_LEFTOVER) : fields.every(isSocketCleared))) return false;
+        cutComplete.current = true;
+        const undercut = leftovers.reduce((sum, left) => sum + left, 0) / fields.length;
+        onStateChange?.({ accuracy: withBoardAccuracy(accuracy, report(undercut)) });
+        tally.current = emptyTally();
+        saveSockets();
+        onPhaseComplete();
+        return true;
+    };
+
+    const boardName = CUT_BOARD_NAMES[phase as GamePhase] ?? "Board";
+    const topFaceY = (phase === GamePhase.CUTTING_TOP ? 5 : TABLE_OFFSET) + layout.jointHeight;
+
+    // Turning the work over rolls it about its long axis onto what was its top:
+    // the lid on its own, otherwise the pin board with the front board once that is on
+    const flipsLid = phase === GamePhase.CUTTING_TOP || phase === GamePhase.ASSEMBLY_D;
+    const flipPivotY = flipsLid
+        ? 5 + layout.jointHeight / 2
+        : TABLE_OFFSET + (phase === GamePhase.CUTTING_BACK || phase === GamePhase.ASSEMBLY_C ? BOARD_HEIGHT_A : layout.jointHeight) / 2;
+    const flipFaceY = 2 * flipPivotY - (flipsLid ? 5 : TABLE_OFFSET);
+    const flipTransform = (active: boolean) => ({
+        'rotation-z': flip.to(t => (active ? t * Math.PI : 0)),
+        'position-x': flip.to(t => (active ? flipPivotY * Math.sin(t * Math.PI) : 0)),
+        // Lifted mid-roll so the corners clear the bench
+        'position-y': flip.to(t => (active ? flipPivotY * (1 - Math.cos(t * Math.PI)) + Math.sin(t * Math.PI) * layout.boardWidth / 2 : 0)),
+    });
+
+    const routerReport = (undercut: number) =>
+        routerBoardAccuracy(boardName, tally.current, pinOvercut(getCutTargets().flatMap(t => bitesFor(t.key)), ROUTER_BIT_RADIUS), undercut);
+
+    // One pass of the bit at (x, z) in the board's own space: it lowers the
+    // waste under it, and past the cheeks of the nearest socket it eats into
+    // the pin. Returns whether it cut anything, and whether any of it was pin.
+    const routeAt = (x: number, z: number, depth: number) => {
+        let carved = false;
+        let bitten = false;
+        getCutTargets().forEach(({ key, fields, zStart }) => {
+            socketLayout.tailCenters.forEach((center, index) => {
+                if (carveSocket(fields[index], socketLayout, x - center, z - zStart, ROUTER_BIT_RADIUS, depth)) carved = true;
+            });
+            const { index } = nearestSocket(x, z);
+            if (biteCheeks(bitesFor(key)[index], socketLayout, x - socketLayout.tailCenters[index], z - zStart, ROUTER_BIT_RADIUS)) bitten = true;
+        });
+        return { carved: carved || bitten, bitten };
+    };
+
+    const handleCut = (xPos: number, zPos: number) => {
+        const targets = getCutTargets();
+        if (targets.length === 0 || cutComplete.current) return;
+
+        // The bit cuts wherever the board has slipped to
+        const [x, z] = holdsBoard ? toHeldBoard(xPos, zPos) : [xPos, zPos];
+        const depth = layout.jointHeight * ROUTER_DEPTH_PER_FRAME * cutSpeed(species);
+        if (!routeAt(x, z, depth).carved) return;
+        carveRevision.current++;
+
+        // ...and pulls at it, so a board that isn't held creeps and twists
+        // while the bit is still in the cut, dragging it off the marks
+        if (holdsBoard && security < SECURE) {
+            const { shift: next, kicked } = routerNudge(shift.current, security);
+            shift.current = next;
+            applyShift();
+            tally.current.slip = Math.max(tally.current.slip ?? 0, shiftDistance(next, BOARD_LENGTH_B));
+            const [slippedX, slippedZ] = toHeldBoard(xPos, zPos);
+            const steps = Math.ceil(Math.hypot(slippedX - x, slippedZ - z) / (ROUTER_BIT_RADIUS / 2));
+            let bitten = false;
+            for (let step = 1; step <= steps; step++) {
+                const t = step / steps;
+                if (routeAt(x + (slippedX - x) * t, z + (slippedZ - z) * t, depth).bitten) bitten = true;
+            }
+            if (kicked) setWorkTip("The router kicked the board! A loose board is dangerous: clamp it down tight.");
+            else if (bitten) setWorkTip("The board slipped under the router and the bit took a bite out of a pin. Better clamping keeps it still.");
+            else if (!workTip) setWorkTip("The board is creeping under the router. Better clamping keeps it still.");
+        }
+
+        const now = performance.now();
+        if (now - lastDustTime.current > SAWDUST_INTERVAL_MS) {
+            lastDustTime.current = now;
+            sawdustRef.current?.spawnBurst(new THREE.Vector3(xPos, topFaceY, zPos), species);
+        }
+
+        finishCutting(routerReport);
+    };
+
+    // The nearest socket to a point on the board, in the board's own (unflipped) X
+    const nearestSocket = (x: number, z: number) => {
+        const targets = getCutTargets();
+        const target = targets.reduce((best, t) => (Math.abs(z - (t.zStart + socketLayout.boardThickness / 2)) < Math.abs(z - (best.zStart + socketLayout.boardThickness / 2)) ? t : best), targets[0]);
+        const index = socketLayout.tailCenters.reduce((best, center, i) => (Math.abs(x - center) < Math.abs(x - socketLayout.tailCenters[best]) ? i : best), 0);
+        return { target, index };
+    };
+
+    const updateHandCut = (key: BoxSocketKey, index: number, cut: SocketHandCut) => {
+        setHandCuts(prev => ({ ...prev, [key]: (prev[key] ?? socketLayout.tailCenters.map(freshHandCut)).map((c, i) => (i === index ? cut : c)) }));
+    };
+
+    const handleSawStroke = (x: number, z: number, tilt: number) => {
+        if (cutComplete.current) return;
+        const { target, index } = nearestSocket(x, z);
+        const center = socketLayout.tailCenters[index];
+        const { cut, drift, tip } = sawStroke(handCutsFor(target.key)[index], socketLayout, x - center, tilt, SAW_STROKE_DEPTH * cutSpeed(species));
+        setHandTip(tip ?? null);
+        if (drift === undefined) return;
+        tally.current.samples++;
+        tally.current.overcut += sawOvercut(drift);
+        updateHandCut(target.key, index, cut);
+        sawdustRef.current?.spawnBurst(new THREE.Vector3(x, topFaceY, z), species);
+    };
+
+    // Chisel spots over every socket, on whichever face is up
+    const chiselSpots: [number, number, number][] = getCutTargets().flatMap(t =>
+        socketLayout.tailCenters.map(center => [flipped ? -center : center, flipped ? flipFaceY : topFaceY, t.zStart + socketLayout.boardThickness / 2] as [number, number, number])
+    );
+
+    const handleChiselBlow = () => {
+        if (cutComplete.current) return;
+        const spot = chiselSpots[chiselSpot];
+        if (!spot) return;
+        const { target, index } = nearestSocket(flipped ? -spot[0] : spot[0], spot[2]);
+        const { cut, blowout, tip } = chiselBlow(handCutsFor(target.key)[index], flipped ? 'bottom' : 'top', CHISEL_BLOW_DEPTH * cutSpeed(species));
+        if (tip) {
+            setHandTip(tip);
+            return;
+        }
+        setHandTip(blowout ? "Crack! Chopping right through split the far face. Turn the board over at half way." : null);
+        if (blowout) tally.current.blowouts = (tally.current.blowouts ?? 0) + 1;
+        chopField(target.fields[index], socketLayout, cut);
+        carveRevision.current++;
+        updateHandCut(target.key, index, cut);
+        sawdustRef.current?.spawnBurst(new THREE.Vector3(spot[0], spot[1], spot[2]), species);
+        finishCutting(() => handBoardAccuracy(boardName, tally.current));
+    };
+
+    const handleAssemblyDrag = (event: any, boardRef: React.RefObject<THREE.Group>, targetY: number) => {
+        if (assemblyState !== 'dragging') return;
+        event.stopPropagation();
+        setOrbitEnabled(false);
+        const dragPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+        const point = new THREE.Vector3();
+        event.ray.intersectPlane(dragPlane, point);
+
+        if (boardRef.current) {
+            const stopY = targetY + GAP_HEIGHT;
+            const currentY = Math.max(stopY, Math.min(point.y + 1, targetY + 3)); 
+            boardRef.current.position.y = currentY;
+            
+            if (boardRef.current === tailBoardARef.current) {
+                boardRef.current.position.z = 0; boardRef.current.position.x = 0;
+            } else if (boardRef.current === tailBoardCRef.current) {
+                boardRef.current.position.z = zPosBack; boardRef.current.position.x = 0;
+            } else if (boardRef.current === topBoardDRef.current) {
+                boardRef.current.position.z = 0; boardRef.current.position.x = 0;
+            }
+
+            if (currentY <= stopY + 0.05) {
+                boardRef.current.position.y = stopY;
+                setOrbitEnabled(true);
+                setAssemblyState('hammering');
+            }
+        }
+    };
+
+    const handleHammerClick = (targetY: number, boardRef: React.RefObject<THREE.Group>) => {
+        if (assemblyState !== 'hammering') return;
+        const newTaps = hammerTaps + 1;
+        setHammerTaps(newTaps);
+        // Off marks leave the board standing proud by fitGap however hard it's hit
+        const remainingGap = (GAP_HEIGHT - fitGap) * (1 - (newTaps / HAMMER_TAPS_REQUIRED));
+        const nextY = targetY + fitGap + Math.max(0, remainingGap);
+        if (boardRef.current) boardRef.current.position.y = nextY;
+        if (newTaps >= HAMMER_TAPS_REQUIRED) {
+            setAssemblyState('done');
+            setTimeout(onPhaseComplete, 500);
+        }
+    };
+
+    // Tail count changed on the design screen: resize the cut state to match
+    useEffect(() => {
+        if (sockets.socketsBFront.length !== numTails) {
+            setSockets(freshBoxSockets(numTails));
+            setHandCuts({});
+            pinBites.current = {};
+        }
+    }, [numTails]);
+
+    useEffect(() => {
+        carveRevision.current++;
+        saveSockets();
+    }, [sockets, marks, tools, handCuts, holdClamps]);
+
+    // Restoring a save: boards already hammered home start in their final spot
+    useEffect(() => {
+        const passed = (target: GamePhase) => phase !== target && hasReachedPhase(level, phase, target);
+        if (passed(GamePhase.ASSEMBLY)) tailBoardARef.current?.position.set(0, TABLE_OFFSET + fitGap, 0);
+        if (passed(GamePhase.ASSEMBLY_C)) tailBoardCRef.current?.position.set(0, TABLE_OFFSET + fitGap, zPosBack);
+        if (passed(GamePhase.ASSEMBLY_D)) topBoardDRef.current?.position.set(0, BOARD_HEIGHT_A + fitGap, 0);
+    }, []);
+
+    useEffect(() => {
+        if (phase === GamePhase.INTRO) {
+            setSockets(freshBoxSockets(numTails));
+            setHandCuts({});
+            pinBites.current = {};
+            setMarks(undefined);
+            setHoldClamps([]);
+            setFinishPanels(Array.from({ length: 3 }, freshPanel));
+            tally.current = emptyTally();
+            onStateChange?.({ accuracy: [] });
+            sawdustRef.current?.clear(); 
+            if (tailBoardARef.current) tailBoardARef.current.position.set(0, 2.5, 0);
+            if (tailBoardCRef.current) tailBoardCRef.current.position.set(0, 2.5, zPosBack);
+            if (topBoardDRef.current) topBoardDRef.current.position.set(0, 5, 0); 
+        }
+        cutComplete.current = false;
+        resetShift();
+        setWorkTip(null);
+        setFlipped(false);
+        setHandTool('saw');
+        setHandTip(null);
+        setChiselSpot(0);
+        if ([GamePhase.ASSEMBLY, GamePhase.ASSEMBLY_C, GamePhase.ASSEMBLY_D].includes(phase)) {
+            setAssemblyState('dragging');
+            setHammerTaps(0);
+        }
+        if (phase === GamePhase.ASSEMBLY_PREP) tailBoardARef.current?.position.set(0, 2.5, 0);
+        if (phase === GamePhase.CUTTING_BACK) tailBoardCRef.current?.position.set(0, 2.5, zPosBack);
+        if (phase === GamePhase.CUTTING_TOP) topBoardDRef.current?.position.set(0, 5, 0); 
+    }, [phase]);
+
+    const yPosTop = BOARD_HEIGHT_A;
+    const isCutting = phase === GamePhase.CUTTING || phase === GamePhase.CUTTING_BACK || phase === GamePhase.CUTTING_TOP;
+    const showMarksFront = phase === GamePhase.CUTTING;
+    const showMarksBack = phase === GamePhase.CUTTING_BACK;
+
+    const getHammerConfig = (): {pos: [number, number, number], rot: [number, number, number]} | null => {
+        if (assemblyState !== 'hammering') return null;
+        if (phase === GamePhase.ASSEMBLY) return { pos: [-1.4, 3.5, 0.5], rot: [0, 0, -Math.PI/2] };
+        if (phase === GamePhase.ASSEMBLY_C) return { pos: [-1.4, 3.5, zPosBack - 0.5], rot: [0, 0, -Math.PI/2] };
+        if (phase === GamePhase.ASSEMBLY_D) return { pos: [-1.4, 4.0, 0], rot: [0, 0, -Math.PI/2] };
+        return null;
+    };
+    const hammerConfig = getHammerConfig();
+
+    // Joint lines glued in this phase: the front and back joints take their
+    // tail board's weight, the lid presses down on both
+    const T = layout.boardThickness;
+    const frontJoint = (bottom: number, clampY: number): GlueEdge => ({ z: T / 2, faceZ: T + 0.003, bottom, top: bottom + T, clampY, outward: 1 });
+    const backJoint = (bottom: number, clampY: number): GlueEdge => ({ z: zPosBack + T / 2, faceZ: zPosBack - 0.003, bottom, top: bottom + T, clampY, outward: -1 });
+    const wallTop = TABLE_OFFSET + fitGap + BOARD_HEIGHT_A;
+    const lidTop = yPosTop + fitGap + T;
+    const glueEdges: GlueEdge[] =
+        phase === GamePhase.GLUE_UP ? [frontJoint(TABLE_OFFSET, wallTop)]
+        : phase === GamePhase.GLUE_UP_C ? [backJoint(TABLE_OFFSET, wallTop)]
+        : phase === GamePhase.GLUE_UP_D ? [frontJoint(yPosTop, lidTop), backJoint(yPosTop, lidTop)]
+        : [];
+
+    const wallY = TABLE_OFFSET + fitGap + BOARD_HEIGHT_A / 2;
+    const finishFaces: FinishFace[] = [
+        { position: [0, wallY, T + 0.002], rotation: [0, 0, 0], width: layout.boardWidth, height: BOARD_HEIGHT_A, vertical: true },
+        { position: [0, wallY, zPosBack - 0.002], rotation: [0, Math.PI, 0], width: layout.boardWidth, height: BOARD_HEIGHT_A, vertical: true },
+        { position: [0, lidTop + 0.002, (zPosBack + T) / 2], rotation: [-Math.PI / 2, 0, 0], width: layout.boardWidth, height: BOARD_LENGTH_B, vertical: false },
+    ];
+    const isFinishing = phase === GamePhase.SANDING || phase === GamePhase.FINISHING;
+
+    return (
+        <group>
+            <SawdustSystem ref={sawdustRef} />
+            <AnimatedGroup {...flipTransform(!flipsLid)}>
+            <group ref={heldBoardRef}>
+            <group position={[0, TABLE_OFFSET, 0]}>
+                {/* The rough board stands in for the finished one until it is planed */}
+                <group visible={phase !== GamePhase.PLANING}>
+                    <PinBoardMesh layout={layout} marks={drawnMarks} species={species} doubleSided />
+                    {socketLayout.tailCenters.map((center, index) => (
+                        <SocketWaste layout={socketLayout} key={`bf-${index}`} position={[center, 0, socketFrontZ]} field={sockets.socketsBFront[index]} bites={bitesFor('socketsBFront')[index]} revision={carveRevision} palette={palette} isMarked={showMarksFront} />
+                    ))}
+                    {socketLayout.tailCenters.map((center, index) => (
+                        <SocketWaste layout={socketLayout} key={`bb-${index}`} position={[center, 0, zPosBack]} field={sockets.socketsBBack[index]} bites={bitesFor('socketsBBack')[index]} revision={carveRevision} palette={palette} isMarked={showMarksBack} />
+                    ))}
+                </group>
+                {phase === GamePhase.PLANING && (
+                    <PlaningStation
+                        key={layout.boardThickness}
+                        layout={layout}
+                        species={species}
+                        setOrbitEnabled={setOrbitEnabled}
+                        onDone={(error) => {
+                            onStateChange?.({ accuracy: withBoardAccuracy(accuracy, gradeBoard({ board: "Planed board", thicknessError: error })) });
+                            setTimeout(onPhaseComplete, 600);
+                        }}
+                    />
+                )}
+                {tools === 'hand' && (showMarksFront || showMarksBack) && getCutTargets().map(t => socketLayout.tailCenters.map((center, index) => (
+                    <SawKerfs key={`${t.key}-${index}`} layout={socketLayout} position={[center, 0, t.zStart]} endZ={t.endZ} cut={handCutsFor(t.key)[index]} />
+                )))}
+                {phase === GamePhase.MARKING && (
+                    <MarkingStation
+                        key={numTails}
+                        layout={layout}
+                        setOrbitEnabled={setOrbitEnabled}
+                        onDone={(drawn) => {
+                            setMarks(drawn);
+                            setTimeout(onPhaseComplete, 600);
+                        }}
+                    />
+                )}
+            </group>
+            <group ref={tailBoardARef} position={[0, 2.5, 0]} 
+                onPointerDown={(e) => phase === GamePhase.ASSEMBLY && handleAssemblyDrag(e, tailBoardARef, TABLE_OFFSET)} // Changed to Drag start logic if needed, or simplified
+                onPointerMove={(e) => phase === GamePhase.ASSEMBLY && handleAssemblyDrag(e, tailBoardARef, TABLE_OFFSET)}
+                visible={phase !== GamePhase.CLAMPING && phase !== GamePhase.PLANING && phase !== GamePhase.MARKING && phase !== GamePhase.CUTTING}
+            >
+                <TailBoardMesh layout={layout} species={species} />
+            </group>
+            </group>
+            </AnimatedGroup>
+             <group ref={tailBoardCRef} position={[0, 2.5, zPosBack]} 
+                onPointerMove={(e) => phase === GamePhase.ASSEMBLY_C && handleAssemblyDrag(e, tailBoardCRef, TABLE_OFFSET)}
+                visible={[GamePhase.CUTTING_BACK, GamePhase.ASSEMBLY_C, GamePhase.GLUE_UP_C, GamePhase.CUTTING_TOP, GamePhase.ASSEMBLY_D, GamePhase.GLUE_UP_D, GamePhase.SANDING, GamePhase.FINISHING, GamePhase.SUCCESS].includes(phase)}
+            >
+                <TailBoardMesh layout={layout} species={species} />
+            </group>
+            <AnimatedGroup {...flipTransform(flipsLid)}>
+             <group ref={topBoardDRef} position={[0, 5, 0]} 
+                onPointerMove={(e) => phase === GamePhase.ASSEMBLY_D && handleAssemblyDrag(e, topBoardDRef, yPosTop)}
+                visible={[GamePhase.CUTTING_TOP, GamePhase.ASSEMBLY_D, GamePhase.GLUE_UP_D, GamePhase.SANDING, GamePhase.FINISHING, GamePhase.SUCCESS].includes(phase)}
+            >
+                 <PinBoardMesh layout={layout} marks={drawnMarks} species={species} doubleSided />
+            </group>
+            {phase === GamePhase.CUTTING_TOP && topBoardDRef.current && (
+                <group position={[0, 5, 0]}> 
+                     {socketLayout.tailCenters.map((center, index) => (
+                         <group key={`d-${index}`} position={[0, 0, 0]}>
+                             <SocketWaste layout={socketLayout} position={[center, 0, socketFrontZ]} field={sockets.socketsDFront[index]} bites={bitesFor('socketsDFront')[index]} revision={carveRevision} palette={palette} isMarked={true} />
+                             <SocketWaste layout={socketLayout} position={[center, 0, zPosBack]} field={sockets.socketsDBack[index]} bites={bitesFor('socketsDBack')[index]} revision={carveRevision} palette={palette} isMarked={true} />
+                         </group>
+                     ))}
+                     {tools === 'hand' && getCutTargets().map(t => socketLayout.tailCenters.map((center, index) => (
+                         <SawKerfs key={`${t.key}-${index}`} layout={socketLayout} position={[center, 0, t.zStart]} endZ={t.endZ} cut={handCutsFor(t.key)[index]} />
+                     )))}
+                </group>
+            )}
+            </AnimatedGroup>
+            {[GamePhase.CLAMPING, GamePhase.PLANING, GamePhase.MARKING, GamePhase.CUTTING, GamePhase.CUTTING_BACK].includes(phase) && (
+                <ClampRack
+                    lines={holdLines}
+                    clamps={holdClamps}
+                    onChange={setHoldClamps}
+                    rackSize={HOLD_CLAMPS}
+                    rack={[layout.boardWidth / 2 + 1, TABLE_OFFSET, 0.8]}
+                    locked={phase !== GamePhase.CLAMPING}
+                    setOrbitEnabled={setOrbitEnabled}
+                />
+            )}
+            {phase === GamePhase.CLAMPING && (
+                <Html position={[-layout.boardWidth / 2 - 1.4, TABLE_OFFSET + 1, -1]} center>
+                    <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                        <div className="font-bold text-amber-800">Workholding 夹紧</div>
+                        <div>Drag clamps from the rack onto the board's long edges. Click to tighten, right-click to loosen.</div>
+                        <div>Held: <b>{Math.round(security * 100)}%</b></div>
+                        <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                            <div className={`h-full ${security >= SECURE ? 'bg-green-500' : 'bg-amber-500'}`} style={{ width: `${security * 100}%` }} />
+                        </div>
+                        {security < SECURE && <div className="text-red-600 font-bold">Two tight clamps, spread well apart, stop the board moving under the router.</div>}
+                        <button
+                            onClick={finishClamping}
+                            disabled={progress === 1}
+                            className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            ✔ Clamped
+                        </button>
+                    </div>
+                </Html>
+            )}
+            {hammerConfig && (
+                <Mallet position={hammerConfig.pos} rotation={hammerConfig.rot} onClick={() => {
+                    if (phase === GamePhase.ASSEMBLY) handleHammerClick(TABLE_OFFSET, tailBoardARef);
+                    if (phase === GamePhase.ASSEMBLY_C) handleHammerClick(TABLE_OFFSET, tailBoardCRef);
+                    if (phase === GamePhase.ASSEMBLY_D) handleHammerClick(yPosTop, topBoardDRef);
+                }} 
+                onDragStart={() => setOrbitEnabled(false)}
+                onDragEnd={() => setOrbitEnabled(true)}
+                />
+            )}
+            {glueEdges.length > 0 && (
+                <GlueUpStation
+                    key={phase}
+                    edges={glueEdges}
+                    width={layout.boardWidth}
+                    baseY={TABLE_OFFSET}
+                    setOrbitEnabled={setOrbitEnabled}
+                    onDone={(report) => {
+                        const board = GLUE_BOARD_NAMES[phase as GamePhase] ?? "Glue-up";
+                        onStateChange?.({ accuracy: withBoardAccuracy(accuracy, gradeBoard({ board, openGlue: report.open, starvedGlue: report.starved })) });
+                        onPhaseComplete();
+                    }}
+                />
+            )}
+            {isFinishing && (
+                <FinishingStation
+                    faces={finishFaces}
+                    panels={finishPanels}
+                    onChange={setFinishPanels}
+                    finishing={phase === GamePhase.FINISHING}
+                    finish={finish}
+                    onFinishChange={(kind) => onStateChange?.({ finish: kind })}
+                    panelPosition={[-layout.boardWidth / 2 - 1.6, wallY + 1, zPosBack / 2]}
+                    setOrbitEnabled={setOrbitEnabled}
+                    onStrokeEnd={saveSockets}
+                    onDone={(report) => {
+                        const entry = phase === GamePhase.SANDING
+                            ? gradeBoard({ board: "Sanding", roughness: report.roughness })
+                            : gradeBoard({ board: "Finish", missedFinish: report.missed, runs: report.runs });
+                        onStateChange?.({ accuracy: withBoardAccuracy(accuracy, entry) });
+                        setTimeout(onPhaseComplete, 600);
+                    }}
+                />
+            )}
+            {phase === GamePhase.SUCCESS && finish && finishFaces.map((face, i) => (
+                <FinishSurface key={i} face={face} panel={finishPanels[i]} finish={finish} />
+            ))}
+            {isCutting && tools === 'hand' && (
+                <>
+                    {handTool === 'saw' ? (
+                        <HandSaw
+                            key={phase}
+                            workY={topFaceY}
+                            zRanges={getCutTargets().map(({ zStart }) => [zStart, zStart + socketLayout.boardThickness] as [number, number])}
+                            boardHalfWidth={layout.boardWidth / 2}
+                            onStroke={handleSawStroke}
+                            onDragStart={() => setOrbitEnabled(false)}
+                            onDragEnd={() => setOrbitEnabled(true)}
+                        />
+                    ) : (
+                        <>
+                            <Chisel
+                                spots={chiselSpots}
+                                spot={chiselSpot}
+                                onSelect={setChiselSpot}
+                                onDragStart={() => setOrbitEnabled(false)}
+                                onDragEnd={() => setOrbitEnabled(true)}
+                            />
+                            {chiselSpots[chiselSpot] && (
+                                <Mallet
+                                    position={[chiselSpots[chiselSpot][0] - 1.15, chiselSpots[chiselSpot][1] + 2, chiselSpots[chiselSpot][2]]}
+                                    rotation={[0, 0, -Math.PI/2]}
+                                    onClick={handleChiselBlow}
+                                    onDragStart={() => setOrbitEnabled(false)}
+                                    onDragEnd={() => setOrbitEnabled(true)}
+                                />
+                            )}
+                        </>
+                    )}
+                </>
+            )}
+            {isCutting && (
+                <Html position={[-layout.boardWidth / 2 - 1.4, topFaceY + 1, 0]} center>
+                    <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                        <div className="flex gap-1">
+                            {(['router', 'hand'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => { setTools(mode); setFlipped(false); setHandTip(null); resetShift(); setWorkTip(null); }}
+                                    className={`flex-1 px-2 py-1 rounded-lg font-bold ${tools === mode ? 'bg-amber-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                                >
+                                    {mode === 'router' ? "Router" : "Hand tools 手工"}
+                                </button>
+                            ))}
+                        </div>
+                        {tools === 'router' && holdsBoard && (
+                            <>
+                                <div>Board held: <b>{Math.round(security * 100)}%</b></div>
+                            </>
+                        )}
+                        {tools === 'router' && (
+                            <>
+                                {workTip && <div className="text-red-600 font-bold">{workTip}</div>}
+                                <div>Rout the waste down to the lines without straying into the pins, then call it done.</div>
+                                <button
+                                    onClick={() => {
+                                        if (!finishCutting(routerReport, true)) setWorkTip("There is still waste standing in the sockets. Rout it down to the lines first.");
+                                    }}
+                                    className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold"
+                                >
+                                    ✋ Done routing
+                                </button>
+                            </>
+                        )}
+                        {tools === 'hand' && (
+                            <>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => { setHandTool('saw'); setFlipped(false); }}
+                                        className={`flex-1 px-2 py-1 rounded-lg font-bold ${handTool === 'saw' ? 'bg-amber-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                                    >
+                                        🪚 Saw 锯
+                                    </button>
+                                    <button
+                                        onClick={() => setHandTool('chisel')}
+                                        className={`flex-1 px-2 py-1 rounded-lg font-bold ${handTool === 'chisel' ? 'bg-amber-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                                    >
+                                        🔨 Chisel 凿
+                                    </button>
+                                </div>
+                                {handTool === 'saw' ? (
+                                    <div>
+                                        Saw down both cheeks of every socket. Lean the blade to the marked slope:
+                                        <span className="font-bold"> {(cheekSlope(socketLayout) * 180 / Math.PI).toFixed(1)}°</span>, each side leaning out from the socket.
+                                    </div>
+                                ) : (
+                                    <>
+                                        <div>Set the chisel in a socket and strike it with the Mallet. Stop half way, then turn the board over.</div>
+                                        <button
+                                            onClick={() => setFlipped(!flipped)}
+                                            className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold"
+                                        >
+                                            🔄 Turn over ({flipped ? "bottom" : "top"} face up)
+                                        </button>
+                                    </>
+                                )}
+                                {handTip && <div className="text-red-600 font-bold">{handTip}</div>}
+                            </>
+                        )}
+                    </div>
+                </Html>
+            )}
+            {isCutting && tools === 'router' && (
+                <RouterTool
+                    phase={phase}
+                    onCut={handleCut}
+                    zBackPosition={phase === GamePhase.CUTTING_BACK ? zPosBack : 0}
+                    boardHalfWidth={layout.boardWidth / 2}
+                    boardThickness={layout.boardThickness}
+                    zRanges={getCutTargets().map(({ zStart }) => [zStart, zStart + socketLayout.boardThickness] as [number, number])}
+                    onInteractionStart={() => setOrbitEnabled(false)}
+                    onInteractionEnd={() => { setOrbitEnabled(true); saveSockets(); }}
+                />
+            )}
+        </group>
+    );
+}
+
+const freshBoxSockets = (numTails: number): BoxSaveState => ({
+    socketsBFront: Array.from({ length: numTails }, freshSocket),
+    socketsBBack: Array.from({ length: numTails }, freshSocket),
+    socketsDFront: Array.from({ length: numTails }, freshSocket),
+    socketsDBack: Array.from({ length: numTails }, freshSocket),
+});
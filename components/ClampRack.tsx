@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import * as THREE from 'three';
+import '../types';
+import { PressureClamp } from './Tools';
+import { ClampPlacement, MAX_PRESSURE, PRESSURE_STEP, PRESSURE_RANGE, clampPressure } from '../clamps';
+
+// A line on the work a clamp can be dropped onto
+export interface ClampLine {
+    start: [number, number]; // X, Z of its ends
+    end: [number, number];
+    y: number;               // Top of the work, under the clamp's top jaw
+    span: number;            // Jaw opening that reaches under the work
+    rotationY: number;       // Turns the clamp's bar clear of the work
+}
+
+// A clamp picked up, off the work or off the rack
+interface ClampDrag {
+    index: number | null; // Placed clamp being moved, or null for one from the rack
+    slot: number;         // Rack slot it came from
+    x: number;
+    z: number;
+    snap: { edge: number; at: number } | null;
+}
+
+const CLAMP_SNAP = 0.8; // How close to a line a dragged clamp snaps onto it
+const CLAMP_RACK_GAP = 0.3;
+
+export const clampLinePoint = (line: ClampLine, at: number): [number, number, number] =>
+    [line.start[0] + (line.end[0] - line.start[0]) * at, line.y, line.start[1] + (line.end[1] - line.start[1]) * at];
+
+// Screw clamps on the work and a rack of spare ones beside it. Drag a clamp
+// onto the work and it snaps to the nearest line; click it to tighten,
+// right-click to loosen. Dropped anywhere else it goes back on the rack.
+export function ClampRack({ lines, clamps, onChange, rackSize, rack, locked = false, setOrbitEnabled }: { lines: ClampLine[], clamps: ClampPlacement[], onChange: (update: (clamps: ClampPlacement[]) => ClampPlacement[]) => void, rackSize: number, rack: [number, number, number], locked?: boolean, setOrbitEnabled: (enabled: boolean) => void }) {
+    const [drag, setDrag] = useState<ClampDrag | null>(null);
+    const dragY = lines[0].y;
+    const onRack = Math.max(0, rackSize - clamps.length);
+
+    // The line (and spot along it) nearest a point, if it is close enough to snap to
+    const snapTo = (x: number, z: number) => {
+        let best: { edge: number; at: number } | null = null;
+        let bestDistance = CLAMP_SNAP;
+        lines.forEach((line, edge) => {
+            const dx = line.end[0] - line.start[0];
+            const dz = line.end[1] - line.start[1];
+            const at = Math.max(0.05, Math.min(0.95, ((x - line.start[0]) * dx + (z - line.start[1]) * dz) / (dx * dx + dz * dz)));
+            const [px, , pz] = clampLinePoint(line, at);
+            const distance = Math.hypot(x - px, z - pz);
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = { edge, at };
+            }
+        });
+        return best;
+    };
+
+    const startDrag = (index: number | null, slot = 0) => {
+        if (locked) return;
+        setOrbitEnabled(false);
+        const placed = index === null ? null : clamps[index];
+        const [x, , z] = placed ? clampLinePoint(lines[placed.edge], placed.at) : rack;
+        setDrag({ index, slot, x, z, snap: placed ? { edge: placed.edge, at: placed.at } : null });
+    };
+
+    const moveDrag = (e: any) => {
+        if (!drag) return;
+        const point = new THREE.Vector3();
+        if (!e.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -dragY), point)) return;
+        setDrag({ ...drag, x: point.x, z: point.z, snap: snapTo(point.x, point.z) });
+    };
+
+    // A clamp that moved comes off loose
+    const endDrag = () => {
+        setOrbitEnabled(true);
+        if (!drag) return;
+        const { index, snap } = drag;
+        setDrag(null);
+        onChange(prev => {
+            const next = [...prev];
+            const placed = index === null ? null : next[index];
+            if (placed && snap && placed.edge === snap.edge && placed.at === snap.at) return prev;
+            if (index !== null) next.splice(index, 1);
+            if (snap) next.push({ ...snap, pressure: 0 });
+            return next;
+        });
+    };
+
+    const turnScrew = (index: number, turns: number) => {
+        if (locked) return;
+        onChange(prev => prev.map((c, i) => (i === index ? { ...c, pressure: clampPressure(c.pressure + turns * PRESSURE_STEP) } : c)));
+    };
+
+    // The clamp in hand sits on the line it snaps to, or follows the pointer
+    const heldPosition = (held: ClampDrag): [number, number, number] =>
+        held.snap ? clampLinePoint(lines[held.snap.edge], held.snap.at) : [held.x, dragY, held.z];
+
+    const lineProps = (line: ClampLine) => ({
+        rotationY: line.rotationY,
+        span: line.span,
+        maxPressure: MAX_PRESSURE,
+        goodRange: PRESSURE_RANGE,
+    });
+
+    return (
+        <group>
+            {clamps.map((clamp, i) => {
+                const held = drag && drag.index === i ? drag : null;
+                return (
+                    <PressureClamp
+                        key={i}
+                        position={held ? heldPosition(held) : clampLinePoint(lines[clamp.edge], clamp.at)}
+                        pressure={held ? 0 : clamp.pressure}
+                        {...lineProps(lines[held ? held.snap?.edge ?? 0 : clamp.edge])}
+                        onDragStart={() => startDrag(i)}
+                        onDrag={moveDrag}
+                        onDragEnd={endDrag}
+                        onTighten={() => turnScrew(i, 1)}
+                        onLoosen={() => turnScrew(i, -1)}
+                    />
+                );
+            })}
+            {!locked && Array.from({ length: onRack }, (_, slot) => {
+                const held = drag && drag.index === null && drag.slot === slot ? drag : null;
+                return (
+                    <PressureClamp
+                        key={`rack-${slot}`}
+                        position={held ? heldPosition(held) : [rack[0] + slot * CLAMP_RACK_GAP, rack[1], rack[2]]}
+                        pressure={0}
+                        {...lineProps(lines[held?.snap?.edge ?? 0])}
+                        onDragStart={() => startDrag(null, slot)}
+                        onDrag={moveDrag}
+                        onDragEnd={endDrag}
+                        onTighten={() => {}}
+                        onLoosen={() => {}}
+                    />
+                );
+            })}
+        </group>
+    );
+}
@@ -0,0 +1,274 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useCursor, Edges, Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { GamePhase } from '../types';
+import { Mallet } from './Tools';
+import { Vec3, GAP_HEIGHT, HAMMER_TAPS_REQUIRED, COLOR_EDGES, COLOR_PINS, COLOR_TAILS } from './shared';
+
+// Level 3: a dougong bracket set, hammered together part by part from the
+// big block up, each part only once what it sits on is in place.
+
+interface DougongPart {
+    id: string;
+    name: string;
+    nameZh: string;
+    kind: 'dou' | 'gong';
+    target: Vec3;    // Resting position once hammered home
+    idle: Vec3;      // Where it waits on the bench
+    requires: string[];
+    height: number;
+    size?: number;            // Dou blocks: footprint
+    axis?: 'x' | 'z';         // Gong arms: direction of the arm
+    notch?: 'top' | 'bottom'; // Gong arms: which half is cut away at the crossing
+}
+
+const DOU_LARGE = 1.2;
+const DOU_SMALL = 0.5;
+const GONG_LENGTH = 3;
+const GONG_WIDTH = 0.4;
+const GONG_HEIGHT = 0.5;
+const LUDOU_SEAT_Y = 0.4; // Arms sit in the big block's groove
+const GONG_TOP_Y = LUDOU_SEAT_Y + GONG_HEIGHT;
+
+// Simplified 一斗三升 with a projecting 华栱: each part lists what must already be in place beneath it
+const DOUGONG_PARTS: DougongPart[] = [
+    { id: 'ludou', name: "Bearing Block", nameZh: "坐斗", kind: 'dou', size: DOU_LARGE, height: 0.6, target: [0, 0, 0], idle: [-3.8, 0, 1.8], requires: [] },
+    { id: 'huagong', name: "Projecting Arm", nameZh: "华栱", kind: 'gong', axis: 'z', notch: 'top', height: GONG_HEIGHT, target: [0, LUDOU_SEAT_Y, 0], idle: [4, 0, 0], requires: ['ludou'] },
+    { id: 'nidaogong', name: "Cross Arm", nameZh: "泥道栱", kind: 'gong', axis: 'x', notch: 'bottom', height: GONG_HEIGHT, target: [0, LUDOU_SEAT_Y, 0], idle: [0, 0, 2.8], requires: ['huagong'] },
+    { id: 'qixindou', name: "Centre Block", nameZh: "齐心斗", kind: 'dou', size: DOU_SMALL, height: 0.3, target: [0, GONG_TOP_Y, 0], idle: [0, 0, -3], requires: ['huagong', 'nidaogong'] },
+    { id: 'sandou-l', name: "Small Block (left)", nameZh: "散斗", kind: 'dou', size: DOU_SMALL, height: 0.3, target: [-1.2, GONG_TOP_Y, 0], idle: [-4.2, 0, -1.5], requires: ['nidaogong'] },
+    { id: 'sandou-r', name: "Small Block (right)", nameZh: "散斗", kind: 'dou', size: DOU_SMALL, height: 0.3, target: [1.2, GONG_TOP_Y, 0], idle: [4.2, 0, -1.8], requires: ['nidaogong'] },
+    { id: 'jiaohudou-f', name: "Cross Block (front)", nameZh: "交互斗", kind: 'dou', size: DOU_SMALL, height: 0.3, target: [0, GONG_TOP_Y, 1.2], idle: [-2.8, 0, -2.8], requires: ['huagong'] },
+    { id: 'jiaohudou-b', name: "Cross Block (back)", nameZh: "交互斗", kind: 'dou', size: DOU_SMALL, height: 0.3, target: [0, GONG_TOP_Y, -1.2], idle: [2.8, 0, -2.8], requires: ['huagong'] },
+];
+
+export function DougongProject({ phase, onPhaseComplete, setOrbitEnabled, savedState, onStateChange }: any) {
+    const partRefs = useRef<Record<string, THREE.Group | null>>({});
+    const [placed, setPlaced] = useState<string[]>(() => savedState?.placed ?? []);
+    const [activePart, setActivePart] = useState<string | null>(null);
+    const [assemblyState, setAssemblyState] = useState<'dragging' | 'hammering'>('dragging');
+    const [hammerTaps, setHammerTaps] = useState(0);
+    const [hoveredPart, setHoveredPart] = useState<string | null>(null);
+    const [orderWarning, setOrderWarning] = useState<{ text: string, pos: Vec3 } | null>(null);
+    useCursor(hoveredPart !== null);
+
+    useEffect(() => {
+        onStateChange?.({ dougong: { placed } });
+    }, [placed]);
+
+    useEffect(() => {
+        if (!orderWarning) return;
+        const timeout = setTimeout(() => setOrderWarning(null), 2500);
+        return () => clearTimeout(timeout);
+    }, [orderWarning]);
+
+    const canAssemble = phase === GamePhase.ASSEMBLY;
+
+    // Checked on mount too, so a save restored with every part placed moves on
+    useEffect(() => {
+        if (!canAssemble || placed.length < DOUGONG_PARTS.length) return;
+        const timeout = setTimeout(onPhaseComplete, 800);
+        return () => clearTimeout(timeout);
+    }, [placed, phase]);
+
+    const handlePartPointerDown = (event: any, part: DougongPart) => {
+        if (!canAssemble || placed.includes(part.id)) return;
+        event.stopPropagation();
+        if (activePart && activePart !== part.id) return;
+
+        const missing = part.requires.filter(id => !placed.includes(id));
+        if (missing.length > 0) {
+            const below = DOUGONG_PARTS.find(p => p.id === missing[0])!;
+            setOrderWarning({
+                text: `${part.nameZh} sits on the ${below.nameZh} (${below.name}). Place that first!`,
+                pos: [part.idle[0], 1.5, part.idle[2]],
+            });
+            return;
+        }
+
+        if (!activePart) {
+            setActivePart(part.id);
+            setAssemblyState('dragging');
+            setHammerTaps(0);
+            partRefs.current[part.id]?.position.set(part.target[0], part.target[1] + 2.5, part.target[2]);
+        }
+        setOrbitEnabled(false);
+        (event.target as HTMLElement).setPointerCapture?.(event.pointerId);
+    };
+
+    // Same drag-down-to-the-gap interaction as BoxProject.handleAssemblyDrag, per part
+    const handlePartDrag = (event: any, part: DougongPart) => {
+        if (activePart !== part.id || assemblyState !== 'dragging') return;
+        event.stopPropagation();
+        const dragPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+        const point = new THREE.Vector3();
+        event.ray.intersectPlane(dragPlane, point);
+
+        const group = partRefs.current[part.id];
+        if (!group) return;
+        const targetY = part.target[1];
+        const stopY = targetY + GAP_HEIGHT;
+        const currentY = Math.max(stopY, Math.min(point.y + 1, targetY + 3));
+        group.position.set(part.target[0], currentY, part.target[2]);
+
+        if (currentY <= stopY + 0.05) {
+            group.position.y = stopY;
+            setOrbitEnabled(true);
+            setAssemblyState('hammering');
+        }
+    };
+
+    const handlePartPointerUp = (event: any) => {
+        event.stopPropagation();
+        setOrbitEnabled(true);
+        (event.target as HTMLElement).releasePointerCapture?.(event.pointerId);
+    };
+
+    const handleHammerClick = () => {
+        const part = DOUGONG_PARTS.find(p => p.id === activePart);
+        if (!part || assemblyState !== 'hammering') return;
+        const newTaps = hammerTaps + 1;
+        setHammerTaps(newTaps);
+        const remainingGap = GAP_HEIGHT * (1 - (newTaps / HAMMER_TAPS_REQUIRED));
+        const group = partRefs.current[part.id];
+        if (group) group.position.y = part.target[1] + Math.max(0, remainingGap);
+
+        if (newTaps >= HAMMER_TAPS_REQUIRED) {
+            setPlaced([...placed, part.id]);
+            setActivePart(null);
+            setAssemblyState('dragging');
+        }
+    };
+
+    const active = DOUGONG_PARTS.find(p => p.id === activePart);
+    const hammerPos: Vec3 | null = active && assemblyState === 'hammering'
+        ? [active.target[0] - 1.6, active.target[1] + active.height + 0.6, active.target[2]]
+        : null;
+
+    return (
+        <group>
+            {DOUGONG_PARTS.map(part => {
+                const isPlaced = placed.includes(part.id);
+                const isActive = part.id === activePart;
+                const position: Vec3 = isPlaced
+                    ? part.target
+                    : isActive ? [part.target[0], part.target[1] + 2.5, part.target[2]] : part.idle;
+                return (
+                    <group
+                        key={part.id}
+                        ref={(el: THREE.Group | null) => { partRefs.current[part.id] = el; }}
+                        position={position}
+                        onPointerDown={(e) => handlePartPointerDown(e, part)}
+                        onPointerMove={(e) => handlePartDrag(e, part)}
+                        onPointerUp={handlePartPointerUp}
+                        onPointerOver={() => canAssemble && !isPlaced && setHoveredPart(part.id)}
+                        onPointerOut={() => setHoveredPart(prev => prev === part.id ? null : prev)}
+                    >
+                        {part.kind === 'dou'
+                            ? <DouBlock size={part.size!} height={part.height} />
+                            : <GongArm axis={part.axis!} notch={part.notch!} />}
+                        {hoveredPart === part.id && !isActive && (
+                            <Html position={[0, part.height + 0.4, 0]} center>
+                                <div className="bg-white/90 text-slate-800 px-2 py-1 rounded text-xs font-bold whitespace-nowrap shadow">
+                                    {part.nameZh} · {part.name}
+                                </div>
+                            </Html>
+                        )}
+                    </group>
+                );
+            })}
+
+            {orderWarning && (
+                <Html position={orderWarning.pos as any} center>
+                    <div className="bg-red-600/90 text-white px-3 py-2 rounded-lg text-sm font-bold whitespace-nowrap shadow-xl border border-red-400 animate-pulse">
+                        🚫 Wrong order!<br/>
+                        <span className="text-xs font-normal">{orderWarning.text}</span>
+                    </div>
+                </Html>
+            )}
+
+            {hammerPos && (
+                <Mallet
+                    position={hammerPos}
+                    rotation={[0, 0, -Math.PI/2]}
+                    onClick={handleHammerClick}
+                    onDragStart={() => setOrbitEnabled(false)}
+                    onDragEnd={() => setOrbitEnabled(true)}
+                />
+            )}
+        </group>
+    );
+}
+
+// 斗: tapered base (斗欹), flat band (斗平) and four ears (斗耳) leaving a cross groove
+const DouBlock: React.FC<{size: number, height: number}> = ({ size, height }) => {
+    const baseH = height * 0.5;
+    const bandH = height * (1 / 6);
+    const earH = height - baseH - bandH;
+    const groove = size === DOU_LARGE ? GONG_WIDTH : size * 0.4;
+    const ear = (size - groove) / 2;
+    const halfDiag = (size / 2) * Math.SQRT2;
+
+    return (
+        <group>
+            <mesh position={[0, baseH / 2, 0]} rotation={[0, Math.PI / 4, 0]} castShadow receiveShadow>
+                <cylinderGeometry args={[halfDiag, halfDiag * 0.75, baseH, 4]} />
+                <meshStandardMaterial color={COLOR_PINS} roughness={0.6} flatShading />
+            </mesh>
+            <mesh position={[0, baseH + bandH / 2, 0]} castShadow receiveShadow>
+                <boxGeometry args={[size, bandH, size]} />
+                <meshStandardMaterial color={COLOR_PINS} roughness={0.6} />
+                <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+            </mesh>
+            {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([sx, sz], i) => (
+                <mesh key={i} position={[sx * (groove + ear) / 2, baseH + bandH + earH / 2, sz * (groove + ear) / 2]} castShadow receiveShadow>
+                    <boxGeometry args={[ear, earH, ear]} />
+                    <meshStandardMaterial color={COLOR_PINS} roughness={0.6} />
+                    <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+                </mesh>
+            ))}
+        </group>
+    );
+};
+
+// 栱: arm with rounded-off lower ends (卷杀) and a half-depth notch where the arms cross
+const GongArm: React.FC<{axis: 'x' | 'z', notch: 'top' | 'bottom'}> = ({ axis, notch }) => {
+    const shape = useMemo(() => {
+        const s = new THREE.Shape();
+        const L = GONG_LENGTH / 2;
+        const H = GONG_HEIGHT;
+        const w = GONG_WIDTH / 2;
+        const c = 0.3; // Length of the end chamfer
+
+        s.moveTo(-L, H * 0.4);
+        s.lineTo(-L + c, 0);
+        if (notch === 'bottom') {
+            s.lineTo(-w, 0);
+            s.lineTo(-w, H / 2);
+            s.lineTo(w, H / 2);
+            s.lineTo(w, 0);
+        }
+        s.lineTo(L - c, 0);
+        s.lineTo(L, H * 0.4);
+        s.lineTo(L, H);
+        if (notch === 'top') {
+            s.lineTo(w, H);
+            s.lineTo(w, H / 2);
+            s.lineTo(-w, H / 2);
+            s.lineTo(-w, H);
+        }
+        s.lineTo(-L, H);
+        s.lineTo(-L, H * 0.4);
+        return s;
+    }, [notch]);
+
+    return (
+        <group rotation={[0, axis === 'z' ? Math.PI / 2 : 0, 0]}>
+            <mesh position={[0, 0, -GONG_WIDTH / 2]} castShadow receiveShadow>
+                <extrudeGeometry args={[shape, { depth: GONG_WIDTH, bevelEnabled: false }]} />
+                <meshStandardMaterial color={COLOR_TAILS} roughness={0.6} />
+                <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+            </mesh>
+        </group>
+    );
+};
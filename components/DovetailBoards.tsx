@@ -0,0 +1,252 @@
+import React, { useRef, useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Edges } from '@react-three/drei';
+import * as THREE from 'three';
+import '../types';
+import { COLOR_EDGES, COLOR_WASTE } from './shared';
+import { grainGeometry, GrainMaterials } from './WoodGrain';
+import { SocketField, PinBites, SOCKET_ROWS, socketColumns } from '../carving';
+import { SocketHandCut } from '../handTools';
+import { DovetailLayout } from '../dovetail';
+import { LayoutMarks } from '../marking';
+import { WoodSpecies, WoodPalette, DEFAULT_SPECIES } from '../species';
+
+// The box's boards: the pin board with its sockets, the tail board, and the
+// waste and saw kerfs drawn in each socket while it is cut.
+
+export const BOARD_LENGTH_B = 3;
+export const BOARD_HEIGHT_A = 2.5;
+
+// Sockets are cut where the layout was marked, `marks.baseline` deep from each end
+// Grain runs the length of the board (Z); its wide faces look up (Y), so the pin ends show end grain
+export const PinBoardMesh: React.FC<{layout: DovetailLayout, marks?: LayoutMarks, species?: WoodSpecies, doubleSided?: boolean}> = ({layout, marks, species = DEFAULT_SPECIES, doubleSided = false}) => {
+    const { shapesFront, shapesBack } = useMemo(() => {
+        const shapesF: THREE.Shape[] = [];
+        const shapesB: THREE.Shape[] = [];
+        const W = layout.boardWidth / 2;
+        const H = layout.jointHeight;
+        const centers = marks?.tailCenters ?? layout.tailCenters;
+        const tip = layout.tailWidthTip;
+        const root = layout.tailWidthRoot;
+        const n = centers.length;
+
+        const createPinShape = (xLeftBot: number, xLeftTop: number, xRightTop: number, xRightBot: number) => {
+             const s = new THREE.Shape();
+             s.moveTo(xLeftBot, 0);
+             s.lineTo(xLeftTop, H);
+             s.lineTo(xRightTop, H);
+             s.lineTo(xRightBot, 0);
+             s.lineTo(xLeftBot, 0); 
+             return s;
+        };
+
+        shapesF.push(createPinShape(-W, -W, centers[0] - tip/2, centers[0] - root/2));
+        for (let i = 0; i < n - 1; i++) {
+            shapesF.push(createPinShape(
+                centers[i] + root/2, centers[i] + tip/2,
+                centers[i+1] - tip/2, centers[i+1] - root/2
+            ));
+        }
+        shapesF.push(createPinShape(centers[n-1] + root/2, centers[n-1] + tip/2, W, W));
+
+        if (doubleSided) {
+            shapesB.push(...shapesF);
+        }
+
+        return { shapesFront: shapesF, shapesBack: shapesB };
+    }, [layout, marks, doubleSided]);
+
+    const T = layout.boardThickness;
+    const depth = marks?.baseline ?? T;
+    const extrudeSettings = useMemo(() => ({ depth, bevelEnabled: false }), [depth]);
+    const bodyStart = doubleSided ? -BOARD_LENGTH_B + T + depth : -BOARD_LENGTH_B + T;
+    const bodyEnd = T - depth;
+    const bodyLength = bodyEnd - bodyStart;
+    const backZ = -BOARD_LENGTH_B + layout.boardThickness;
+
+    const { frontGeometry, bodyGeometry, backGeometry } = useMemo(() => ({
+        frontGeometry: grainGeometry(new THREE.ExtrudeGeometry(shapesFront, extrudeSettings), 2, 1, [0, 0, bodyEnd]),
+        bodyGeometry: grainGeometry(new THREE.BoxGeometry(layout.boardWidth, layout.jointHeight, bodyLength), 2, 1, [0, layout.jointHeight / 2, (bodyStart + bodyEnd) / 2]),
+        backGeometry: shapesBack.length > 0 ? grainGeometry(new THREE.ExtrudeGeometry(shapesBack, extrudeSettings), 2, 1, [0, 0, backZ]) : null,
+    }), [shapesFront, shapesBack, extrudeSettings, layout, bodyStart, bodyEnd, bodyLength, backZ]);
+    
+    return (
+        <group>
+            <mesh receiveShadow castShadow position={[0, 0, bodyEnd]} geometry={frontGeometry}>
+                <GrainMaterials species={species} tone="dark" />
+                <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+            </mesh>
+
+            <mesh receiveShadow castShadow position={[0, layout.jointHeight/2, (bodyStart + bodyEnd) / 2]} geometry={bodyGeometry}>
+                 <GrainMaterials species={species} tone="dark" />
+                 <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+            </mesh>
+
+            {backGeometry && (
+                 <mesh receiveShadow castShadow position={[0, 0, backZ]} geometry={backGeometry}>
+                    <GrainMaterials species={species} tone="dark" />
+                    <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+                </mesh>
+            )}
+        </group>
+    );
+};
+
+const createTailShape = (layout: DovetailLayout) => {
+    const { tailWidthTip: tip, tailWidthRoot: root, jointHeight: H } = layout;
+    const s = new THREE.Shape();
+    s.moveTo(-tip/2, H);
+    s.lineTo(-root/2, 0);
+    s.lineTo(root/2, 0);
+    s.lineTo(tip/2, H);
+    s.lineTo(-tip/2, H);
+    return s;
+};
+
+// Grain runs up the board (Y) and its wide faces look along Z, so the tails are end grain
+export const TailBoardMesh: React.FC<{layout: DovetailLayout, species?: WoodSpecies}> = ({layout, species = DEFAULT_SPECIES}) => {
+    const shape = useMemo(() => {
+        const s = new THREE.Shape();
+        const W = layout.boardWidth / 2;
+        const JointH = layout.jointHeight; 
+        const BodyH = BOARD_HEIGHT_A; 
+        const TotalH = JointH + BodyH; 
+        const TopJointShoulderY = TotalH - JointH;
+        const tip = layout.tailWidthTip;
+        const root = layout.tailWidthRoot;
+
+        s.moveTo(-W, TopJointShoulderY); 
+        s.lineTo(-W, JointH);
+
+        layout.tailCenters.forEach(center => {
+            s.lineTo(center - tip/2, JointH);
+            s.lineTo(center - root/2, 0);
+            s.lineTo(center + root/2, 0);
+            s.lineTo(center + tip/2, JointH);
+        });
+
+        s.lineTo(W, JointH);
+        s.lineTo(W, TopJointShoulderY);
+
+        const reversedCenters = [...layout.tailCenters].reverse();
+        reversedCenters.forEach(center => {
+            s.lineTo(center + root/2, TopJointShoulderY);
+            s.lineTo(center + tip/2, TotalH);
+            s.lineTo(center - tip/2, TotalH);
+            s.lineTo(center - root/2, TopJointShoulderY);
+        });
+
+        s.lineTo(-W, TopJointShoulderY);
+
+        return s;
+    }, [layout]);
+
+    const geometry = useMemo(() => grainGeometry(new THREE.ExtrudeGeometry(shape, { depth: layout.boardThickness, bevelEnabled: false }), 1, 2), [shape, layout]);
+
+    return (
+        <mesh receiveShadow castShadow geometry={geometry}>
+            <GrainMaterials species={species} tone="light" />
+            <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+        </mesh>
+    );
+};
+
+// Saw kerfs down a socket's two cheeks, running in from the end grain at `endZ`
+export const SawKerfs: React.FC<{layout: DovetailLayout, position: [number, number, number], endZ: number, cut: SocketHandCut}> = ({layout, position, endZ, cut}) => {
+    const H = layout.jointHeight;
+    const T = layout.boardThickness;
+    const lean = (layout.tailWidthTip - layout.tailWidthRoot) / 2;
+    const length = Math.hypot(lean, H);
+    return (
+        <group position={position}>
+            {cut.cheeks.map((depth, side) => {
+                if (depth <= 0) return null;
+                const sign = side === 0 ? -1 : 1;
+                const kerf = depth * T;
+                return (
+                    <mesh
+                        key={side}
+                        position={[sign * (layout.tailWidthTip + layout.tailWidthRoot) / 4, H / 2, endZ > 0 ? endZ - kerf / 2 : kerf / 2]}
+                        rotation={[0, 0, -Math.atan2(sign * lean, H)]}
+                    >
+                        <boxGeometry args={[0.012, length + 0.01, kerf]} />
+                        <meshBasicMaterial color="#1c1917" />
+                    </mesh>
+                );
+            })}
+        </group>
+    );
+};
+
+// The waste left in one socket: a column per heightfield cell, standing on the
+// angled pin face. Pin the router took past the marks shows as dark gouges
+// along the cheeks on the top face.
+export const SocketWaste: React.FC<{layout: DovetailLayout, position: [number, number, number], field: SocketField, bites: PinBites, revision: React.MutableRefObject<number>, palette: WoodPalette, isMarked: boolean}> = ({layout, position, field, bites, revision, palette, isMarked}) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const bitesRef = useRef<THREE.InstancedMesh>(null);
+    const lastRevision = useRef(-1);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+    const columns = useMemo(() => socketColumns(layout), [layout]);
+    const tailShape = useMemo(() => createTailShape(layout), [layout]);
+    const outline = useMemo(() => new THREE.ExtrudeGeometry(tailShape, {depth: 0}), [tailShape]);
+
+    useEffect(() => {
+        lastRevision.current = -1;
+    }, [field, bites, columns]);
+
+    useFrame(() => {
+        if (!meshRef.current || lastRevision.current === revision.current) return;
+        lastRevision.current = revision.current;
+        columns.forEach((column, i) => {
+            const height = field[i] * (layout.jointHeight - column.floor);
+            dummy.position.set(column.x, column.floor + height / 2, column.z);
+            dummy.scale.set(column.width, height, column.length);
+            if (height < 0.001) dummy.scale.setScalar(0);
+            dummy.updateMatrix();
+            meshRef.current!.setMatrixAt(i, dummy.matrix);
+        });
+        meshRef.current.instanceMatrix.needsUpdate = true;
+        if (!bitesRef.current) return;
+        const rowLength = layout.boardThickness / SOCKET_ROWS;
+        bites.forEach((bite, i) => {
+            const side = i < SOCKET_ROWS ? -1 : 1;
+            dummy.position.set(side * (layout.tailWidthTip / 2 + bite / 2), layout.jointHeight + 0.002, ((i % SOCKET_ROWS) + 0.5) * rowLength);
+            dummy.scale.set(bite, 0.004, rowLength);
+            if (bite < 0.001) dummy.scale.setScalar(0);
+            dummy.updateMatrix();
+            bitesRef.current!.setMatrixAt(i, dummy.matrix);
+        });
+        bitesRef.current.instanceMatrix.needsUpdate = true;
+    });
+
+    const color = isMarked ? COLOR_WASTE : palette.dark;
+    const opacity = isMarked ? 0.8 : 1;
+    const emissive = isMarked ? "#991b1b" : "#000000";
+    
+    return (
+        <group position={position}>
+             <instancedMesh ref={meshRef} args={[undefined, undefined, columns.length]} receiveShadow>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshStandardMaterial 
+                    color={color}
+                    transparent={isMarked}
+                    opacity={opacity}
+                    emissive={emissive}
+                    roughness={0.6}
+                />
+             </instancedMesh>
+             <instancedMesh ref={bitesRef} args={[undefined, undefined, bites.length]}>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshStandardMaterial color="#1c1917" roughness={1} />
+             </instancedMesh>
+             {isMarked && (
+                 <group position={[0, 0, 0.01]}>
+                    <lineSegments>
+                         <edgesGeometry args={[outline]} />
+                         <lineBasicMaterial color="red" linewidth={2} />
+                    </lineSegments>
+                 </group>
+             )}
+        </group>
+    )
+}
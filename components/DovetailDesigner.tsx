@@ -0,0 +1,150 @@
+import React from 'react';
+import { Ruler, ArrowRight } from 'lucide-react';
+import { DovetailSpec, DOVETAIL_LIMITS, computeDovetailLayout, describeDovetailSpec } from '../dovetail';
+
+interface DovetailDesignerProps {
+  spec: DovetailSpec;
+  onChange: (spec: DovetailSpec) => void;
+  onConfirm: () => void;
+}
+
+// Pre-project screen: the player picks the joint parameters and sees the
+// layout (and the 3D boards behind the panel) update live.
+export const DovetailDesigner: React.FC<DovetailDesignerProps> = ({ spec, onChange, onConfirm }) => {
+  const layout = computeDovetailLayout(spec);
+  const notes = describeDovetailSpec(spec);
+  const L = DOVETAIL_LIMITS;
+
+  const update = (patch: Partial<DovetailSpec>) => onChange({ ...spec, ...patch });
+
+  return (
+    <div className="bg-white/95 backdrop-blur shadow-2xl rounded-3xl p-6 border-b-4 border-amber-500 w-[420px] pointer-events-auto">
+      <h2 className="text-xl font-bold text-amber-800 mb-3 flex items-center gap-2">
+        <Ruler className="w-5 h-5" /> Design the Dovetail
+      </h2>
+
+      <JointPreview spec={spec} />
+
+      <div className="flex flex-col gap-3 mt-4 text-sm text-slate-700">
+        <Slider
+          label="Tails"
+          value={spec.tailCount}
+          display={`${spec.tailCount}`}
+          min={L.tailCount.min} max={L.tailCount.max} step={1}
+          onChange={v => update({ tailCount: v })}
+        />
+
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">Slope</span>
+          <div className="flex gap-1">
+            {L.slopes.map(slope => (
+              <button
+                key={slope}
+                onClick={() => update({ slope })}
+                className={`px-3 py-1 rounded-lg border font-bold ${spec.slope === slope ? 'bg-amber-500 text-white border-amber-600' : 'bg-slate-100 border-slate-300 hover:bg-amber-100'}`}
+              >
+                1:{slope}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Slider
+          label="Pin / Tail"
+          value={spec.pinToTailRatio}
+          display={spec.pinToTailRatio.toFixed(2)}
+          {...L.pinToTailRatio}
+          onChange={v => update({ pinToTailRatio: v })}
+        />
+        <Slider
+          label="Board Width"
+          value={spec.boardWidth}
+          display={spec.boardWidth.toFixed(1)}
+          {...L.boardWidth}
+          onChange={v => update({ boardWidth: v })}
+        />
+        <Slider
+          label="Thickness"
+          value={spec.boardThickness}
+          display={spec.boardThickness.toFixed(2)}
+          {...L.boardThickness}
+          onChange={v => update({ boardThickness: v })}
+        />
+      </div>
+
+      <div className="mt-3 text-xs text-slate-500 grid grid-cols-3 gap-1 text-center">
+        <div>Tail tip <b className="block text-slate-700">{layout.tailWidthTip.toFixed(2)}</b></div>
+        <div>Tail root <b className="block text-slate-700">{layout.tailWidthRoot.toFixed(2)}</b></div>
+        <div>Pin <b className="block text-slate-700">{layout.pinWidth.toFixed(2)}</b></div>
+      </div>
+
+      {notes.length > 0 && (
+        <ul className="mt-3 text-xs text-amber-900 bg-amber-50 rounded-lg p-2 list-disc list-inside space-y-1">
+          {notes.map((note, i) => <li key={i}>{note}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={onConfirm}
+        className="mt-4 w-full bg-green-500 hover:bg-green-600 text-white font-bold py-3 rounded-xl shadow-lg transition flex items-center justify-center gap-2 border-b-4 border-green-700 active:border-b-0"
+      >
+        Use this Design <ArrowRight className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+// --- Helpers ---
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (val: number) => void;
+}> = ({ label, value, display, min, max, step, onChange }) => (
+  <label className="flex items-center justify-between gap-3">
+    <span className="font-semibold w-24">{label}</span>
+    <input
+      type="range"
+      min={min} max={max} step={step}
+      value={value}
+      onChange={e => onChange(parseFloat(e.target.value))}
+      className="flex-1 accent-amber-500"
+    />
+    <span className="w-10 text-right font-mono">{display}</span>
+  </label>
+);
+
+// End view of the tail board: tails in light wood, pins (the gaps) in dark
+const JointPreview: React.FC<{ spec: DovetailSpec }> = ({ spec }) => {
+  const layout = computeDovetailLayout(spec);
+  const width = 360;
+  const height = 90;
+  const scale = (width - 20) / 2.5; // Fits the widest board option
+  const x = (v: number) => width / 2 + v * scale;
+  const top = 15;
+  const bottom = top + layout.jointHeight * scale;
+  const halfW = layout.boardWidth / 2;
+
+  return (
+    <svg width={width} height={height} className="bg-slate-50 rounded-xl border border-slate-200">
+      <rect x={x(-halfW)} y={top} width={layout.boardWidth * scale} height={bottom - top} fill="#c29468" stroke="#5c3a21" />
+      {layout.tailCenters.map((c, i) => (
+        <polygon
+          key={i}
+          points={[
+            `${x(c - layout.tailWidthTip / 2)},${top}`,
+            `${x(c + layout.tailWidthTip / 2)},${top}`,
+            `${x(c + layout.tailWidthRoot / 2)},${bottom}`,
+            `${x(c - layout.tailWidthRoot / 2)},${bottom}`,
+          ].join(' ')}
+          fill="#dcb280"
+          stroke="#5c3a21"
+        />
+      ))}
+    </svg>
+  );
+};
@@ -3,8 +3,15 @@ import { useThree, useFrame } from '@react-three/fiber';
 import { Environment, ContactShadows, OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import { GamePhase } from '../types';
+import { getCameraPose } from '../levels';
+import { ProjectSaveState } from '../saveGame';
+import { DovetailSpec } from '../dovetail';
+import { Inventory, LogItem, BoardItem } from '../inventory';
+import { ForestState } from '../forest';
 import { WorkshopTable } from './WorkshopTable';
 import { WoodProject } from './WoodProject';
+import { JointViewer } from './JointLibrary';
+import { JointKind } from '../joints';
 
 interface ExperienceProps {
   phase: GamePhase;
@@ -12,11 +19,20 @@ interface ExperienceProps {
   setProgress: (val: number) => void;
   onPhaseComplete: () => void;
   level: number;
-  rawWoodCount?: number;
-  setRawWoodCount?: (val: number) => void;
+  inventory?: Inventory;
+  onHarvest?: (log: LogItem) => void;
+  onMilled?: (boards: BoardItem[]) => void;
+  onNeedTimber?: () => void;
+  forest?: ForestState;
+  onForestChange?: (forest: ForestState) => void;
+  projectState?: ProjectSaveState;
+  onProjectStateChange?: (patch: ProjectSaveState) => void;
+  dovetailSpec?: DovetailSpec;
+  libraryJoint?: JointKind | null;
+  jointExplode?: number;
 }
 
-export const Experience: React.FC<ExperienceProps> = ({ phase, progress, setProgress, onPhaseComplete, level, rawWoodCount, setRawWoodCount }) => {
+export const Experience: React.FC<ExperienceProps> = ({ phase, progress, setProgress, onPhaseComplete, level, inventory, onHarvest, onMilled, onNeedTimber, forest, onForestChange, projectState, onProjectStateChange, dovetailSpec, libraryJoint, jointExplode = 0 }) => {
   const controlsRef = useRef<any>(null);
   const [orbitEnabled, setOrbitEnabled] = useState(true);
   
@@ -41,17 +57,28 @@ export const Experience: React.FC<ExperienceProps> = ({ phase, progress, setProg
 
       {/* Main Content */}
       <group position={[0, -1, 0]}>
-        {phase !== GamePhase.TIMBER && <WorkshopTable />}
-        <WoodProject 
-          phase={phase} 
-          progress={progress} 
-          setProgress={setProgress} 
-          onPhaseComplete={onPhaseComplete}
-          setOrbitEnabled={setOrbitEnabled}
-          level={level}
-          rawWoodCount={rawWoodCount}
-          setRawWoodCount={setRawWoodCount}
-        />
+        {phase !== GamePhase.TIMBER && phase !== GamePhase.MILLING && <WorkshopTable />}
+        {libraryJoint ? (
+          <JointViewer key={libraryJoint} kind={libraryJoint} explode={jointExplode} />
+        ) : (
+          <WoodProject 
+            phase={phase} 
+            progress={progress} 
+            setProgress={setProgress} 
+            onPhaseComplete={onPhaseComplete}
+            setOrbitEnabled={setOrbitEnabled}
+            level={level}
+            inventory={inventory}
+            onHarvest={onHarvest}
+            onMilled={onMilled}
+            onNeedTimber={onNeedTimber}
+            forest={forest}
+            onForestChange={onForestChange}
+            projectState={projectState}
+            onProjectStateChange={onProjectStateChange}
+            dovetailSpec={dovetailSpec}
+          />
+        )}
       </group>
 
       <ContactShadows opacity={0.4} scale={20} blur={2} far={4.5} />
@@ -81,82 +108,9 @@ function useCamAnimation(phase: GamePhase, controlsRef: React.MutableRefObject<a
   const [isAutoMoving, setAutoMoving] = useState(false);
 
   useEffect(() => {
-    // Level 2 (Stool) Camera Logic
-    if (level === 2) {
-         switch(phase) {
-             case GamePhase.INTRO:
-                targetPos.current.set(0, 5, 8);
-                targetLook.current.set(0, 1, 0);
-                break;
-             case GamePhase.CUTTING: // Drilling holes
-                targetPos.current.set(0, 6, 2); // Top down view
-                targetLook.current.set(0, 0, 0);
-                break;
-             case GamePhase.ASSEMBLY:
-                targetPos.current.set(3, 3, 3);
-                targetLook.current.set(0, 1.5, 0);
-                break;
-             case GamePhase.SUCCESS:
-                targetPos.current.set(0, 3, 6);
-                targetLook.current.set(0, 1, 0);
-                break;
-             default:
-                targetPos.current.set(2, 4, 4);
-                targetLook.current.set(0, 0.5, 0);
-                break;
-         }
-    } 
-    // Level 1 (Box) Camera Logic
-    else {
-        switch (phase) {
-        case GamePhase.INTRO:
-            targetPos.current.set(0, 6, 10);
-            targetLook.current.set(0, 0, 0);
-            break;
-        case GamePhase.TIMBER:
-            targetPos.current.set(0, 6, 12);
-            targetLook.current.set(0, 2, 0);
-            break;
-        case GamePhase.CLAMPING:
-            targetPos.current.set(2, 4, 4);
-            targetLook.current.set(0, 0.5, 0);
-            break;
-        case GamePhase.MARKING:
-        case GamePhase.CUTTING:
-            targetPos.current.set(0, 7, 3);
-            targetLook.current.set(0, 0, 0);
-            break;
-        case GamePhase.ASSEMBLY_PREP:
-        case GamePhase.ASSEMBLY:
-            targetPos.current.set(3, 4, 4);
-            targetLook.current.set(0, 1, 0);
-            break;
-        case GamePhase.CUTTING_BACK:
-            targetPos.current.set(0, 7, -5); 
-            targetLook.current.set(0, 0, -1.5);
-            break;
-        case GamePhase.ASSEMBLY_C:
-            targetPos.current.set(-3, 4, -5);
-            targetLook.current.set(0, 1, -1.5);
-            break;
-        case GamePhase.CUTTING_TOP:
-            targetPos.current.set(0, 10, -1.5);
-            targetLook.current.set(0, 2, -1.5);
-            break;
-        case GamePhase.ASSEMBLY_D:
-            targetPos.current.set(4, 6, 4);
-            targetLook.current.set(0, 2, -1.5);
-            break;
-        case GamePhase.SUCCESS:
-            targetPos.current.set(-5, 4, 5); 
-            targetLook.current.set(0, 1, -1.5);
-            break;
-        default:
-             targetPos.current.set(0, 6, 10);
-             targetLook.current.set(0, 0, 0);
-             break;
-        }
-    }
+    const pose = getCameraPose(level, phase);
+    targetPos.current.set(...pose.position);
+    targetLook.current.set(...pose.target);
 
     // Trigger animation for a short duration
     setAutoMoving(true);
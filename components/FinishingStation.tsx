@@ -0,0 +1,282 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import '../types';
+import { Vec3 } from './shared';
+import { FinishKind, FinishPanel, FinishReport, FINISHES, GRITS, FINISH_RES, cellsAround, sand, isSandedTo, isSanded, brushOn, finishReport, isFinished } from '../finishing';
+
+// A face of the assembled piece that is sanded and finished (see finishing.ts)
+export interface FinishFace {
+    position: Vec3;
+    rotation: Vec3;
+    width: number;
+    height: number;
+    vertical: boolean; // Finish runs down it; the lid lies flat
+    round?: boolean;   // A disc `width` across, such as a stool seat (see roundPanel)
+}
+
+const FINISH_TEXTURE_SIZE = 128;
+const FRESH_CUT_COLOR = "#f5efe0"; // Raised fibres and scratches on unsanded wood
+const SANDING_BLOCK = 3.5;         // Radius of the block's pad, in finish cells
+const FINISH_BRUSH = 1.5;
+const SAND_STEP = 0.04;            // Travel across a face (0-1) between passes of the block...
+const BRUSH_STEP = 0.03;           // ...and between dabs of the brush
+
+// A canvas-backed layer over one face of a board: the scratches and the
+// finish are painted into its map, and its roughness map turns glossy where
+// the finish has gone on, so missed spots and runs show on the wood beneath.
+export function FinishSurface({ face, panel, finish, onPointerDown, onPointerMove }: { face: FinishFace, panel: FinishPanel, finish?: FinishKind, onPointerDown?: (e: any) => void, onPointerMove?: (e: any) => void }) {
+    const textures = useMemo(() => {
+        const layer = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = canvas.height = FINISH_TEXTURE_SIZE;
+            return new THREE.CanvasTexture(canvas);
+        };
+        const map = layer();
+        map.colorSpace = THREE.SRGBColorSpace;
+        return { map, roughnessMap: layer() };
+    }, []);
+
+    useEffect(() => () => {
+        textures.map.dispose();
+        textures.roughnessMap.dispose();
+    }, []);
+
+    useEffect(() => {
+        const color = (textures.map.image as HTMLCanvasElement).getContext('2d');
+        const rough = (textures.roughnessMap.image as HTMLCanvasElement).getContext('2d');
+        if (!color || !rough) return;
+        const def = finish ? FINISHES[finish] : undefined;
+        const cell = FINISH_TEXTURE_SIZE / FINISH_RES;
+        color.clearRect(0, 0, FINISH_TEXTURE_SIZE, FINISH_TEXTURE_SIZE);
+        panel.rough.forEach((roughness, i) => {
+            const x = (i % FINISH_RES) * cell;
+            const y = (FINISH_RES - 1 - Math.floor(i / FINISH_RES)) * cell; // Row 0 is the bottom of the face
+            const coat = def ? Math.min(1, panel.coat[i]) : 0;
+            color.globalAlpha = roughness * 0.45 * (1 - coat);
+            color.fillStyle = FRESH_CUT_COLOR;
+            color.fillRect(x, y, cell, cell);
+            if (def && coat > 0) {
+                color.globalAlpha = def.opacity * coat;
+                color.fillStyle = def.color;
+                color.fillRect(x, y, cell, cell);
+            }
+            if (def && panel.runs[i]) {
+                // A run dries as a dark streak down the middle of the cell
+                color.globalAlpha = Math.min(1, def.opacity + 0.3);
+                color.fillStyle = def.color;
+                color.fillRect(x + cell * 0.3, y, cell * 0.4, cell);
+            }
+            const shade = Math.round(255 * (roughness * (1 - coat) + 0.15 * coat));
+            rough.fillStyle = `rgb(${shade}, ${shade}, ${shade})`;
+            rough.fillRect(x, y, cell, cell);
+        });
+        color.globalAlpha = 1;
+        textures.map.needsUpdate = true;
+        textures.roughnessMap.needsUpdate = true;
+    }, [panel, finish]);
+
+    return (
+        <mesh position={face.position} rotation={face.rotation} onPointerDown={onPointerDown} onPointerMove={onPointerMove}>
+            {face.round ? <circleGeometry args={[face.width / 2, 48]} /> : <planeGeometry args={[face.width, face.height]} />}
+            <meshStandardMaterial map={textures.map} roughnessMap={textures.roughnessMap} transparent depthWrite={false} polygonOffset polygonOffsetFactor={-1} />
+        </mesh>
+    );
+}
+
+// Sanding (before a finish is picked) or finishing over the faces of the
+// assembled piece. Dragging across a face works it with the sanding block or
+// the brush; the work is saved at the end of each stroke.
+export function FinishingStation({ faces, panels, onChange, finishing, finish, onFinishChange, panelPosition, setOrbitEnabled, onStrokeEnd, onDone }: { faces: FinishFace[], panels: FinishPanel[], onChange: (panels: FinishPanel[]) => void, finishing: boolean, finish?: FinishKind, onFinishChange: (finish: FinishKind) => void, panelPosition: Vec3, setOrbitEnabled: (enabled: boolean) => void, onStrokeEnd: () => void, onDone: (report: FinishReport) => void }) {
+    const [grit, setGrit] = useState(0);
+    const [tip, setTip] = useState<string | null>(null);
+    const [shownLoad, setShownLoad] = useState(0);
+    // Pointer events can outrun re-renders, so the work in progress is kept in refs
+    const latest = useRef(panels);
+    latest.current = panels;
+    const load = useRef(0);
+    const lastDab = useRef<{ face: number; u: number; v: number } | null>(null);
+    const working = useRef(false);
+    const strokeEnd = useRef(onStrokeEnd);
+    strokeEnd.current = onStrokeEnd;
+    const toolRef = useRef<THREE.Group>(null);
+    const done = useRef(false);
+    const report = finishReport(panels);
+    const started = panels.some(p => p.coat.some(c => c > 0));
+
+    useEffect(() => {
+        const stopWorking = () => {
+            if (!working.current) return;
+            working.current = false;
+            lastDab.current = null;
+            setOrbitEnabled(true);
+            strokeEnd.current();
+        };
+        window.addEventListener('pointerup', stopWorking);
+        return () => window.removeEventListener('pointerup', stopWorking);
+    }, []);
+
+    const work = (e: any, face: number) => {
+        // The tool follows the pointer over the faces, just off the surface
+        if (toolRef.current && e.face) {
+            const normal = e.face.normal.clone().transformDirection(e.object.matrixWorld);
+            toolRef.current.position.copy(e.point).addScaledVector(normal, 0.08);
+        }
+        if (!working.current || !e.uv) return;
+        e.stopPropagation();
+        const last = lastDab.current;
+        if (last && last.face === face && Math.hypot(e.uv.x - last.u, e.uv.y - last.v) < (finishing ? BRUSH_STEP : SAND_STEP)) return;
+        lastDab.current = { face, u: e.uv.x, v: e.uv.y };
+
+        let panel: FinishPanel;
+        if (finishing) {
+            if (!finish) return;
+            if (load.current <= 0) {
+                setTip("The brush is dry. Dip it in the pot!");
+                return;
+            }
+            const result = brushOn(latest.current[face], cellsAround(e.uv.x, e.uv.y, FINISH_BRUSH), finish, load.current, faces[face].vertical);
+            panel = result.panel;
+            load.current = result.load;
+            setShownLoad(result.load);
+            setTip(null);
+        } else {
+            const result = sand(latest.current[face], cellsAround(e.uv.x, e.uv.y, SANDING_BLOCK), grit);
+            panel = result.panel;
+            setTip(result.tip ?? null);
+        }
+        latest.current = latest.current.map((p, i) => (i === face ? panel : p));
+        onChange(latest.current);
+    };
+
+    const startWork = (e: any, face: number) => {
+        if (finishing && !finish) {
+            setTip("Pick a finish first.");
+            return;
+        }
+        e.stopPropagation();
+        working.current = true;
+        setOrbitEnabled(false);
+        work(e, face);
+    };
+
+    const finishUp = () => {
+        if (done.current) return;
+        done.current = true;
+        onDone(report);
+    };
+
+    const dip = () => {
+        load.current = 1;
+        setShownLoad(1);
+        setTip(null);
+    };
+
+    return (
+        <group>
+            {faces.map((face, i) => (
+                <FinishSurface
+                    key={i}
+                    face={face}
+                    panel={panels[i]}
+                    finish={finish}
+                    onPointerDown={(e) => startWork(e, i)}
+                    onPointerMove={(e) => work(e, i)}
+                />
+            ))}
+
+            {/* Sanding block, or a brush dipped in the finish */}
+            <group ref={toolRef} position={[0, -10, 0]}>
+                {finishing ? (
+                    <group rotation={[0, 0, Math.PI / 4]}>
+                        <mesh position={[0, 0.25, 0]}>
+                            <cylinderGeometry args={[0.03, 0.03, 0.4]} />
+                            <meshStandardMaterial color="#8d6e63" />
+                        </mesh>
+                        <mesh>
+                            <boxGeometry args={[0.16, 0.12, 0.05]} />
+                            <meshStandardMaterial color={finish && shownLoad > 0 ? FINISHES[finish].color : "#e7d8b0"} />
+                        </mesh>
+                    </group>
+                ) : (
+                    <mesh>
+                        <boxGeometry args={[0.5, 0.12, 0.3]} />
+                        <meshStandardMaterial color="#c2a67a" roughness={0.9} />
+                    </mesh>
+                )}
+            </group>
+
+            <Html position={panelPosition} center>
+                <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                    {finishing ? (
+                        <>
+                            <div className="font-bold text-amber-800">Finishing 上漆</div>
+                            <div className="flex gap-1">
+                                {(Object.keys(FINISHES) as FinishKind[]).map(kind => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => onFinishChange(kind)}
+                                        disabled={started && kind !== finish}
+                                        className={`flex-1 px-2 py-1 rounded-lg font-bold disabled:opacity-40 disabled:cursor-not-allowed ${finish === kind ? 'bg-amber-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                                    >
+                                        {FINISHES[kind].name} {FINISHES[kind].nameZh}
+                                    </button>
+                                ))}
+                            </div>
+                            {finish && <div>{FINISHES[finish].about}</div>}
+                            <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                                <div className="h-full" style={{ width: `${shownLoad * 100}%`, backgroundColor: finish ? FINISHES[finish].color : undefined }} />
+                            </div>
+                            <button
+                                onClick={dip}
+                                disabled={!finish}
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                🖌️ Dip the brush
+                            </button>
+                            <div>
+                                Missed <b>{Math.round(report.missed * 100)}%</b> · runs <b>{Math.round(report.runs * 100)}%</b>
+                            </div>
+                            {tip && <div className="text-red-600 font-bold">{tip}</div>}
+                            <button
+                                onClick={finishUp}
+                                disabled={!isFinished(panels)}
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                ⏳ Leave to cure
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <div className="font-bold text-amber-800">Sanding 打磨</div>
+                            <div className="flex gap-1">
+                                {GRITS.map((g, i) => (
+                                    <button
+                                        key={g}
+                                        onClick={() => { setGrit(i); setTip(null); }}
+                                        className={`flex-1 px-2 py-1 rounded-lg font-bold ${grit === i ? 'bg-amber-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                                    >
+                                        {g}
+                                    </button>
+                                ))}
+                            </div>
+                            <div>Smoothness: <b>{Math.round((1 - report.roughness) * 100)}%</b></div>
+                            <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                                <div className="h-full bg-amber-500" style={{ width: `${(1 - report.roughness) * 100}%` }} />
+                            </div>
+                            {isSandedTo(panels, grit) && grit < GRITS.length - 1 && <div>Every face is down to {GRITS[grit]} grit. Move on to {GRITS[grit + 1]}!</div>}
+                            {tip && <div className="text-red-600 font-bold">{tip}</div>}
+                            <button
+                                onClick={finishUp}
+                                disabled={!isSanded(panels)}
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                ✔ Done sanding
+                            </button>
+                        </>
+                    )}
+                </div>
+            </Html>
+        </group>
+    );
+}
@@ -0,0 +1,154 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Html } from '@react-three/drei';
+import '../types';
+import { ClampLine, ClampRack } from './ClampRack';
+import { PRESSURE_RANGE } from '../clamps';
+import { GlueUpState, GlueLineReport, GLUE_SEGMENTS, MAX_CLAMPS, CURE_MINUTES, DRYING_MS, freshGlueUp, spreadGlue, segmentPressure, glueLineReport, canDry } from '../glueUp';
+
+// A joint line on the assembled box, running across its width (X)
+export interface GlueEdge {
+    z: number;       // Middle of the joint, where the clamps bear
+    faceZ: number;   // Outer face the glue line shows on
+    bottom: number;  // Height of the joint band
+    top: number;
+    clampY: number;  // Top of the work, under the clamp's top jaw
+    outward: 1 | -1; // Which way (Z) the outer face looks
+}
+
+const GLUE_COLOR = "#fef3c7";
+
+// The glue-up after a joint is driven home: brush glue along each joint line,
+// clamp it (the clamps snap to the joint lines) and screw the clamps down
+// against their gauges, then leave it to dry.
+export function GlueUpStation({ edges, width, baseY, setOrbitEnabled, onDone }: { edges: GlueEdge[], width: number, baseY: number, setOrbitEnabled: (enabled: boolean) => void, onDone: (report: GlueLineReport) => void }) {
+    const [glueUp, setGlueUp] = useState<GlueUpState>(() => freshGlueUp(edges.length));
+    const [dryingFor, setDryingFor] = useState<number | null>(null); // ms, once left to dry
+    const brushing = useRef(false);
+    const W = width / 2;
+    const segmentWidth = width / GLUE_SEGMENTS;
+    const drying = dryingFor !== null;
+    const report = glueLineReport(glueUp);
+    const lines = edges.map((edge): ClampLine => ({
+        start: [-W, edge.z],
+        end: [W, edge.z],
+        y: edge.clampY,
+        span: edge.clampY - baseY,
+        rotationY: edge.outward > 0 ? Math.PI : 0,
+    }));
+
+    useEffect(() => {
+        const stopBrushing = () => {
+            if (!brushing.current) return;
+            brushing.current = false;
+            setOrbitEnabled(true);
+        };
+        window.addEventListener('pointerup', stopBrushing);
+        return () => window.removeEventListener('pointerup', stopBrushing);
+    }, []);
+
+    useEffect(() => {
+        if (!drying) return;
+        const started = performance.now();
+        const interval = setInterval(() => {
+            const elapsed = performance.now() - started;
+            setDryingFor(Math.min(DRYING_MS, elapsed));
+            if (elapsed >= DRYING_MS) {
+                clearInterval(interval);
+                onDone(glueLineReport(glueUp));
+            }
+        }, 200);
+        return () => clearInterval(interval);
+    }, [drying]);
+
+    const brush = (e: any, edge: number) => {
+        if (!brushing.current || drying) return;
+        e.stopPropagation();
+        setGlueUp(prev => spreadGlue(prev, edge, (e.point.x + W) / width));
+    };
+
+    return (
+        <group>
+            {edges.map((edge, e) => {
+                const pressure = segmentPressure(glueUp, e);
+                const bandHeight = edge.top - edge.bottom;
+                return (
+                    <group key={e}>
+                        {/* Brushing surface over the joint band */}
+                        <mesh
+                            position={[0, (edge.bottom + edge.top) / 2, edge.faceZ + edge.outward * 0.002]}
+                            rotation-y={edge.outward > 0 ? 0 : Math.PI}
+                            onPointerDown={(ev) => { if (drying) return; ev.stopPropagation(); brushing.current = true; setOrbitEnabled(false); brush(ev, e); }}
+                            onPointerMove={(ev) => brush(ev, e)}
+                        >
+                            <planeGeometry args={[width, bandHeight]} />
+                            <meshBasicMaterial color="white" transparent opacity={0.12} depthWrite={false} />
+                        </mesh>
+                        {glueUp.glue[e].map((glued, s) => glued && (
+                            <group key={s} position={[-W + (s + 0.5) * segmentWidth, 0, edge.faceZ]}>
+                                <mesh position={[0, (edge.bottom + edge.top) / 2, 0]} rotation-y={edge.outward > 0 ? 0 : Math.PI}>
+                                    <planeGeometry args={[segmentWidth, bandHeight]} />
+                                    <meshStandardMaterial color={GLUE_COLOR} transparent opacity={0.6} roughness={0.2} depthWrite={false} />
+                                </mesh>
+                                {/* Squeeze-out beads along the seam grow with the pressure; none means an open joint */}
+                                {pressure[s] >= PRESSURE_RANGE[0] && (
+                                    <mesh position={[0, edge.top, edge.outward * 0.02]} scale={[1, Math.min(2, pressure[s]), Math.min(2, pressure[s])]}>
+                                        <boxGeometry args={[segmentWidth * 0.9, 0.03, 0.03]} />
+                                        <meshStandardMaterial color={GLUE_COLOR} roughness={0.2} />
+                                    </mesh>
+                                )}
+                                {drying && pressure[s] < PRESSURE_RANGE[0] && (
+                                    <mesh position={[0, edge.top, edge.outward * 0.004]}>
+                                        <boxGeometry args={[segmentWidth * 0.9, 0.015, 0.004]} />
+                                        <meshBasicMaterial color="#1c1917" />
+                                    </mesh>
+                                )}
+                            </group>
+                        ))}
+                    </group>
+                );
+            })}
+
+            <ClampRack
+                lines={lines}
+                clamps={glueUp.clamps}
+                onChange={update => setGlueUp(prev => ({ ...prev, clamps: update(prev.clamps) }))}
+                rackSize={MAX_CLAMPS}
+                rack={[W + 1, edges[0].clampY, edges[0].z + edges[0].outward * 0.8]}
+                locked={drying}
+                setOrbitEnabled={setOrbitEnabled}
+            />
+
+            <Html position={[-W - 1.6, edges[0].clampY, edges[0].z]} center>
+                <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                    <div className="font-bold text-amber-800">Glue-up 上胶</div>
+                    {drying ? (
+                        <>
+                            <div>Hide glue drying: <b>{Math.floor((dryingFor ?? 0) / DRYING_MS * CURE_MINUTES)}</b> / {CURE_MINUTES} min</div>
+                            <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                                <div className="h-full bg-amber-500" style={{ width: `${(dryingFor ?? 0) / DRYING_MS * 100}%` }} />
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div>
+                                {glueUp.glue.some(line => line.some(g => !g))
+                                    ? "Drag across the joint to brush glue along it."
+                                    : "Drag clamps from the rack onto the joint. Click to tighten, right-click to loosen."}
+                            </div>
+                            <div>
+                                Open glue line <b>{Math.round(report.open * 100)}%</b> · starved <b>{Math.round(report.starved * 100)}%</b>
+                            </div>
+                            <button
+                                onClick={() => setDryingFor(0)}
+                                disabled={!canDry(glueUp)}
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                ⏳ Leave to dry
+                            </button>
+                        </>
+                    )}
+                </div>
+            </Html>
+        </group>
+    );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Package, ChevronDown, ChevronUp } from 'lucide-react';
+import { mm } from './shared';
+import { Inventory, InventoryItem, ItemKind, itemKey, itemName } from '../inventory';
+import { SPECIES } from '../species';
+import { FINISHES } from '../finishing';
+
+interface InventoryPanelProps {
+  inventory: Inventory;
+}
+
+const SECTIONS: { kind: ItemKind; title: string }[] = [
+  { kind: 'log', title: "Logs" },
+  { kind: 'board', title: "Boards" },
+  { kind: 'good', title: "Finished goods" },
+  { kind: 'tool', title: "Tools" },
+];
+
+const itemIcon = (item: InventoryItem) => {
+  switch (item.kind) {
+    case 'log': return "🪵";
+    case 'board': return "🟫";
+    case 'good':
+    case 'tool': return item.icon;
+  }
+};
+
+const itemDetail = (item: InventoryItem) => {
+  switch (item.kind) {
+    case 'log': return `${SPECIES[item.species].nameZh} · ${mm(item.length)} × ⌀${mm(item.diameter)}`;
+    case 'board': return `${SPECIES[item.species].nameZh} · ${mm(item.length)} × ${mm(item.width)} × ${mm(item.thickness)}`;
+    case 'good': return item.finish ? `Handmade · finished in ${FINISHES[item.finish].nameZh}` : "Handmade";
+    case 'tool': return "Workshop tool";
+  }
+};
+
+// Finished goods wear the colour of their oil or lacquer behind their icon
+const itemTint = (item: InventoryItem): React.CSSProperties | undefined =>
+  item.kind === 'good' && item.finish ? { backgroundColor: `${FINISHES[item.finish].color}66`, borderColor: FINISHES[item.finish].color } : undefined;
+
+// Top-right inventory: a row of stacks at a glance, expanding into a list
+// grouped by kind with quantities and dimensions.
+export const InventoryPanel: React.FC<InventoryPanelProps> = ({ inventory }) => {
+  const [open, setOpen] = useState(false);
+  // Tools never run out, so the collapsed row only shows materials and goods
+  const materials = inventory.filter(s => s.item.kind !== 'tool');
+
+  return (
+    <div className="bg-white/90 backdrop-blur shadow-lg rounded-2xl p-3 border-b-4 border-blue-500 flex flex-col gap-2 pointer-events-auto max-w-xs">
+      <button onClick={() => setOpen(!open)} className="text-xs font-bold text-blue-800 uppercase tracking-wide flex items-center gap-1">
+        <Package className="w-4 h-4" /> Inventory
+        {open ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {!open && materials.length > 0 && (
+        <div className="flex flex-wrap gap-2 justify-end">
+          {materials.map(stack => (
+            <div
+              key={itemKey(stack.item)}
+              className="relative w-12 h-12 bg-slate-100 rounded-lg border border-slate-300 flex items-center justify-center text-lg shadow-inner"
+              style={itemTint(stack.item)}
+              title={`${itemName(stack.item)} · ${itemDetail(stack.item)}`}
+            >
+              {itemIcon(stack.item)}
+              {stack.quantity > 1 && (
+                <span className="absolute -bottom-1 -right-1 bg-blue-600 text-white text-[10px] font-bold rounded-full px-1.5 leading-4">
+                  {stack.quantity}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="flex flex-col gap-2 text-xs text-slate-700 max-h-80 overflow-y-auto pr-1">
+          {SECTIONS.map(({ kind, title }) => {
+            const stacks = inventory.filter(s => s.item.kind === kind);
+            if (stacks.length === 0) return null;
+            return (
+              <div key={kind}>
+                <h4 className="font-bold text-slate-500 uppercase text-[10px] tracking-wide mb-1">{title}</h4>
+                <ul className="space-y-1">
+                  {stacks.map(stack => (
+                    <li key={itemKey(stack.item)} className="flex items-center gap-2">
+                      <span className="text-base w-6 text-center rounded border border-transparent" style={itemTint(stack.item)}>{itemIcon(stack.item)}</span>
+                      <span className="flex-1">
+                        <span className="font-bold">{itemName(stack.item)}</span>
+                        <span className="block text-slate-500">{itemDetail(stack.item)}</span>
+                      </span>
+                      <span className="font-bold text-slate-600">×{stack.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Edges } from '@react-three/drei';
+import * as THREE from 'three';
+import { COLOR_EDGES, COLOR_PINS, COLOR_TAILS, COLOR_WASTE } from './shared';
+import { JointKind, JointParams, JointSolid, JointWaste, buildJoint, isToolInWaste } from '../joints';
+import '../types';
+
+// Meshes for the sunmao joint library (geometry lives in joints.ts)
+
+const CHISEL_RADIUS = 0.03; // Reach of the chisel's edge around the point clicked
+
+export const JointSolidMesh: React.FC<{solid: JointSolid, color: string}> = ({ solid, color }) => {
+    const extrudeSettings = useMemo(() => ({ depth: solid.depth, bevelEnabled: false }), [solid.depth]);
+    return (
+        <mesh position={solid.position} rotation={solid.rotation} receiveShadow castShadow>
+            <extrudeGeometry args={[solid.shape, extrudeSettings]} />
+            <meshStandardMaterial color={color} roughness={0.6} />
+            <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+        </mesh>
+    );
+};
+
+export const JointWasteMesh: React.FC<{waste: JointWaste, visible: boolean, isMarked: boolean}> = ({ waste, visible, isMarked }) => {
+    const { solid } = waste;
+    const extrudeSettings = useMemo(() => ({ depth: solid.depth, bevelEnabled: false }), [solid.depth]);
+    const outline = useMemo(() => new THREE.ExtrudeGeometry(solid.shape, { depth: solid.depth, bevelEnabled: false }), [solid]);
+
+    if (!visible) return null;
+    const baseColor = waste.part === 'male' ? COLOR_TAILS : COLOR_PINS;
+
+    return (
+        <group position={solid.position} rotation={solid.rotation}>
+            <mesh receiveShadow>
+                <extrudeGeometry args={[solid.shape, extrudeSettings]} />
+                <meshStandardMaterial
+                    color={isMarked ? COLOR_WASTE : baseColor}
+                    transparent={isMarked}
+                    opacity={isMarked ? 0.8 : 1}
+                    emissive={isMarked ? "#991b1b" : "#000000"}
+                    roughness={0.6}
+                />
+            </mesh>
+            {isMarked && (
+                <lineSegments>
+                    <edgesGeometry args={[outline]} />
+                    <lineBasicMaterial color="red" linewidth={2} />
+                </lineSegments>
+            )}
+        </group>
+    );
+};
+
+interface JointModelProps {
+    kind: JointKind;
+    params?: Partial<JointParams>;
+    removedWaste?: string[]; // Ids of waste regions already cut away
+    isMarked?: boolean;
+    explode?: number;        // Distance the male part is pulled out of the joint
+    onCut?: (wasteId: string) => void; // Chisel strikes; the joint is read-only without it
+}
+
+// A complete joint: female member, male member, loose pins and remaining waste
+export const JointModel: React.FC<JointModelProps> = ({ kind, params, removedWaste = [], isMarked = false, explode = 0, onCut }) => {
+    const joint = useMemo(() => buildJoint(kind, params), [kind, params?.size, params?.tenonRatio, params?.length]);
+    const maleOffset = joint.assemblyDirection.map(v => -v * explode) as [number, number, number];
+    const pinOffset = joint.pinDirection.map(v => -v * explode * 1.5) as [number, number, number];
+
+    // The chisel takes whichever waste region of the struck part it lands in.
+    // Each part's group is in the joint's own frame, exploded or not.
+    const strike = (e: any, part: JointWaste['part']) => {
+        if (!onCut) return;
+        const tip = e.eventObject.worldToLocal(e.point.clone());
+        const hit = joint.waste.find(w => w.part === part && !removedWaste.includes(w.id) && isToolInWaste(w, tip, CHISEL_RADIUS));
+        if (!hit) return;
+        e.stopPropagation();
+        onCut(hit.id);
+    };
+
+    return (
+        <group>
+            <group onPointerDown={(e) => strike(e, 'female')}>
+                {joint.female.map((solid, i) => <JointSolidMesh key={i} solid={solid} color={COLOR_PINS} />)}
+                {joint.waste.filter(w => w.part === 'female').map(w => (
+                    <JointWasteMesh key={w.id} waste={w} visible={!removedWaste.includes(w.id)} isMarked={isMarked} />
+                ))}
+            </group>
+            <group position={maleOffset} onPointerDown={(e) => strike(e, 'male')}>
+                {joint.male.map((solid, i) => <JointSolidMesh key={i} solid={solid} color={COLOR_TAILS} />)}
+                {joint.waste.filter(w => w.part === 'male').map(w => (
+                    <JointWasteMesh key={w.id} waste={w} visible={!removedWaste.includes(w.id)} isMarked={isMarked} />
+                ))}
+            </group>
+            <group position={pinOffset}>
+                {joint.pins.map((solid, i) => <JointSolidMesh key={i} solid={solid} color={COLOR_TAILS} />)}
+            </group>
+        </group>
+    );
+};
+
+// The library viewer: one joint on the bench, its waste marked for the chisel
+// until it has all been cut away, and the parts pulled apart by `explode`
+export const JointViewer: React.FC<{kind: JointKind, explode: number}> = ({ kind, explode }) => {
+    const [removedWaste, setRemovedWaste] = useState<string[]>([]);
+    return (
+        <JointModel
+            kind={kind}
+            removedWaste={removedWaste}
+            isMarked
+            explode={explode}
+            onCut={(id) => setRemovedWaste(prev => [...prev, id])}
+        />
+    );
+};
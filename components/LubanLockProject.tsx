@@ -0,0 +1,307 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useThree } from '@react-three/fiber';
+import { useCursor, Edges, Html } from '@react-three/drei';
+import { useSpring, config } from '@react-spring/three';
+import * as THREE from 'three';
+import { GamePhase } from '../types';
+import { AnimatedGroup, Vec3, COLOR_EDGES, COLOR_PINS, COLOR_TAILS } from './shared';
+import {
+  LockPiece, LockState, Voxel, LUBAN_PIECES, LOCK_DIRECTIONS, LOCK_DIRECTION_LABELS,
+  orientedVoxels, fitsHome, assembledState, disassembledState, isAssembled, isDisassembled,
+  findMove, applyMove, solveLock,
+} from '../lubanLock';
+
+// Level 4: a Luban lock. Take the six sticks apart and put them back together,
+// with a solver on hand to hint the next move.
+
+const LOCK_CELL = 0.3;                  // World size of one voxel
+const LOCK_ORIGIN: Vec3 = [0, 0.95, 0]; // Centre of the assembled lock
+const LOCK_SCRAMBLE = [2, 5, 1, 6, 3, 7]; // Orientations the sticks come back to the bench in
+const LOCK_DRAG_STEP = LOCK_CELL * 0.7;
+
+// Where each stick rests when it is out of the lock
+const LOCK_BENCH: Record<string, [number, number]> = {
+    'x-low': [-2.4, 2.2],
+    'x-high': [-2.4, 3.0],
+    'y-left': [2.2, 2.4],
+    'y-right': [3.0, 2.4],
+    'z-back': [-3.8, -0.4],
+    'z-front': [3.8, -0.4],
+};
+
+function initialLockState(phase: GamePhase, saved?: LockState): LockState {
+    if (saved) return saved;
+    return phase === GamePhase.ASSEMBLY ? scrambleLock(disassembledState()) : assembledState();
+}
+
+const scrambleLock = (state: LockState): LockState => ({ ...state, orientations: [...LOCK_SCRAMBLE] });
+
+export function LubanLockProject({ phase, onPhaseComplete, setOrbitEnabled, savedState, onStateChange }: any) {
+    const [lock, setLock] = useState<LockState>(() => initialLockState(phase, savedState));
+    const [selected, setSelected] = useState<number | null>(null);
+    const [blocked, setBlocked] = useState<number | null>(null);
+    const [hint, setHint] = useState<{ piece: number, dir: number | null, text: string } | null>(null);
+    const [hoveredPiece, setHoveredPiece] = useState<number | null>(null);
+    const dragRef = useRef<{ piece: number, plane: THREE.Plane, origin: THREE.Vector3 } | null>(null);
+    const { camera } = useThree();
+    useCursor(hoveredPiece !== null);
+
+    const goal = phase === GamePhase.ASSEMBLY ? 'assemble' : 'disassemble';
+    const canPlay = phase === GamePhase.DISASSEMBLY || phase === GamePhase.ASSEMBLY;
+
+    useEffect(() => {
+        onStateChange?.({ luban: lock });
+    }, [lock]);
+
+    // The sticks come back from the bench all turned around for the rebuild
+    useEffect(() => {
+        if (phase === GamePhase.ASSEMBLY && isDisassembled(lock) && lock.orientations.every(o => o === 0)) {
+            setLock(scrambleLock(lock));
+        }
+        setSelected(null);
+        setHint(null);
+    }, [phase]);
+
+    useEffect(() => {
+        if (!canPlay) return;
+        const done = goal === 'assemble' ? isAssembled(lock) : isDisassembled(lock);
+        if (!done) return;
+        const timeout = setTimeout(onPhaseComplete, 800);
+        return () => clearTimeout(timeout);
+    }, [lock, phase]);
+
+    useEffect(() => {
+        if (blocked === null) return;
+        const timeout = setTimeout(() => setBlocked(null), 400);
+        return () => clearTimeout(timeout);
+    }, [blocked]);
+
+    const tryMove = (piece: number, dir: number) => {
+        const move = findMove(lock, piece, dir);
+        if (!move) {
+            setBlocked(piece);
+            return null;
+        }
+        setLock(applyMove(lock, move));
+        setHint(null);
+        return move;
+    };
+
+    const handlePiecePointerDown = (event: any, piece: number) => {
+        if (!canPlay) return;
+        event.stopPropagation();
+        setSelected(piece);
+        if (!lock.offsets[piece]) return; // Bench sticks are turned and slid in from the panel
+
+        const normal = camera.getWorldDirection(new THREE.Vector3()).negate();
+        dragRef.current = {
+            piece,
+            plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, event.point),
+            origin: event.point.clone(),
+        };
+        setOrbitEnabled(false);
+        (event.target as HTMLElement).setPointerCapture?.(event.pointerId);
+    };
+
+    // Drag steps the stick one cell at a time along whichever axis the pointer moved furthest
+    const handlePieceDrag = (event: any) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        event.stopPropagation();
+        const point = new THREE.Vector3();
+        if (!event.ray.intersectPlane(drag.plane, point)) return;
+
+        const delta = point.clone().sub(drag.origin).toArray();
+        const axis = delta.reduce((best, v, i) => Math.abs(v) > Math.abs(delta[best]) ? i : best, 0);
+        if (Math.abs(delta[axis]) < LOCK_DRAG_STEP) return;
+
+        const dir = axis * 2 + (delta[axis] > 0 ? 0 : 1);
+        const move = tryMove(drag.piece, dir);
+        if (!move) {
+            drag.origin.copy(point);
+        } else if (move.kind === 'remove') {
+            // Out on the bench: the drag is over
+            dragRef.current = null;
+            setSelected(null);
+            setOrbitEnabled(true);
+        } else {
+            drag.origin.setComponent(axis, drag.origin.getComponent(axis) + Math.sign(delta[axis]) * LOCK_CELL);
+        }
+    };
+
+    const handlePiecePointerUp = (event: any) => {
+        event.stopPropagation();
+        dragRef.current = null;
+        setOrbitEnabled(true);
+        (event.target as HTMLElement).releasePointerCapture?.(event.pointerId);
+    };
+
+    const turnSelected = (turn: number) => {
+        if (selected === null || lock.offsets[selected]) return;
+        const orientations = [...lock.orientations];
+        const current = orientations[selected];
+        orientations[selected] = turn === 4 ? (current + 4) % 8 : (current & 4) | ((current + 1) % 4);
+        setLock({ ...lock, orientations });
+        setHint(null);
+    };
+
+    const slideSelectedIn = () => {
+        if (selected === null) return;
+        const exit = lock.exits[selected];
+        if (!exit) return;
+        if (!fitsHome(LUBAN_PIECES[selected], lock.orientations[selected])) {
+            setBlocked(selected);
+            setHint({ piece: selected, dir: null, text: "It won't fit facing that way. Turn or flip it first." });
+            return;
+        }
+        tryMove(selected, exit.dir ^ 1);
+    };
+
+    const showHint = () => {
+        const moves = solveLock(lock, goal);
+        if (!moves || moves.length === 0) {
+            setHint({ piece: -1, dir: null, text: "No quick way from here. Try taking a stick back out." });
+            return;
+        }
+        const move = moves[0];
+        const piece = LUBAN_PIECES[move.piece];
+        if (move.kind === 'insert' && !fitsHome(piece, lock.orientations[move.piece])) {
+            setHint({ piece: move.piece, dir: null, text: `Turn the ${piece.name} until it fits, then slide it in.` });
+        } else if (move.kind === 'insert') {
+            setHint({ piece: move.piece, dir: move.dir, text: `Slide the ${piece.name} back in.` });
+        } else {
+            const verb = move.kind === 'remove' ? 'pull it out' : 'slide it';
+            setHint({ piece: move.piece, dir: move.dir, text: `Take the ${piece.name} and ${verb} ${LOCK_DIRECTION_LABELS[move.dir]}.` });
+        }
+        setSelected(move.piece);
+    };
+
+    const selectedOnBench = selected !== null && !lock.offsets[selected];
+
+    return (
+        <group>
+            {LUBAN_PIECES.map((piece, i) => (
+                <LockStick
+                    key={piece.id}
+                    piece={piece}
+                    index={i}
+                    offset={lock.offsets[i]}
+                    orientation={lock.orientations[i]}
+                    highlight={blocked === i ? 'blocked' : selected === i || hint?.piece === i ? 'selected' : null}
+                    onPointerDown={(e: any) => handlePiecePointerDown(e, i)}
+                    onPointerMove={handlePieceDrag}
+                    onPointerUp={handlePiecePointerUp}
+                    onPointerOver={() => canPlay && setHoveredPiece(i)}
+                    onPointerOut={() => setHoveredPiece(prev => prev === i ? null : prev)}
+                />
+            ))}
+
+            {hint && hint.dir !== null && lock.offsets[hint.piece] && (
+                <LockHintArrow piece={hint.piece} offset={lock.offsets[hint.piece]!} dir={hint.dir} />
+            )}
+
+            {canPlay && (
+                <Html position={[0, 2.6, -0.6]} center>
+                    <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col items-center gap-2 w-64">
+                        {hint && <div className="font-bold text-amber-800 text-center">{hint.text}</div>}
+                        {selected !== null && (
+                            <div className="text-slate-500">{LUBAN_PIECES[selected].name}</div>
+                        )}
+                        <div className="flex gap-2">
+                            <button onClick={showHint} className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold">
+                                💡 Hint
+                            </button>
+                            {phase === GamePhase.ASSEMBLY && selectedOnBench && (
+                                <>
+                                    <button onClick={() => turnSelected(1)} className="px-2 py-1 rounded-lg bg-slate-100 border border-slate-300 hover:bg-amber-100 font-bold">⟳ Turn</button>
+                                    <button onClick={() => turnSelected(4)} className="px-2 py-1 rounded-lg bg-slate-100 border border-slate-300 hover:bg-amber-100 font-bold">⇄ Flip</button>
+                                    <button onClick={slideSelectedIn} className="px-2 py-1 rounded-lg bg-green-500 hover:bg-green-600 text-white font-bold">Slide in</button>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </Html>
+            )}
+        </group>
+    );
+}
+
+// World position of a stick: in the lock at its offset, or resting on the bench
+function lockStickPosition(piece: LockPiece, offset: Voxel | null, cells: Voxel[]): Vec3 {
+    if (offset) {
+        return [0, 1, 2].map(i => LOCK_ORIGIN[i] + offset[i] * LOCK_CELL) as Vec3;
+    }
+    const center = [0, 1, 2].map(i => (Math.min(...cells.map(c => c[i])) + Math.max(...cells.map(c => c[i])) + 1) / 2);
+    const minY = Math.min(...cells.map(c => c[1]));
+    const [benchX, benchZ] = LOCK_BENCH[piece.id];
+    return [benchX - center[0] * LOCK_CELL, -minY * LOCK_CELL, benchZ - center[2] * LOCK_CELL];
+}
+
+const LockStick: React.FC<any> = ({ piece, index, offset, orientation, highlight, ...handlers }) => {
+    const cells = useMemo(() => orientedVoxels(piece, orientation), [piece, orientation]);
+    const geometry = useMemo(() => createVoxelGeometry(cells, LOCK_CELL), [cells]);
+    const { position } = useSpring({ position: lockStickPosition(piece, offset, cells), config: config.stiff });
+
+    return (
+        <AnimatedGroup position={position} {...handlers}>
+            <mesh geometry={geometry} castShadow receiveShadow>
+                <meshStandardMaterial
+                    color={index % 2 === 0 ? COLOR_TAILS : COLOR_PINS}
+                    emissive={highlight === 'blocked' ? "#991b1b" : highlight === 'selected' ? "#b45309" : "#000000"}
+                    emissiveIntensity={highlight ? 0.5 : 0}
+                    roughness={0.6}
+                />
+                <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+            </mesh>
+        </AnimatedGroup>
+    );
+};
+
+// Cone pointing the way the hinted stick should move
+const LockHintArrow: React.FC<{piece: number, offset: Voxel, dir: number}> = ({ piece, offset, dir }) => {
+    const cells = orientedVoxels(LUBAN_PIECES[piece], 0);
+    const d = LOCK_DIRECTIONS[dir];
+    const position = [0, 1, 2].map(i => {
+        const center = cells.reduce((sum, c) => sum + c[i] + 0.5, 0) / cells.length;
+        return LOCK_ORIGIN[i] + (offset[i] + center + d[i] * 4.5) * LOCK_CELL;
+    }) as Vec3;
+    const quaternion = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), new THREE.Vector3(...d));
+
+    return (
+        <mesh position={position} quaternion={quaternion}>
+            <coneGeometry args={[0.15, 0.4, 12]} />
+            <meshStandardMaterial color="#f59e0b" emissive="#f59e0b" emissiveIntensity={0.6} />
+        </mesh>
+    );
+};
+
+// One mesh per stick with only the outside faces, so the notches read cleanly
+function createVoxelGeometry(cells: Voxel[], size: number) {
+    const filled = new Set(cells.map(c => c.join(',')));
+    const positions: number[] = [];
+    const normals: number[] = [];
+    // Corners of each face, counter-clockwise seen from outside
+    const faces: { dir: Voxel, corners: Voxel[] }[] = [
+        { dir: [1, 0, 0], corners: [[1, 0, 0], [1, 1, 0], [1, 1, 1], [1, 0, 1]] },
+        { dir: [-1, 0, 0], corners: [[0, 0, 0], [0, 0, 1], [0, 1, 1], [0, 1, 0]] },
+        { dir: [0, 1, 0], corners: [[0, 1, 0], [0, 1, 1], [1, 1, 1], [1, 1, 0]] },
+        { dir: [0, -1, 0], corners: [[0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1]] },
+        { dir: [0, 0, 1], corners: [[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]] },
+        { dir: [0, 0, -1], corners: [[0, 0, 0], [0, 1, 0], [1, 1, 0], [1, 0, 0]] },
+    ];
+
+    for (const cell of cells) {
+        for (const { dir, corners } of faces) {
+            if (filled.has([cell[0] + dir[0], cell[1] + dir[1], cell[2] + dir[2]].join(','))) continue;
+            for (const k of [0, 1, 2, 0, 2, 3]) {
+                positions.push(...corners[k].map((c, i) => (cell[i] + c) * size));
+                normals.push(...dir);
+            }
+        }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    return geometry;
+}
@@ -0,0 +1,158 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import '../types';
+import { MarkingGauge, DovetailTemplate } from './Tools';
+import { PENCIL_COLOR, mm } from './shared';
+import { DovetailLayout } from '../dovetail';
+import { LayoutMarks, clampGauge, clampTemplate } from '../marking';
+
+// The layout step: set the marking gauge to the tail board thickness and scribe
+// the baseline, then slide the template to each spacing tick and trace the tail.
+// Works in the pin board's local space (top face at jointHeight, end at boardThickness).
+export function MarkingStation({ layout, setOrbitEnabled, onDone }: { layout: DovetailLayout, setOrbitEnabled: (enabled: boolean) => void, onDone: (marks: LayoutMarks) => void }) {
+    const groupRef = useRef<THREE.Group>(null);
+    const [baseline, setBaseline] = useState<number | null>(null);
+    const [gauge, setGauge] = useState(() => clampGauge(layout, layout.boardThickness * 0.7));
+    const [tails, setTails] = useState<number[]>([]);
+    const [templateX, setTemplateX] = useState(() => clampTemplate(layout, 0, layout.tailCenters[0] - layout.pinWidth));
+    const dragging = useRef(false);
+    const H = layout.jointHeight;
+    const T = layout.boardThickness;
+    const nextTail = tails.length;
+
+    // Ray into the board's local space, so the drag planes can sit on its faces
+    const localRay = (e: any) => e.ray.clone().applyMatrix4(groupRef.current!.matrixWorld.clone().invert());
+
+    const startDrag = (e: any) => {
+        e.stopPropagation();
+        dragging.current = true;
+        setOrbitEnabled(false);
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+    const endDrag = (e: any) => {
+        e.stopPropagation();
+        dragging.current = false;
+        setOrbitEnabled(true);
+        (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+    };
+
+    const handleGaugeDrag = (e: any) => {
+        if (!dragging.current || !groupRef.current) return;
+        e.stopPropagation();
+        const point = new THREE.Vector3();
+        if (!localRay(e).intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -H), point)) return;
+        setGauge(clampGauge(layout, T - point.z));
+    };
+
+    const handleTemplateDrag = (e: any) => {
+        if (!dragging.current || !groupRef.current) return;
+        e.stopPropagation();
+        const point = new THREE.Vector3();
+        if (!localRay(e).intersectPlane(new THREE.Plane(new THREE.Vector3(0, 0, 1), -T), point)) return;
+        setTemplateX(clampTemplate(layout, nextTail, point.x));
+    };
+
+    const drawTail = () => {
+        const drawn = [...tails, templateX];
+        setTails(drawn);
+        if (drawn.length === layout.tailCenters.length) {
+            onDone({ baseline: baseline ?? T, tailCenters: drawn });
+        } else {
+            setTemplateX(clampTemplate(layout, drawn.length, layout.tailCenters[drawn.length] - layout.pinWidth));
+        }
+    };
+
+    const gaugeX = layout.boardWidth / 2 - 0.4;
+
+    return (
+        <group ref={groupRef}>
+            <PencilMarks layout={layout} baseline={baseline} tailCenters={tails} />
+
+            {/* Spacing ticks stepped off with dividers, one per tail */}
+            {baseline !== null && layout.tailCenters.map((x, i) => i >= nextTail && (
+                <mesh key={i} position={[x, H - 0.04, T + 0.003]}>
+                    <planeGeometry args={[0.008, 0.08]} />
+                    <meshBasicMaterial color={PENCIL_COLOR} />
+                </mesh>
+            ))}
+
+            {baseline === null ? (
+                <MarkingGauge
+                    position={[gaugeX, H, T]}
+                    setting={gauge}
+                    onPointerDown={startDrag}
+                    onPointerMove={handleGaugeDrag}
+                    onPointerUp={endDrag}
+                />
+            ) : nextTail < layout.tailCenters.length && (
+                <DovetailTemplate
+                    position={[templateX, 0, T + 0.002]}
+                    tipWidth={layout.tailWidthTip}
+                    rootWidth={layout.tailWidthRoot}
+                    height={H}
+                    onPointerDown={startDrag}
+                    onPointerMove={handleTemplateDrag}
+                    onPointerUp={endDrag}
+                />
+            )}
+
+            <Html position={[0, H + 1.2, 0]} center>
+                <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col items-center gap-2 w-64">
+                    {baseline === null ? (
+                        <>
+                            <div className="font-bold text-amber-800">Marking gauge 划线规</div>
+                            <div>Gauge <b>{mm(gauge)}</b> · tail board <b>{mm(T)}</b></div>
+                            <button onClick={() => setBaseline(gauge)} className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold">
+                                Scribe baseline
+                            </button>
+                        </>
+                    ) : nextTail >= layout.tailCenters.length ? (
+                        <div className="font-bold text-green-700">✓ Layout marked</div>
+                    ) : (
+                        <>
+                            <div className="font-bold text-amber-800">Dovetail template 燕尾样板</div>
+                            <div>Line the template up with tick {nextTail + 1} of {layout.tailCenters.length}</div>
+                            <button onClick={drawTail} className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold">
+                                ✏️ Trace tail
+                            </button>
+                        </>
+                    )}
+                </div>
+            </Html>
+        </group>
+    );
+}
+
+// Pencil lines: the scribed baseline across the top face, each traced tail on
+// the end grain and its edges carried over the top to the baseline.
+const PencilMarks: React.FC<{layout: DovetailLayout, baseline: number | null, tailCenters: number[]}> = ({layout, baseline, tailCenters}) => {
+    const geometry = useMemo(() => {
+        const H = layout.jointHeight + 0.003;
+        const T = layout.boardThickness;
+        const W = layout.boardWidth / 2;
+        const tip = layout.tailWidthTip / 2;
+        const root = layout.tailWidthRoot / 2;
+        const z = T + 0.003;
+        const pts: number[] = [];
+        if (baseline !== null) pts.push(-W, H, T - baseline, W, H, T - baseline);
+        tailCenters.forEach(x => {
+            pts.push(
+                x - tip, H, z, x - root, 0, z,
+                x - root, 0, z, x + root, 0, z,
+                x + root, 0, z, x + tip, H, z,
+                x - tip, H, T, x - tip, H, T - (baseline ?? T),
+                x + tip, H, T, x + tip, H, T - (baseline ?? T),
+            );
+        });
+        const g = new THREE.BufferGeometry();
+        g.setAttribute('position', new THREE.Float32BufferAttribute(pts, 3));
+        return g;
+    }, [layout, baseline, tailCenters]);
+
+    return (
+        <lineSegments geometry={geometry}>
+            <lineBasicMaterial color={PENCIL_COLOR} />
+        </lineSegments>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useRef, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import '../types';
+import { WoodSpecies, SPECIES, DEFAULT_SPECIES } from '../species';
+
+// Sawdust and shavings thrown up by the tools, pooled in instanced meshes.
+
+export interface ShavingSystemHandle {
+    spawnShavings: (position: THREE.Vector3, species: WoodSpecies, torn: boolean) => void;
+}
+
+export interface SawdustSystemHandle {
+    spawnBurst: (position: THREE.Vector3, species?: WoodSpecies) => void;
+    clear: () => void;
+}
+
+export const SawdustSystem = forwardRef<SawdustSystemHandle, {}>((props, ref) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const count = 1200; 
+    const particles = useRef<Array<{ active: boolean; position: THREE.Vector3; velocity: THREE.Vector3; rotation: THREE.Euler; rotSpeed: THREE.Vector3; scale: number; life: number; isPiled: boolean; }>>([]);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+    const sawdustColors = useMemo(() => Object.fromEntries(
+        Object.entries(SPECIES).map(([id, info]) => [id, info.palette.sawdust.map(c => new THREE.Color(c))])
+    ) as Record<WoodSpecies, THREE.Color[]>, []);
+
+    useMemo(() => {
+        particles.current = new Array(count).fill(null).map(() => ({
+            active: false,
+            position: new THREE.Vector3(),
+            velocity: new THREE.Vector3(),
+            rotation: new THREE.Euler(),
+            rotSpeed: new THREE.Vector3(),
+            scale: 1,
+            life: 0,
+            isPiled: false
+        }));
+    }, []);
+
+    useImperativeHandle(ref, () => ({
+        spawnBurst: (pos: THREE.Vector3, species: WoodSpecies = DEFAULT_SPECIES) => {
+             const colors = sawdustColors[species];
+             const burstCount = 60; 
+             const duration = 15;
+             let iter = 0;
+             const interval = setInterval(() => {
+                 if (!meshRef.current) { clearInterval(interval); return; }
+                 const batch = Math.floor(burstCount / duration);
+                 let spawnedInBatch = 0;
+                 for (let i = 0; i < count; i++) {
+                     if (!particles.current[i].active) {
+                        const p = particles.current[i];
+                        p.active = true;
+                        p.isPiled = false;
+                        p.life = 0;
+                        p.position.set(pos.x + (Math.random() - 0.5) * 0.1, pos.y + (Math.random() * 0.1), pos.z + (Math.random() - 0.5) * 0.1);
+                        const angle = Math.random() * Math.PI * 2;
+                        const force = 0.5 + Math.random() * 2.0;
+                        p.velocity.set(Math.sin(angle) * force, 2.5 + Math.random() * 3.0, Math.cos(angle) * force);
+                        p.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
+                        p.rotSpeed.set((Math.random()-0.5) * 15, (Math.random()-0.5) * 15, (Math.random()-0.5) * 15);
+                        p.scale = 0.5 + Math.random() * 0.7; 
+                        const color = colors[Math.floor(Math.random() * colors.length)];
+                        meshRef.current.setColorAt(i, color);
+                        spawnedInBatch++;
+                        if (spawnedInBatch >= batch) break;
+                     }
+                 }
+                 meshRef.current.instanceColor!.needsUpdate = true;
+                 iter++;
+                 if (iter >= duration) clearInterval(interval);
+             }, 30); 
+        },
+        clear: () => {
+             particles.current.forEach(p => p.active = false);
+             if (meshRef.current) {
+                 meshRef.current.count = 0;
+                 meshRef.current.instanceMatrix.needsUpdate = true;
+             }
+        }
+    }));
+
+    useFrame((state, delta) => {
+        if (!meshRef.current) return;
+        const dt = Math.min(delta, 0.1); 
+        const gravity = -12; 
+        const floorY = 0.01; 
+        
+        let activeCount = 0;
+        for (let i = 0; i < count; i++) {
+            const p = particles.current[i];
+            if (p.active) {
+                if (!p.isPiled) {
+                    p.velocity.y += gravity * dt;
+                    p.velocity.x *= 0.98; p.velocity.z *= 0.98;
+                    p.position.add(p.velocity.clone().multiplyScalar(dt));
+                    p.rotation.x += p.rotSpeed.x * dt; p.rotation.y += p.rotSpeed.y * dt; p.rotation.z += p.rotSpeed.z * dt;
+                    if (p.position.y <= floorY) {
+                        p.position.y = floorY + (Math.random() * 0.04);
+                        p.isPiled = true;
+                        p.velocity.set(0, 0, 0); 
+                        p.rotSpeed.set(0, 0, 0);
+                        p.scale *= 0.9; p.rotation.x = Math.PI / 2;
+                    }
+                }
+                dummy.position.copy(p.position);
+                dummy.rotation.copy(p.rotation);
+                dummy.scale.setScalar(p.scale);
+                dummy.updateMatrix();
+                meshRef.current.setMatrixAt(i, dummy.matrix);
+                activeCount++;
+            } else {
+                 dummy.position.set(0, -999, 0);
+                 dummy.scale.setScalar(0);
+                 dummy.updateMatrix();
+                 meshRef.current.setMatrixAt(i, dummy.matrix);
+            }
+        }
+        meshRef.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, count]} castShadow receiveShadow>
+            <dodecahedronGeometry args={[0.04, 0]} /> 
+            <meshStandardMaterial roughness={0.9} color="#fff" /> 
+        </instancedMesh>
+    );
+});
+
+// Plane shavings: curled ribbons thrown up out of the plane's mouth that fall
+// and pile on the bench. Torn strokes throw short, broken chips instead.
+export const ShavingSystem = forwardRef<ShavingSystemHandle, {}>((props, ref) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const count = 160;
+    const next = useRef(0);
+    const particles = useRef<Array<{ active: boolean; position: THREE.Vector3; velocity: THREE.Vector3; rotation: THREE.Euler; rotSpeed: THREE.Vector3; scale: THREE.Vector3; isPiled: boolean; }>>([]);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+
+    useMemo(() => {
+        particles.current = new Array(count).fill(null).map(() => ({
+            active: false,
+            position: new THREE.Vector3(),
+            velocity: new THREE.Vector3(),
+            rotation: new THREE.Euler(),
+            rotSpeed: new THREE.Vector3(),
+            scale: new THREE.Vector3(1, 1, 1),
+            isPiled: false
+        }));
+    }, []);
+
+    useImperativeHandle(ref, () => ({
+        spawnShavings: (pos: THREE.Vector3, species: WoodSpecies, torn: boolean) => {
+            if (!meshRef.current) return;
+            const colors = SPECIES[species].palette.sawdust;
+            const pieces = torn ? 6 : 2;
+            for (let n = 0; n < pieces; n++) {
+                // Oldest shavings are reused once the pool is full
+                const i = next.current;
+                next.current = (next.current + 1) % count;
+                const p = particles.current[i];
+                p.active = true;
+                p.isPiled = false;
+                p.position.set(pos.x + (Math.random() - 0.5) * 0.2, pos.y, pos.z);
+                p.velocity.set((Math.random() - 0.5) * 1.5, 2 + Math.random() * 1.5, (Math.random() - 0.5) * 1.5);
+                p.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
+                p.rotSpeed.set((Math.random() - 0.5) * 6, (Math.random() - 0.5) * 6, (Math.random() - 0.5) * 6);
+                const size = torn ? 0.3 + Math.random() * 0.3 : 0.9 + Math.random() * 0.4;
+                p.scale.set(size, size, torn ? size : size * 2.5); // Whole shavings are wide ribbons
+                meshRef.current.setColorAt(i, new THREE.Color(colors[torn ? 1 + Math.floor(Math.random() * (colors.length - 1)) : 0]));
+            }
+            meshRef.current.instanceColor!.needsUpdate = true;
+        },
+    }));
+
+    useFrame((state, delta) => {
+        if (!meshRef.current) return;
+        const dt = Math.min(delta, 0.1);
+        const gravity = -9;
+        const floorY = 0.03;
+
+        for (let i = 0; i < count; i++) {
+            const p = particles.current[i];
+            if (p.active) {
+                if (!p.isPiled) {
+                    p.velocity.y += gravity * dt;
+                    p.velocity.x *= 0.96; p.velocity.z *= 0.96; // Light and papery, they drift
+                    p.position.add(p.velocity.clone().multiplyScalar(dt));
+                    p.rotation.x += p.rotSpeed.x * dt; p.rotation.y += p.rotSpeed.y * dt; p.rotation.z += p.rotSpeed.z * dt;
+                    if (p.position.y <= floorY) {
+                        p.position.y = floorY;
+                        p.isPiled = true;
+                        p.rotation.x = 0;
+                    }
+                }
+                dummy.position.copy(p.position);
+                dummy.rotation.copy(p.rotation);
+                dummy.scale.copy(p.scale);
+            } else {
+                dummy.position.set(0, -999, 0);
+                dummy.scale.setScalar(0);
+            }
+            dummy.updateMatrix();
+            meshRef.current.setMatrixAt(i, dummy.matrix);
+        }
+        meshRef.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, count]} castShadow>
+            {/* Most of a turn of a thin ribbon: a curl */}
+            <torusGeometry args={[0.06, 0.012, 4, 12, Math.PI * 1.6]} />
+            <meshStandardMaterial roughness={0.8} color="#fff" side={THREE.DoubleSide} />
+        </instancedMesh>
+    );
+});
@@ -0,0 +1,150 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import '../types';
+import { HandPlane } from './Tools';
+import { mm } from './shared';
+import { ShavingSystem, ShavingSystemHandle } from './Particles';
+import { BOARD_LENGTH_B } from './DovetailBoards';
+import { PlaningBoard, GrainDirection, IronSetting, PLANE_CELLS, SHAVING, THICKNESS_TOLERANCE, roughBoard, cellsUnderSole, planeStroke, thinnest, thickest, isTooThin, isPlaned, thicknessError } from '../planing';
+import { DovetailLayout } from '../dovetail';
+import { WoodSpecies, SPECIES, cutSpeed } from '../species';
+
+const PLANE_SOLE = 0.5; // Width of the plane's sole, and of the strip one stroke flattens
+const TORN_COLOR = "#7c5a3a";
+
+// The rough board from the mill, planed in the pin board's local space (same
+// footprint, bottom on the bench). It is drawn as strips across its width so
+// the cup and the planed flats show; torn strips get ragged fibres on top.
+export function PlaningStation({ layout, species, setOrbitEnabled, onDone }: { layout: DovetailLayout, species: WoodSpecies, setOrbitEnabled: (enabled: boolean) => void, onDone: (thicknessError: number) => void }) {
+    const target = layout.boardThickness;
+    const [board, setBoard] = useState<PlaningBoard>(() => roughBoard(target, Math.random() < 0.5 ? 1 : -1));
+    const [iron, setIron] = useState<IronSetting>('coarse');
+    const [tip, setTip] = useState<string | null>(null);
+    const [spoiled, setSpoiled] = useState(0);
+    const done = useRef(false);
+    const shavingRef = useRef<ShavingSystemHandle>(null);
+    const palette = SPECIES[species].palette;
+    const W = layout.boardWidth;
+    const cellWidth = W / PLANE_CELLS;
+    const zEnd = layout.boardThickness;
+    const zStart = zEnd - BOARD_LENGTH_B;
+    const zMid = (zStart + zEnd) / 2;
+    const ruined = isTooThin(board, target);
+    const high = thickest(board);
+    const low = thinnest(board);
+
+    // A few splinters standing up along each strip, placed once
+    const splinters = useMemo(() => Array.from({ length: PLANE_CELLS }, () =>
+        Array.from({ length: 5 }, () => ({ z: zStart + 0.2 + Math.random() * (BOARD_LENGTH_B - 0.4), x: (Math.random() - 0.5) * 0.6, tilt: (Math.random() - 0.5) * 1.2 }))
+    ), [zStart]);
+
+    // Grain lines on the near edge, rising toward the end that planes cleanly
+    const grainLines = useMemo(() => {
+        const pts: number[] = [];
+        for (let i = 0; i < 9; i++) {
+            const z = zStart + 0.15 + i * (BOARD_LENGTH_B - 0.6) / 8;
+            pts.push(W / 2 + 0.003, 0.05, z, W / 2 + 0.003, target * 0.9, z + board.grain * 0.4);
+        }
+        const g = new THREE.BufferGeometry();
+        g.setAttribute('position', new THREE.Float32BufferAttribute(pts, 3));
+        return g;
+    }, [W, target, zStart, board.grain]);
+
+    const handleStroke = (x: number, direction: GrainDirection) => {
+        if (done.current || ruined) return;
+        const result = planeStroke(board, cellsUnderSole(x, PLANE_SOLE, W), direction, SHAVING[iron] * cutSpeed(species));
+        setBoard(result.board);
+        if (result.removed <= 0) return;
+        shavingRef.current?.spawnShavings(new THREE.Vector3(x, thickest(result.board) + 0.1, direction > 0 ? zEnd : zStart), species, !!result.tip);
+        if (isTooThin(result.board, target)) {
+            setTip("Too thin! The board is below the thickness the joints need.");
+            return;
+        }
+        setTip(result.tip ?? null);
+        if (isPlaned(result.board, target)) {
+            done.current = true;
+            onDone(thicknessError(result.board, target));
+        }
+    };
+
+    const freshBoard = () => {
+        setBoard(roughBoard(target, board.grain));
+        setSpoiled(spoiled + 1);
+        setIron('coarse');
+        setTip(null);
+    };
+
+    // Share of the way from the rough board down to the target, by the thickest strip
+    const startThickness = useMemo(() => thickest(roughBoard(target, 1)), [target]);
+    const progress = Math.max(0, Math.min(1, (startThickness - high) / (startThickness - target)));
+
+    return (
+        <group>
+            <ShavingSystem ref={shavingRef} />
+            {board.thickness.map((t, i) => {
+                const x = -W / 2 + (i + 0.5) * cellWidth;
+                return (
+                    <group key={i}>
+                        <mesh position={[x, t / 2, zMid]} castShadow receiveShadow>
+                            <boxGeometry args={[cellWidth, t, BOARD_LENGTH_B]} />
+                            <meshStandardMaterial color={board.tearOut[i] ? TORN_COLOR : palette.light} roughness={board.tearOut[i] ? 1 : 0.7} />
+                        </mesh>
+                        {board.tearOut[i] && splinters[i].map((s, j) => (
+                            <mesh key={j} position={[x + s.x * cellWidth, t + 0.02, s.z]} rotation={[s.tilt, 0, s.tilt / 2]}>
+                                <boxGeometry args={[cellWidth * 0.3, 0.04, 0.12]} />
+                                <meshStandardMaterial color={TORN_COLOR} roughness={1} />
+                            </mesh>
+                        ))}
+                    </group>
+                );
+            })}
+            <lineSegments geometry={grainLines}>
+                <lineBasicMaterial color={palette.dark} />
+            </lineSegments>
+
+            {!ruined && (
+                <HandPlane
+                    workY={high}
+                    zRange={[zStart, zEnd]}
+                    boardHalfWidth={W / 2}
+                    soleWidth={PLANE_SOLE}
+                    onStroke={handleStroke}
+                    onDragStart={() => setOrbitEnabled(false)}
+                    onDragEnd={() => setOrbitEnabled(true)}
+                />
+            )}
+
+            <Html position={[-W / 2 - 1.4, target + 1, zMid]} center>
+                <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                    <div className="font-bold text-amber-800">Plane 刨子</div>
+                    <div>
+                        Thickness <b>{mm(low)}</b>{high - low > 0.001 && <> – <b>{mm(high)}</b></>} · target <b>{mm(target)}</b> ± {mm(THICKNESS_TOLERANCE)}
+                    </div>
+                    <div className="h-2 rounded-full bg-slate-200 overflow-hidden">
+                        <div className={`h-full ${ruined ? 'bg-red-500' : 'bg-amber-500'}`} style={{ width: `${progress * 100}%` }} />
+                    </div>
+                    <div className="flex gap-1">
+                        {(['coarse', 'fine'] as const).map(setting => (
+                            <button
+                                key={setting}
+                                onClick={() => setIron(setting)}
+                                className={`flex-1 px-2 py-1 rounded-lg font-bold ${iron === setting ? 'bg-amber-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+                            >
+                                {setting === 'coarse' ? "Coarse set" : "Fine set"} ({mm(SHAVING[setting])})
+                            </button>
+                        ))}
+                    </div>
+                    {board.tearOut.some(Boolean) && !ruined && <div className="text-amber-700">Torn patches: plane them clean with the grain.</div>}
+                    {tip && <div className="text-red-600 font-bold">{tip}</div>}
+                    {ruined && (
+                        <button onClick={freshBoard} className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold">
+                            Fetch another rough board
+                        </button>
+                    )}
+                    {spoiled > 0 && <div className="text-slate-400">Boards spoiled: {spoiled}</div>}
+                </div>
+            </Html>
+        </group>
+    );
+}
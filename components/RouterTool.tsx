@@ -1,40 +1,121 @@
-import React, { useRef, useState } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
-import { useCursor } from '@react-three/drei';
+import { useCursor, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { GamePhase } from '../types';
+import { DrillLean, VERTICAL, boreDirection } from '../splay';
+import { PLUNGE_RATE, RETRACT_RATE, MAX_DEPTH } from '../drillDepth';
 
 interface RouterToolProps {
   phase: GamePhase;
   zBackPosition: number;
-  onCut: (x: number, z: number) => void;
+  // The router always cuts upright, and leaves its depth to the project (0). The
+  // drill only bores while it is plunged, and `depth` is how far in its tip is.
+  onCut: (x: number, z: number, lean: DrillLean, depth: number) => void;
   onInteractionStart: () => void;
   onInteractionEnd: () => void;
   variant?: 'router' | 'drill';
+  boardHalfWidth?: number;
+  boardThickness?: number;
+  zRanges?: [number, number][]; // Router: strips it may travel through (the socket depth); fixed Z if omitted
+  depthStop?: number;  // Drill: where the collar on the bit stops the plunge
+  plungeRate?: number; // Drill: how fast it bores in, per second
+  onRetract?: (depth: number) => void; // Drill: back out of the wood after a plunge this deep
 }
 
+const LEAN_STEP = 0.01;    // Drill: Q/E or scroll tilts it...
+const HEADING_STEP = 0.05; // ...and A/D turn the way it leans
+const MAX_LEAN = 0.4;
+const SIGHT_LENGTH = 0.6;  // Pencil-thin line showing which way the tip leans
+
 export const RouterTool: React.FC<RouterToolProps> = ({ 
   phase, 
   zBackPosition, 
   onCut, 
   onInteractionStart, 
   onInteractionEnd,
-  variant = 'router'
+  variant = 'router',
+  boardHalfWidth = 1.0,
+  boardThickness = 0.4,
+  zRanges,
+  depthStop = MAX_DEPTH,
+  plungeRate = PLUNGE_RATE,
+  onRetract
 }) => {
   const meshRef = useRef<THREE.Group>(null);
   const drillBitRef = useRef<THREE.Group>(null); 
   const [dragging, setDragging] = useState(false);
   const [hovered, setHover] = useState(false);
   useCursor(hovered || dragging);
+  const [lean, setLean] = useState<DrillLean>(VERTICAL);
+  const leanRef = useRef(lean);
+  leanRef.current = lean;
+  // Drill: Space held plunges the bit, and letting go backs it out
+  const plungeRef = useRef<THREE.Group>(null);
+  const plunging = useRef(false);
+  const depth = useRef(0);
+  const deepest = useRef(0);
+  const [depthShown, setDepthShown] = useState(0);
+
+  // Once the bit is in the wood it can't be tilted
+  const tiltBy = (angle: number, heading = 0) => {
+    if (depth.current > 0) return;
+    setLean(prev => ({ angle: Math.max(0, Math.min(MAX_LEAN, prev.angle + angle)), heading: prev.heading + heading }));
+  };
+
+  useEffect(() => {
+    if (variant !== 'drill') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (key === 'q') tiltBy(LEAN_STEP);
+      if (key === 'e') tiltBy(-LEAN_STEP);
+      if (key === 'a') tiltBy(0, HEADING_STEP);
+      if (key === 'd') tiltBy(0, -HEADING_STEP);
+      if (key === ' ') {
+        e.preventDefault();
+        plunging.current = true;
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') plunging.current = false;
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [variant]);
+
+  // The drill pivots about the bit's tip: its body leans away from where the tip points
+  const leanQuaternion = useMemo(() => {
+    const [x, y, z] = boreDirection(lean);
+    return new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), new THREE.Vector3(-x, -y, -z));
+  }, [lean]);
   
   const { camera, raycaster, pointer } = useThree();
   
   // Height adjustments
   // Stool Seat (Level 2) is 0.3 thick, inverted. Top face (technically bottom) is at World Y = 0.3.
-  const workY = variant === 'drill' ? 0.3 : (phase === GamePhase.CUTTING_TOP ? 5.4 : 0.6);
-  const workZ = phase === GamePhase.CUTTING_BACK ? (zBackPosition - 0.2) : 0.2;
+  const workY = variant === 'drill' ? 0.3 : (phase === GamePhase.CUTTING_TOP ? 5 + boardThickness : boardThickness + 0.2);
+  const workZ = phase === GamePhase.CUTTING_BACK ? (zBackPosition - boardThickness / 2) : boardThickness / 2;
   
   const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -workY); 
+
+  // Snap the pointer into the nearest strip the router is allowed to work in
+  const clampZ = (z: number) => {
+    if (!zRanges || zRanges.length === 0) return workZ;
+    let best = workZ;
+    let bestDistance = Infinity;
+    for (const [min, max] of zRanges) {
+      const clamped = Math.max(min, Math.min(max, z));
+      if (Math.abs(clamped - z) < bestDistance) {
+        bestDistance = Math.abs(clamped - z);
+        best = clamped;
+      }
+    }
+    return best;
+  };
   
   useFrame((state, delta) => {
     if (dragging && meshRef.current) {
@@ -44,25 +125,43 @@ export const RouterTool: React.FC<RouterToolProps> = ({
       
       if (target) {
         if (variant === 'drill') {
-            // Free movement on X/Z for stool drilling
-            meshRef.current.position.x = THREE.MathUtils.lerp(meshRef.current.position.x, target.x, 0.5);
-            meshRef.current.position.z = THREE.MathUtils.lerp(meshRef.current.position.z, target.z, 0.5);
+            // Free movement on X/Z for stool drilling, until the bit is in the wood
+            if (depth.current === 0) {
+              meshRef.current.position.x = THREE.MathUtils.lerp(meshRef.current.position.x, target.x, 0.5);
+              meshRef.current.position.z = THREE.MathUtils.lerp(meshRef.current.position.z, target.z, 0.5);
+            }
             meshRef.current.position.y = workY;
-            onCut(meshRef.current.position.x, meshRef.current.position.z); 
         } else {
-            // Constrain to board width (X only) for Box router
-            const x = Math.max(-1.0, Math.min(1.0, target.x));
+            // Constrain to board width, and to the socket depth when given, for Box router
+            const x = Math.max(-boardHalfWidth, Math.min(boardHalfWidth, target.x));
             meshRef.current.position.x = THREE.MathUtils.lerp(meshRef.current.position.x, x, 0.3);
             meshRef.current.position.y = workY; 
-            meshRef.current.position.z = workZ;
-            onCut(meshRef.current.position.x, meshRef.current.position.z);
+            meshRef.current.position.z = zRanges ? THREE.MathUtils.lerp(meshRef.current.position.z, clampZ(target.z), 0.3) : workZ;
+            onCut(meshRef.current.position.x, meshRef.current.position.z, VERTICAL, 0);
         }
       }
     }
 
+    if (variant === 'drill' && meshRef.current) {
+      const stop = Math.min(depthStop, MAX_DEPTH);
+      const next = plunging.current
+        ? Math.max(depth.current, Math.min(stop, depth.current + delta * plungeRate))
+        : Math.max(0, depth.current - delta * RETRACT_RATE);
+      depth.current = next;
+      deepest.current = Math.max(deepest.current, next);
+      const [x, y, z] = boreDirection(leanRef.current);
+      plungeRef.current?.position.set(x * next, y * next, z * next);
+      if (Math.round(next * 1000) !== Math.round(depthShown * 1000)) setDepthShown(next);
+      if (plunging.current && next > 0) onCut(meshRef.current.position.x, meshRef.current.position.z, leanRef.current, next);
+      if (next === 0 && deepest.current > 0) {
+        onRetract?.(deepest.current);
+        deepest.current = 0;
+      }
+    }
+
     // Spin animation
     if (drillBitRef.current) {
-      const speed = dragging ? 40 : 2; 
+      const speed = dragging || depth.current > 0 ? 40 : 2; 
       drillBitRef.current.rotation.y += delta * speed;
     }
   });
@@ -72,7 +171,7 @@ export const RouterTool: React.FC<RouterToolProps> = ({
   return (
     <group 
       ref={meshRef} 
-      position={[1.5, workY, variant === 'drill' ? 0 : workZ]}
+      position={[1.5, workY, variant === 'drill' ? 0 : clampZ(workZ)]}
       onPointerOver={() => setHover(true)}
       onPointerOut={() => setHover(false)}
       onPointerDown={(e) => { 
@@ -87,7 +186,17 @@ export const RouterTool: React.FC<RouterToolProps> = ({
         onInteractionEnd();
         (e.target as HTMLElement).releasePointerCapture?.(e.pointerId); 
       }}
+      onWheel={variant === 'drill' ? (e: any) => { e.stopPropagation(); tiltBy(e.deltaY > 0 ? -LEAN_STEP : LEAN_STEP); } : undefined}
     >
+      <group ref={plungeRef}>
+      <group quaternion={leanQuaternion}>
+      {/* Depth-stop collar: the plunge ends when it meets the surface */}
+      {variant === 'drill' && (
+        <mesh position={[0, Math.min(depthStop, MAX_DEPTH) + 0.02, 0]}>
+          <cylinderGeometry args={[0.065, 0.065, 0.04, 12]} />
+          <meshStandardMaterial color="#d4a017" metalness={0.8} roughness={0.3} />
+        </mesh>
+      )}
       <group ref={drillBitRef}>
         {variant === 'router' ? (
             /* Router Bit */
@@ -143,6 +252,24 @@ export const RouterTool: React.FC<RouterToolProps> = ({
              </mesh>
         </group>
       </group>
+      </group>
+      </group>
+
+      {variant === 'drill' && (
+        <>
+          {lean.angle > 0 && (
+            <mesh position={[Math.cos(lean.heading) * SIGHT_LENGTH / 2, 0.005, Math.sin(lean.heading) * SIGHT_LENGTH / 2]} rotation-y={-lean.heading}>
+              <boxGeometry args={[SIGHT_LENGTH, 0.005, 0.015]} />
+              <meshBasicMaterial color="#f59e0b" />
+            </mesh>
+          )}
+          <Html position={[0, 2.2, 0]} center>
+            <div className="bg-slate-800/80 text-white px-2 py-0.5 rounded text-[10px] font-mono whitespace-nowrap pointer-events-none">
+              ∠ {(lean.angle * 180 / Math.PI).toFixed(1)}° · ↓ {(depthShown * 100).toFixed(1)} / {(Math.min(depthStop, MAX_DEPTH) * 100).toFixed(0)} mm
+            </div>
+          </Html>
+        </>
+      )}
 
       {dragging && (
          <group>
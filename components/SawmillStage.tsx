@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { Edges, Html } from '@react-three/drei';
+import * as THREE from 'three';
+import '../types';
+import { Chainsaw } from './Tools';
+import { COLOR_EDGES, mm } from './shared';
+import { treeRingTexture } from './WoodGrain';
+import { SawdustSystem, SawdustSystemHandle } from './Particles';
+import { CutListItem, KERF, buckLog, ripCount, millBoards, checkCutList, millingYield } from '../milling';
+import { Inventory, LogItem, BoardItem, itemsOfKind } from '../inventory';
+import { SPECIES, cutSpeed } from '../species';
+
+// The sawmill: crosscut the felled logs and rip them into the boards on the
+// project's cut list.
+
+const MILL_LOG_Y = 0.8;
+const MILL_LOG_SPACING = 1.6;
+const MIN_CUT_GAP = 0.2; // Closest two crosscuts (or a crosscut and a log end) may be
+
+export function SawmillStage({ onPhaseComplete, setOrbitEnabled, sawdustRef, inventory, cutList = [], onMilled, onNeedTimber }: { onPhaseComplete: () => void, setOrbitEnabled: (enabled: boolean) => void, sawdustRef: React.RefObject<SawdustSystemHandle>, inventory: Inventory, cutList?: CutListItem[], onMilled?: (boards: BoardItem[]) => void, onNeedTimber?: () => void }) {
+    const [logs] = useState(() => itemsOfKind(inventory, 'log'));
+    const [cuts, setCuts] = useState<number[][]>(() => logs.map(() => []));
+    const [activeCut, setActiveCut] = useState<{ log: number, at: number, progress: number } | null>(null);
+    const [sawAt, setSawAt] = useState<number | null>(null);
+    const [ripped, setRipped] = useState(false);
+
+    // Logs only come from felling: with none in stock, back to the forest
+    useEffect(() => {
+        if (logs.length === 0) onNeedTimber?.();
+    }, []);
+
+    const logZ = (i: number) => (i - (logs.length - 1) / 2) * MILL_LOG_SPACING;
+    const lengths = cuts.map((c, i) => buckLog(c, logs[i].length));
+    const boards = logs.flatMap((log, i) => millBoards(log, lengths[i]));
+    const boardLengths = boards.map(b => b.length);
+    // Boards already on hand count towards the cut list if they are of the same wood
+    const stockLengths = itemsOfKind(inventory, 'board').filter(b => logs.some(l => l.species === b.species)).map(b => b.length);
+    const check = checkCutList([...stockLengths, ...boardLengths], cutList);
+    const yieldRatio = millingYield(logs, lengths, cutList);
+
+    const handleCut = (sawPos: THREE.Vector3) => {
+        if (ripped) return;
+        const log = logs.findIndex((l, i) => Math.abs(sawPos.z - logZ(i)) < l.diameter / 2 + 0.1);
+        const at = log < 0 ? 0 : sawPos.x + logs[log].length / 2; // Distance from the butt end
+        if (log < 0 || at < MIN_CUT_GAP || at > logs[log].length - MIN_CUT_GAP) {
+            setSawAt(null);
+            return;
+        }
+        setSawAt(at);
+        if (cuts[log].some(c => Math.abs(c - at) < MIN_CUT_GAP)) return;
+
+        // Keep sawing in the same kerf, or start a new one where the blade is
+        const sameKerf = activeCut && activeCut.log === log && Math.abs(activeCut.at - at) < 0.1;
+        const progress = (sameKerf ? activeCut!.progress : 0) + 2 * cutSpeed(logs[log].species);
+        if (Math.random() > 0.8) {
+            sawdustRef.current?.spawnBurst(new THREE.Vector3(sawPos.x, MILL_LOG_Y, logZ(log)), logs[log].species);
+        }
+        if (progress >= 100) {
+            const cutAt = sameKerf ? activeCut!.at : at;
+            setCuts(cuts.map((c, i) => (i === log ? [...c, cutAt].sort((a, b) => a - b) : c)));
+            setActiveCut(null);
+        } else {
+            setActiveCut({ log, at: sameKerf ? activeCut!.at : at, progress });
+        }
+    };
+
+    // Logs too thin or short for the cut list are still ripped, and the
+    // boards wait in the inventory while the player fells more
+    const handleRip = () => {
+        if (ripped) return;
+        setRipped(true);
+        logs.forEach((log, i) => sawdustRef.current?.spawnBurst(new THREE.Vector3(0, MILL_LOG_Y + log.diameter / 2, logZ(i)), log.species));
+        const satisfied = check.satisfied;
+        setTimeout(() => {
+            onMilled?.(boards);
+            if (satisfied) onPhaseComplete();
+            else onNeedTimber?.();
+        }, 1500);
+    };
+
+    return (
+        <group>
+            <SawdustSystem ref={sawdustRef} />
+
+            {/* Ground */}
+            <mesh rotation={[-Math.PI/2, 0, 0]} position={[0, -0.05, 0]} receiveShadow>
+                <planeGeometry args={[30, 30]} />
+                <meshStandardMaterial color="#a3a064" roughness={0.9} />
+            </mesh>
+
+            {cuts.map((logCuts, i) => (
+                <group key={i} position={[0, 0, logZ(i)]}>
+                    <Sawhorse position={[-logs[i].length / 2 + 0.8, 0, 0]} logRadius={logs[i].diameter / 2} />
+                    <Sawhorse position={[logs[i].length / 2 - 0.8, 0, 0]} logRadius={logs[i].diameter / 2} />
+                    {ripped ? (
+                        <MilledBoards lengths={lengths[i]} log={logs[i]} />
+                    ) : (
+                        <MillLog
+                            log={logs[i]}
+                            cuts={logCuts}
+                            lengths={lengths[i]}
+                            activeCut={activeCut?.log === i ? activeCut : null}
+                        />
+                    )}
+                </group>
+            ))}
+
+            {!ripped && (
+                <Chainsaw
+                    position={[0, 1, 2.5]}
+                    onDragStart={() => setOrbitEnabled(false)}
+                    onDragEnd={() => { setOrbitEnabled(true); setSawAt(null); }}
+                    onCut={handleCut}
+                />
+            )}
+
+            <Html position={[0, 3.2, -MILL_LOG_SPACING]} center>
+                <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-72">
+                    <div className="font-bold text-amber-800 text-center">Cut list 料单 {sawAt !== null && <span className="text-slate-500 font-normal">· saw at {mm(sawAt)}</span>}</div>
+                    <ul className="space-y-0.5">
+                        {cutList.map((item, i) => (
+                            <li key={item.label} className="flex justify-between gap-2">
+                                <span>{check.filled[i] >= item.count ? '✅' : '⬜'} {item.label}</span>
+                                <span className="text-slate-500 whitespace-nowrap">{mm(item.length)} · {Math.min(check.filled[i], item.count)}/{item.count}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex justify-between text-slate-500">
+                        <span>{boards.length} boards · kerf {mm(KERF)}</span>
+                        <span>Yield <b className="text-slate-700">{Math.round(yieldRatio * 100)}%</b></span>
+                    </div>
+                    <div className="flex gap-2 justify-center">
+                        <button
+                            onClick={() => { setCuts(cuts.map(() => [])); setActiveCut(null); }}
+                            disabled={ripped}
+                            className="px-2 py-1 rounded-lg bg-slate-100 border border-slate-300 hover:bg-amber-100 font-bold disabled:opacity-40"
+                        >
+                            Clear cuts
+                        </button>
+                        <button
+                            onClick={handleRip}
+                            disabled={!check.satisfied || ripped}
+                            className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:hover:bg-amber-500"
+                        >
+                            🪚 Rip along the ink lines
+                        </button>
+                    </div>
+                    {!check.satisfied && !ripped && (
+                        <>
+                            <div className="text-slate-500 text-center">Not enough boards yet. Crosscut the logs another way, or rip them and fell more trees.</div>
+                            <button
+                                onClick={handleRip}
+                                className="px-3 py-1 rounded-lg bg-slate-100 border border-slate-300 hover:bg-amber-100 font-bold"
+                            >
+                                🌲 Rip what's here, then fell more
+                            </button>
+                        </>
+                    )}
+                </div>
+            </Html>
+        </group>
+    );
+}
+
+// A felled log lying along X, butt end at -X, with its ink line and any crosscuts
+const MillLog: React.FC<{log: LogItem, cuts: number[], lengths: number[], activeCut: { at: number, progress: number } | null}> = ({log, cuts, lengths, activeCut}) => {
+    const { species, length: logLength } = log;
+    const radius = log.diameter / 2;
+    const bounds = [0, ...cuts, logLength];
+    return (
+        <group position={[-logLength / 2, MILL_LOG_Y, 0]}>
+            <mesh position={[logLength / 2, 0, 0]} rotation={[0, 0, Math.PI / 2]} castShadow receiveShadow>
+                <cylinderGeometry args={[radius, radius * 0.85, logLength, 16]} />
+                <meshStandardMaterial color="#5d4037" roughness={0.9} />
+            </mesh>
+            {/* End grain */}
+            <mesh position={[-0.001, 0, 0]} rotation={[0, -Math.PI / 2, 0]}>
+                <circleGeometry args={[radius, 24]} />
+                <meshStandardMaterial map={treeRingTexture(species)} color="#d7ccc8" roughness={0.8} />
+            </mesh>
+            {/* Ink line along the top */}
+            <mesh position={[logLength / 2, radius * 0.93, 0]}>
+                <boxGeometry args={[logLength, 0.005, 0.02]} />
+                <meshBasicMaterial color="#111" />
+            </mesh>
+
+            {cuts.map((at, i) => (
+                <mesh key={i} position={[at, 0, 0]} rotation={[0, 0, Math.PI / 2]}>
+                    <cylinderGeometry args={[radius * 1.01, radius * 1.01, KERF, 16]} />
+                    <meshStandardMaterial color="#d7ccc8" map={treeRingTexture(species)} roughness={0.8} />
+                </mesh>
+            ))}
+
+            {activeCut && (
+                <mesh position={[activeCut.at, 0, 0]} rotation={[0, Math.PI / 2, 0]}>
+                    <ringGeometry args={[radius + 0.05, radius + 0.1, 32, 1, 0, (activeCut.progress / 100) * Math.PI * 2]} />
+                    <meshBasicMaterial color="#ef4444" toneMapped={false} side={THREE.DoubleSide} />
+                </mesh>
+            )}
+
+            {/* Tape readout for each length */}
+            {lengths.map((length, i) => (
+                <Html key={i} position={[(bounds[i] + bounds[i + 1]) / 2, radius + 0.25, 0]} center>
+                    <div className="bg-yellow-300/90 text-slate-800 px-1.5 py-0.5 rounded text-[10px] font-bold whitespace-nowrap shadow pointer-events-none">
+                        {mm(length)}
+                    </div>
+                </Html>
+            ))}
+        </group>
+    );
+};
+
+// The ripped boards, stacked where the log was
+const MilledBoards: React.FC<{lengths: number[], log: LogItem}> = ({lengths, log}) => {
+    const count = ripCount(log);
+    let start = -log.length / 2;
+    return (
+        <group position={[0, MILL_LOG_Y - 0.1, 0]}>
+            {lengths.map((length, i) => {
+                const x = start + length / 2;
+                start += length + KERF * 2;
+                return Array.from({ length: count }, (_, j) => (
+                    <mesh key={`${i}-${j}`} position={[x, j * 0.14, (j - (count - 1) / 2) * 0.1]} castShadow receiveShadow>
+                        <boxGeometry args={[length, 0.12, log.diameter * 0.75]} />
+                        <meshStandardMaterial color={SPECIES[log.species].palette.light} roughness={0.7} />
+                        <Edges threshold={20} color={COLOR_EDGES} opacity={0.3} />
+                    </mesh>
+                ));
+            })}
+        </group>
+    );
+};
+
+// Sized so a log of `logRadius` rests on the top bar
+const Sawhorse: React.FC<{position: [number, number, number], logRadius: number}> = ({position, logRadius}) => (
+    <group position={position}>
+        <mesh position={[0, MILL_LOG_Y - logRadius - 0.05, 0]} castShadow>
+            <boxGeometry args={[0.15, 0.1, 1.0]} />
+            <meshStandardMaterial color="#92400e" roughness={0.8} />
+        </mesh>
+        {[-0.35, 0.35].map(z => (
+            <mesh key={z} position={[0, (MILL_LOG_Y - logRadius) / 2 - 0.05, z]} rotation={[z > 0 ? 0.2 : -0.2, 0, 0]} castShadow>
+                <boxGeometry args={[0.1, MILL_LOG_Y - logRadius, 0.1]} />
+                <meshStandardMaterial color="#78350f" roughness={0.8} />
+            </mesh>
+        ))}
+    </group>
+);
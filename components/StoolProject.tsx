@@ -0,0 +1,573 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import { useSpring, config } from '@react-spring/three';
+import * as THREE from 'three';
+import { GamePhase } from '../types';
+import { Clamp, Mallet, HandSaw, SlidingBevel } from './Tools';
+import { RouterTool } from './RouterTool';
+import { AnimatedGroup, HAMMER_TAPS_REQUIRED, PENCIL_COLOR, mm } from './shared';
+import { grainGeometry, GrainMaterials } from './WoodGrain';
+import { SawdustSystem } from './Particles';
+import { FinishFace, FinishingStation, FinishSurface } from './FinishingStation';
+import { gradeBoard, withBoardAccuracy } from '../accuracy';
+import { DrillLean, VERTICAL, KERF_STROKE, WEDGE_BLOWS, targetLean, boreDirection, leanError, jointTightness } from '../splay';
+import { BoredHole, DEPTH_STOP_STEP, MAX_DEPTH, PLUNGE_RATE, throughLength, boredHole, legShortfall } from '../drillDepth';
+import { FinishPanel, roundPanel } from '../finishing';
+import { WoodSpecies, SPECIES, cutSpeed } from '../species';
+
+// Level 2: bore splayed leg holes through a round seat, drive the legs home
+// and wedge their through-tenons, then sand and finish the seat.
+
+const STOOL_SEAT_RADIUS = 1.2;
+const STOOL_SEAT_THICK = 0.3;
+const LEG_RADIUS = 0.12; 
+const HOLE_RADIUS = 0.13;
+const LEG_HEIGHT = 3.5; 
+const LEG_POSITIONS = [
+    { x: 0.6, z: 0.6 },
+    { x: -0.6, z: 0.6 },
+    { x: 0.6, z: -0.6 },
+    { x: -0.6, z: -0.6 },
+];
+const DRILL_CAPTURE_RADIUS = 0.25;
+// Through-tenons: each leg's tenon runs up through the seat and stands just proud of its top
+const TENON_RADIUS = HOLE_RADIUS - 0.005;
+const TENON_PROUD = 0.04;
+const LEGS_HOME_Y = -0.05;  // Seat-local height of the legs once driven home
+const LEG_SHOULDER = -0.1;  // Leg-local height of the shoulder, which bears on the seat's underside
+const TENON_TOP = STOOL_SEAT_THICK / 2 + TENON_PROUD - LEGS_HOME_Y; // Leg-local
+const TENON_LENGTH = TENON_TOP - LEG_SHOULDER;
+const HAMMER_TRAVEL = 0.45; // The legs slide in freely until they are this far from home, then need the mallet
+const BLOWOUT_REACH = 0.09; // How far the fibres tear out around a blown-out exit
+const KERF_DEPTH = 0.2;
+const WEDGE_PROUD = 0.1;    // How far an undriven wedge stands out of its kerf
+const SAW_UPRIGHT = 0.05;   // Radians the saw may lean and still cut a straight kerf
+const SIGHTLINE_REACH = 1.5; // Sightlines run from the centre to this far past each mark, as a share of its distance
+const BEVEL_OFFSET = 0.35;   // Beside the mark, square to its sightline
+
+// Marks are drawn on the upturned seat, where a leg at (x, z) sits at (x, -z)
+const legTargetLean = (leg: { x: number, z: number }) => targetLean(leg.x, -leg.z);
+const meanSplayError = (leans: DrillLean[]) =>
+    LEG_POSITIONS.reduce((sum, leg, i) => sum + leanError(leans[i], legTargetLean(leg)), 0) / LEG_POSITIONS.length;
+
+export function StoolProject({ phase, progress, setProgress, onPhaseComplete, setOrbitEnabled, sawdustRef, species, savedState, accuracy, finish, onStateChange }: any) {
+    const palette = SPECIES[species as WoodSpecies].palette;
+    // Harder wood takes longer to bore through
+    const plungeRate = PLUNGE_RATE * cutSpeed(species);
+    // The seat is sawn from a board: grain along X, top and bottom are the wide faces
+    const seatGeometry = useMemo(() => grainGeometry(new THREE.CylinderGeometry(STOOL_SEAT_RADIUS, STOOL_SEAT_RADIUS, STOOL_SEAT_THICK, 32), 0, 1), []);
+    const [holesDrilled, setHolesDrilled] = useState<boolean[]>(() => savedState?.holesDrilled ?? [false, false, false, false]);
+    const [holeErrors, setHoleErrors] = useState<number[]>(() => savedState?.holeErrors ?? [0, 0, 0, 0]);
+    const [holeLeans, setHoleLeans] = useState<DrillLean[]>(() => savedState?.holeLeans ?? LEG_POSITIONS.map(() => VERTICAL));
+    // Holes restored from before they had a depth were bored right through
+    const [holeDepths, setHoleDepths] = useState<number[]>(() =>
+        savedState?.holeDepths ?? holeLeans.map(lean => throughLength(STOOL_SEAT_THICK, lean.angle)));
+    const [depthStop, setDepthStop] = useState(MAX_DEPTH);
+    const [drillTip, setDrillTip] = useState<string | null>(null);
+    // The plunge in progress: the mark it is over (-1 if none) and where the bit went in
+    const bore = useRef<{ hole: number, x: number, z: number, lean: DrillLean } | null>(null);
+    const [boring, setBoring] = useState(false);
+    const drillingDone = useRef(false);
+    // A game restored from WEDGING on starts with the legs already driven home,
+    // and from SANDING on with the wedges in too
+    const legsHome = [GamePhase.WEDGING, GamePhase.SANDING, GamePhase.FINISHING, GamePhase.SUCCESS].includes(phase);
+    const wedgedIn = [GamePhase.SANDING, GamePhase.FINISHING, GamePhase.SUCCESS].includes(phase);
+    const [legsState, setLegsState] = useState<'hidden' | 'dragging' | 'hammering' | 'done'>(legsHome ? 'done' : 'hidden');
+    const [hammerTaps, setHammerTaps] = useState(0);
+    const legsRef = useRef<THREE.Group>(null);
+    // Kerf sawn and wedge driven in each tenon end, 0-1
+    const [kerfs, setKerfs] = useState<number[]>(() => LEG_POSITIONS.map(() => (wedgedIn ? 1 : 0)));
+    const [wedges, setWedges] = useState<number[]>(() => LEG_POSITIONS.map(() => (wedgedIn ? 1 : 0)));
+    const [wedgeTip, setWedgeTip] = useState<string | null>(null);
+    const [finishPanels, setFinishPanels] = useState<FinishPanel[]>(() => savedState?.finishPanels ?? [roundPanel()]);
+
+    // Each leg leans the way its hole was bored. The holes were bored with the
+    // seat upside down, so a bore direction (x, y, z) on the bench is
+    // (x, -y, -z) in the seat's space, and the leg points back out along it.
+    const legQuaternions = useMemo(() => holeLeans.map(lean => {
+        const [x, y, z] = boreDirection(lean);
+        return new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, -1, 0), new THREE.Vector3(-x, y, z));
+    }), [holeLeans]);
+    // A hole stopped short holds its tenon off, and with it all the legs
+    const holes: BoredHole[] = holeDepths.map((depth, i) => boredHole(depth, STOOL_SEAT_THICK, holeLeans[i].angle));
+    const holeDepthY = (i: number) => Math.min(STOOL_SEAT_THICK, holeDepths[i] * Math.cos(holeLeans[i].angle));
+    const legsHomeY = LEGS_HOME_Y - Math.max(...holes.map((hole, i) => legShortfall(holeDepths[i], hole.through, TENON_LENGTH)));
+    // Splayed legs stand a little lower than straight ones
+    const standY = -legsHomeY - LEG_SHOULDER + LEG_HEIGHT * holeLeans.reduce((sum, l) => sum + Math.cos(l.angle), 0) / holeLeans.length;
+    const tenonEnds = LEG_POSITIONS.map((pos, i) =>
+        new THREE.Vector3(0, TENON_TOP, 0).applyQuaternion(legQuaternions[i]).add(new THREE.Vector3(pos.x, legsHomeY, pos.z)));
+    const tenonTopY = standY + STOOL_SEAT_THICK / 2 + TENON_PROUD + legsHomeY - LEGS_HOME_Y;
+    const seatFace: FinishFace = {
+        position: [0, standY + STOOL_SEAT_THICK / 2 + 0.002, 0], rotation: [-Math.PI / 2, 0, 0],
+        width: STOOL_SEAT_RADIUS * 2, height: STOOL_SEAT_RADIUS * 2, vertical: false, round: true,
+    };
+
+    const { stoolRotation, stoolY } = useSpring({
+        stoolRotation: legsHome ? [0, 0, 0] : [Math.PI, 0, 0],
+        stoolY: legsHome ? standY : STOOL_SEAT_THICK / 2, 
+        config: { mass: 2, tension: 120, friction: 24 }
+    });
+
+    const handleClampClick = () => {
+        if (phase === GamePhase.CLAMPING) {
+            setProgress(1);
+            setTimeout(onPhaseComplete, 600);
+        }
+    };
+
+    // The first frame of a plunge settles which mark it is boring. A hole
+    // already bored can be plunged again to take it deeper.
+    const handleDrill = (toolX: number, toolZ: number, lean: DrillLean) => {
+        if (phase !== GamePhase.CUTTING || bore.current || drillingDone.current) return;
+        const hole = LEG_POSITIONS.findIndex(leg => Math.hypot(toolX - leg.x, toolZ + leg.z) < DRILL_CAPTURE_RADIUS);
+        bore.current = { hole, x: toolX, z: toolZ, lean };
+        setBoring(true);
+        setDrillTip(hole < 0 ? "Plunge over a mark, or back into a hole to bore it deeper." : null);
+    };
+
+    const finishDrilling = (errors: number[], leans: DrillLean[], depths: number[]) => {
+        if (drillingDone.current) return;
+        drillingDone.current = true;
+        const bored = depths.map((d, i) => boredHole(d, STOOL_SEAT_THICK, leans[i].angle));
+        onStateChange?.({ accuracy: withBoardAccuracy(accuracy, gradeBoard({
+            board: "Seat",
+            holeError: errors.reduce((sum, e) => sum + e, 0) / errors.length,
+            splayError: meanSplayError(leans),
+            depthError: bored.reduce((sum, b) => sum + b.error, 0) / bored.length,
+            blowouts: bored.filter(b => b.blowout).length,
+        })) });
+        setTimeout(onPhaseComplete, 800);
+    };
+
+    const handleRetract = (depth: number) => {
+        const plunge = bore.current;
+        bore.current = null;
+        setBoring(false);
+        if (phase !== GamePhase.CUTTING || !plunge || plunge.hole < 0) return;
+
+        // Back in a bored hole the bit follows it, so only the depth can change
+        const idx = plunge.hole;
+        const leg = LEG_POSITIONS[idx];
+        const again = holesDrilled[idx];
+        const newHoles = holesDrilled.map((h, i) => h || i === idx);
+        const newErrors = again ? holeErrors : holeErrors.map((e, i) => (i === idx ? Math.hypot(plunge.x - leg.x, plunge.z + leg.z) : e));
+        const newLeans = again ? holeLeans : holeLeans.map((l, i) => (i === idx ? plunge.lean : l));
+        const newDepths = holeDepths.map((d, i) => (i === idx ? (again ? Math.max(d, depth) : depth) : d));
+        const hole = boredHole(newDepths[idx], STOOL_SEAT_THICK, newLeans[idx].angle);
+        sawdustRef.current?.spawnBurst(new THREE.Vector3(plunge.x, 0.3, plunge.z), species);
+        if (hole.blowout) {
+            sawdustRef.current?.spawnBurst(new THREE.Vector3(plunge.x, 0, plunge.z), species);
+            setDrillTip("The bit tore out the far face! Set the collar to stop as it breaks through.");
+        } else if (!hole.through) {
+            setDrillTip("That hole stops short of the far face, so its tenon won't come through. Set the collar deeper and plunge it again.");
+        }
+        setHolesDrilled(newHoles);
+        setHoleErrors(newErrors);
+        setHoleLeans(newLeans);
+        setHoleDepths(newDepths);
+
+        // Short holes may still be taken deeper, so only a full set of
+        // through holes ends the drilling by itself
+        const bored = newDepths.map((d, i) => boredHole(d, STOOL_SEAT_THICK, newLeans[i].angle));
+        if (newHoles.every(h => h) && bored.every(b => b.through)) finishDrilling(newErrors, newLeans, newDepths);
+    };
+
+    useEffect(() => {
+        if (phase === GamePhase.CUTTING) drillingDone.current = false;
+    }, [phase]);
+
+    // Sanding and finishing are saved at the end of each stroke (see FinishingStation)
+    const saveStool = () => {
+        onStateChange?.({ stool: { holesDrilled, holeErrors, holeLeans, holeDepths, finishPanels } });
+    };
+    useEffect(() => {
+        saveStool();
+    }, [holesDrilled, holeErrors, holeLeans, holeDepths]);
+
+    // The kerf runs along Z, across the seat's grain, so the wedge spreads the
+    // tenon without splitting the seat
+    const handleKerfStroke = (x: number, z: number, tilt: number) => {
+        const i = tenonEnds.findIndex(end => Math.abs(x - end.x) < TENON_RADIUS / 2 && Math.abs(z - end.z) < TENON_RADIUS * 3);
+        if (i < 0) {
+            setWedgeTip("Line the saw up across the middle of a tenon end.");
+            return;
+        }
+        if (!holes[i].through) {
+            setWedgeTip(`Leg ${i + 1}'s hole stops short, so its tenon never came through to be wedged.`);
+            return;
+        }
+        if (Math.abs(tilt) > SAW_UPRIGHT) {
+            setWedgeTip("Hold the saw upright (scroll or Q/E) so the kerf runs straight down the tenon.");
+            return;
+        }
+        if (kerfs[i] >= 1) {
+            setWedgeTip("That kerf is deep enough. Drive a wedge in with the Mallet!");
+            return;
+        }
+        setWedgeTip(null);
+        setKerfs(prev => prev.map((k, j) => (j === i ? Math.min(1, k + KERF_STROKE) : k)));
+        sawdustRef.current?.spawnBurst(new THREE.Vector3(tenonEnds[i].x, tenonTopY, tenonEnds[i].z), species);
+    };
+
+    // Wedges go in one at a time, into the first kerf that is sawn. Tenons
+    // left in blind holes can't be wedged, and grip only as well as they fit.
+    const wedging = kerfs.findIndex((k, i) => k >= 1 && wedges[i] < 1);
+    const finishWedging = (driven: number[]) => {
+        const grip = LEG_POSITIONS.reduce((sum, leg, i) => sum + jointTightness(leanError(holeLeans[i], legTargetLean(leg)), driven[i]), 0) / LEG_POSITIONS.length;
+        onStateChange?.({ accuracy: withBoardAccuracy(accuracy, gradeBoard({ board: "Legs", looseness: 1 - grip })) });
+        setTimeout(onPhaseComplete, 600);
+    };
+    const handleWedgeBlow = () => {
+        if (wedging < 0) return;
+        const next = wedges.map((w, i) => (i === wedging ? Math.min(1, w + 1 / WEDGE_BLOWS) : w));
+        setWedges(next);
+        if (next.every((w, i) => w >= 1 || !holes[i].through)) finishWedging(next);
+    };
+
+    useEffect(() => {
+        if (phase === GamePhase.ASSEMBLY) {
+            setLegsState('dragging');
+            setHammerTaps(0);
+        }
+        if (phase === GamePhase.WEDGING) {
+            setKerfs(LEG_POSITIONS.map(() => 0));
+            setWedges(LEG_POSITIONS.map(() => 0));
+            setWedgeTip(null);
+        }
+    }, [phase]);
+
+    // Legs insertion logic
+    const handleLegDrag = (e: any) => {
+        if (legsState !== 'dragging' || !legsRef.current) return;
+        e.stopPropagation();
+        setOrbitEnabled(false);
+        const dragPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0); 
+        const point = new THREE.Vector3();
+        e.ray.intersectPlane(dragPlane, point);
+
+        const worldMaxY = 5.0; 
+        const worldMinY = HAMMER_TRAVEL - legsHomeY;
+        const clampedWorldY = Math.max(worldMinY, Math.min(point.y, worldMaxY));
+        
+        legsRef.current.position.y = -clampedWorldY;
+
+        if (clampedWorldY <= worldMinY + 0.1) {
+            legsRef.current.position.y = -worldMinY; // Lock position
+            setLegsState('hammering');
+            setOrbitEnabled(true);
+        }
+    };
+
+    const handleHammer = () => {
+        if (legsState !== 'hammering' || !legsRef.current) return;
+        const newTaps = hammerTaps + 1;
+        setHammerTaps(newTaps);
+        
+        // World Y targets
+        const endWorldY = -legsHomeY;
+        const startWorldY = endWorldY + HAMMER_TRAVEL;
+        const progress = newTaps / HAMMER_TAPS_REQUIRED;
+        const currentWorldY = startWorldY - ((startWorldY - endWorldY) * progress);
+        
+        legsRef.current.position.y = -currentWorldY; // Inverted local
+
+        if (newTaps >= HAMMER_TAPS_REQUIRED) {
+            setLegsState('done');
+            setTimeout(onPhaseComplete, 600);
+        }
+    };
+
+    const handleDragStart = (e: any) => {
+        if (legsState === 'dragging') {
+             e.stopPropagation();
+             setOrbitEnabled(false);
+             (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+        }
+    };
+    const handleDragEnd = (e: any) => {
+         e.stopPropagation();
+         setOrbitEnabled(true);
+         (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+    };
+    
+    // Hammer position in World Space
+    const hammerPosStool: [number, number, number] = [0, 2.5, 0];
+
+    return (
+        <group>
+            <SawdustSystem ref={sawdustRef} />
+
+            <AnimatedGroup 
+                position-y={stoolY} 
+                rotation={stoolRotation}
+            >
+                {/* SEAT */}
+                <group>
+                     <mesh castShadow receiveShadow geometry={seatGeometry}>
+                         <GrainMaterials species={species} tone="dark" />
+                     </mesh>
+                     
+                     {/* MARKINGS & HOLES on Local -Y face (which is UP when inverted) */}
+                     {LEG_POSITIONS.map((pos, i) => (
+                         <group 
+                            key={i} 
+                            position={[pos.x, -STOOL_SEAT_THICK/2 - 0.001, pos.z]} 
+                            rotation={[Math.PI/2, 0, 0]} // Face -Y
+                        >
+                             
+                             {/* Red Ring Marker */}
+                             {!holesDrilled[i] && phase === GamePhase.CUTTING && (
+                                 <mesh>
+                                     <ringGeometry args={[HOLE_RADIUS, HOLE_RADIUS + 0.03, 32]} />
+                                     <meshBasicMaterial color="red" side={THREE.DoubleSide} toneMapped={false} />
+                                 </mesh>
+                             )}
+
+                             {/* Hole Visual, as deep as it was bored */}
+                             {holesDrilled[i] && (
+                                 <group>
+                                     <mesh position={[0, 0, 0.01]}> 
+                                         <circleGeometry args={[HOLE_RADIUS, 32]} />
+                                         <meshStandardMaterial color="#1a1a1a" roughness={1} />
+                                     </mesh>
+                                     {/* Inner walls simulation */}
+                                     <mesh position={[0, 0, -holeDepthY(i) / 2]} rotation={[Math.PI/2, 0, 0]}>
+                                         <cylinderGeometry args={[HOLE_RADIUS, HOLE_RADIUS, holeDepthY(i), 32, 1, true]} />
+                                         <meshStandardMaterial color="#3f2e20" side={THREE.BackSide} />
+                                     </mesh>
+                                 </group>
+                             )}
+                         </group>
+                     ))}
+
+                     {/* Exits on the far (+Y) face, torn out where the bit was driven on through */}
+                     {LEG_POSITIONS.map((pos, i) => holesDrilled[i] && holes[i].through && (
+                         <group key={`exit-${i}`} position={[pos.x, STOOL_SEAT_THICK/2 + 0.001, pos.z]} rotation={[-Math.PI/2, 0, 0]}>
+                             <mesh>
+                                 <circleGeometry args={[HOLE_RADIUS, 32]} />
+                                 <meshStandardMaterial color="#1a1a1a" roughness={1} />
+                             </mesh>
+                             {holes[i].blowout && [0, 1].map(n => (
+                                 <mesh key={n} position={[0, 0, 0.001 * (n + 1)]} rotation-z={i + n * 0.7}>
+                                     <ringGeometry args={[HOLE_RADIUS, HOLE_RADIUS + BLOWOUT_REACH * (1 - n * 0.3), 5 + n * 2]} />
+                                     <meshStandardMaterial color={palette.light} roughness={1} side={THREE.DoubleSide} />
+                                 </mesh>
+                             ))}
+                         </group>
+                     ))}
+
+                     {/* Sightlines from each mark through the centre: the drill leans along them */}
+                     {phase === GamePhase.CUTTING && LEG_POSITIONS.map((pos, i) => !holesDrilled[i] && (
+                         <mesh
+                            key={`sight-${i}`}
+                            position={[pos.x * SIGHTLINE_REACH / 2, -STOOL_SEAT_THICK/2 - 0.002, pos.z * SIGHTLINE_REACH / 2]}
+                            rotation-y={Math.atan2(-pos.z, pos.x)}
+                         >
+                             <boxGeometry args={[Math.hypot(pos.x, pos.z) * SIGHTLINE_REACH, 0.002, 0.01]} />
+                             <meshBasicMaterial color={PENCIL_COLOR} />
+                         </mesh>
+                     ))}
+                </group>
+
+                {/* LEGS */}
+                {(phase === GamePhase.ASSEMBLY || legsHome) && (
+                    <group 
+                        ref={legsRef} 
+                        position={[0, legsState === 'done' ? legsHomeY : -4, 0]} // Start at World Y=4 (Local -4)
+                        onPointerDown={handleDragStart}
+                        onPointerMove={handleLegDrag}
+                        onPointerUp={handleDragEnd}
+                    >
+                        {LEG_POSITIONS.map((pos, i) => (
+                             <group key={i} position={[pos.x, 0, pos.z]} quaternion={legQuaternions[i]}>
+                                 {/* Leg extending "down" in local space (which is UP in inverted world) */}
+                                 <mesh position={[0, LEG_SHOULDER - LEG_HEIGHT/2, 0]} castShadow receiveShadow>
+                                     <cylinderGeometry args={[LEG_RADIUS, LEG_RADIUS * 0.8, LEG_HEIGHT, 16]} />
+                                     <meshStandardMaterial color={palette.light} roughness={0.6} />
+                                 </mesh>
+                                 {/* Through-tenon, with its kerf and wedge in the end */}
+                                 <mesh position={[0, (LEG_SHOULDER + TENON_TOP) / 2, 0]} castShadow>
+                                     <cylinderGeometry args={[TENON_RADIUS, TENON_RADIUS, TENON_TOP - LEG_SHOULDER, 16]} />
+                                     <meshStandardMaterial color={palette.light} roughness={0.6} />
+                                 </mesh>
+                                 {kerfs[i] > 0 && (
+                                     <mesh position={[0, TENON_TOP - kerfs[i] * KERF_DEPTH / 2 + 0.001, 0]}>
+                                         <boxGeometry args={[0.012, kerfs[i] * KERF_DEPTH, TENON_RADIUS * 2 + 0.002]} />
+                                         <meshBasicMaterial color="#1c1917" />
+                                     </mesh>
+                                 )}
+                                 {kerfs[i] >= 1 && holes[i].through && (
+                                     <mesh position={[0, TENON_TOP - KERF_DEPTH / 2 + (1 - wedges[i]) * WEDGE_PROUD, 0]} castShadow>
+                                         <boxGeometry args={[0.03, KERF_DEPTH, TENON_RADIUS * 2]} />
+                                         <meshStandardMaterial color={palette.dark} roughness={0.6} />
+                                     </mesh>
+                                 )}
+                             </group>
+                        ))}
+                        
+                        {legsState === 'dragging' && (
+                             <mesh position={[0, -1, 0]} visible={false}>
+                                  <boxGeometry args={[4, 4, 4]} /> 
+                             </mesh>
+                        )}
+                    </group>
+                )}
+            </AnimatedGroup>
+
+            {/* --- TOOLS --- */}
+            
+            {phase === GamePhase.CLAMPING && (
+                <Clamp 
+                    position={[1.8, 0, 1.2]} 
+                    isClamped={progress === 1} 
+                    onClick={handleClampClick} 
+                    onPointerOver={() => {}} onPointerOut={() => {}}
+                />
+            )}
+
+            {/* A bevel set to the splay stands beside each mark still to drill */}
+            {phase === GamePhase.CUTTING && LEG_POSITIONS.map((pos, i) => {
+                if (holesDrilled[i]) return null;
+                const target = legTargetLean(pos);
+                const out = Math.atan2(-pos.z, pos.x);
+                return (
+                    <SlidingBevel
+                        key={i}
+                        position={[pos.x - Math.sin(out) * BEVEL_OFFSET, STOOL_SEAT_THICK, -pos.z - Math.cos(out) * BEVEL_OFFSET]}
+                        heading={target.heading}
+                        angle={target.angle}
+                    />
+                );
+            })}
+
+            {phase === GamePhase.WEDGING && (
+                <>
+                    <HandSaw
+                        workY={tenonTopY}
+                        zRanges={tenonEnds.map(end => [end.z - TENON_RADIUS, end.z + TENON_RADIUS] as [number, number])}
+                        boardHalfWidth={STOOL_SEAT_RADIUS}
+                        onStroke={handleKerfStroke}
+                        onDragStart={() => setOrbitEnabled(false)}
+                        onDragEnd={() => setOrbitEnabled(true)}
+                    />
+                    {wedging >= 0 && (
+                        <Mallet
+                            position={[tenonEnds[wedging].x - 1.4, tenonTopY + 0.5, tenonEnds[wedging].z]}
+                            rotation={[0, 0, -Math.PI/2]}
+                            onClick={handleWedgeBlow}
+                            onDragStart={() => setOrbitEnabled(false)}
+                            onDragEnd={() => setOrbitEnabled(true)}
+                        />
+                    )}
+                    <Html position={[-STOOL_SEAT_RADIUS - 1.4, tenonTopY + 0.5, 0]} center>
+                        <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                            <div className="font-bold text-amber-800">Wedged tenons 楔</div>
+                            <div>Saw a kerf down each tenon end, then drive a wedge into it with the Mallet.</div>
+                            {LEG_POSITIONS.map((_, i) => (
+                                <div key={i}>
+                                    Leg {i + 1}: {holes[i].through
+                                        ? <>kerf <b>{Math.round(kerfs[i] * 100)}%</b> · wedge <b>{Math.round(wedges[i] * 100)}%</b></>
+                                        : <b>blind hole, can't be wedged</b>}
+                                </div>
+                            ))}
+                            {wedgeTip && <div className="text-red-600 font-bold">{wedgeTip}</div>}
+                            {!holes.some(h => h.through) && (
+                                <button
+                                    className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold"
+                                    onClick={() => finishWedging(wedges)}
+                                >
+                                    Leave the legs unwedged
+                                </button>
+                            )}
+                        </div>
+                    </Html>
+                </>
+            )}
+
+            {(phase === GamePhase.SANDING || phase === GamePhase.FINISHING) && (
+                <FinishingStation
+                    faces={[seatFace]}
+                    panels={finishPanels}
+                    onChange={setFinishPanels}
+                    finishing={phase === GamePhase.FINISHING}
+                    finish={finish}
+                    onFinishChange={(kind) => onStateChange?.({ finish: kind })}
+                    panelPosition={[-STOOL_SEAT_RADIUS - 1.4, seatFace.position[1] + 0.5, 0]}
+                    setOrbitEnabled={setOrbitEnabled}
+                    onStrokeEnd={saveStool}
+                    onDone={(report) => {
+                        const entry = phase === GamePhase.SANDING
+                            ? gradeBoard({ board: "Sanding", roughness: report.roughness })
+                            : gradeBoard({ board: "Finish", missedFinish: report.missed, runs: report.runs });
+                        onStateChange?.({ accuracy: withBoardAccuracy(accuracy, entry) });
+                        setTimeout(onPhaseComplete, 600);
+                    }}
+                />
+            )}
+            {phase === GamePhase.SUCCESS && finish && (
+                <FinishSurface face={seatFace} panel={finishPanels[0]} finish={finish} />
+            )}
+
+            {phase === GamePhase.CUTTING && (
+                <RouterTool 
+                    phase={phase}
+                    variant="drill"
+                    onCut={handleDrill} 
+                    onRetract={handleRetract}
+                    depthStop={depthStop}
+                    plungeRate={plungeRate}
+                    zBackPosition={0} 
+                    onInteractionStart={() => setOrbitEnabled(false)}
+                    onInteractionEnd={() => setOrbitEnabled(true)}
+                />
+            )}
+
+            {phase === GamePhase.CUTTING && (
+                <Html position={[-STOOL_SEAT_RADIUS - 1.4, 0.8, 0]} center>
+                    <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-2 w-56">
+                        <div className="font-bold text-amber-800">Depth stop 限深</div>
+                        <div>Hold <b>Space</b> to plunge the drill; let go to back it out. The collar on the bit stops it at the depth you set.</div>
+                        <div>The seat is <b>{(STOOL_SEAT_THICK * 100).toFixed(0)} mm</b> thick, a little further for a leaning bit.</div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                                disabled={boring || depthStop <= DEPTH_STOP_STEP}
+                                onClick={() => setDepthStop(d => Math.max(DEPTH_STOP_STEP, d - DEPTH_STOP_STEP))}
+                            >
+                                −
+                            </button>
+                            <span className="flex-1 text-center font-mono font-bold">{(depthStop * 100).toFixed(0)} mm</span>
+                            <button
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                                disabled={boring || depthStop >= MAX_DEPTH}
+                                onClick={() => setDepthStop(d => Math.min(MAX_DEPTH, d + DEPTH_STOP_STEP))}
+                            >
+                                +
+                            </button>
+                        </div>
+                        {drillTip && <div className="text-red-600 font-bold">{drillTip}</div>}
+                        {holesDrilled.every(h => h) && (
+                            <button
+                                className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                                disabled={boring}
+                                onClick={() => finishDrilling(holeErrors, holeLeans, holeDepths)}
+                            >
+                                Leave the short holes blind
+                            </button>
+                        )}
+                    </div>
+                </Html>
+            )}
+
+            {legsState === 'hammering' && (
+                <Mallet 
+                    position={hammerPosStool}
+                    rotation={[0, 0, -Math.PI/2]}
+                    onClick={handleHammer}
+                    onDragStart={() => setOrbitEnabled(false)}
+                    onDragEnd={() => setOrbitEnabled(true)}
+                />
+            )}
+        </group>
+    );
+}
@@ -0,0 +1,645 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useCursor, Html, Decal } from '@react-three/drei';
+import { useSpring, config } from '@react-spring/three';
+import * as THREE from 'three';
+import '../types';
+import { Chainsaw, InkLine } from './Tools';
+import { AnimatedGroup } from './shared';
+import { treeRingTexture } from './WoodGrain';
+import { SawdustSystem, SawdustSystemHandle } from './Particles';
+import { TimberChoice } from '../levels';
+import { LogItem } from '../inventory';
+import { WoodSpecies, CrownShape, SPECIES, cutSpeed } from '../species';
+import { SawTilt, FellingCut, Hazard, HAZARD_RADIUS, freshFelling, notchAngle, sawFelling, hazardInPath } from '../felling';
+import { ForestState, TREES_PER_HARVEST, newForest, growForest, fellTree, plantSapling, countStage, forestHealth, isUntouched } from '../forest';
+import { Woodland, generateWoodland, terrainHeight, seedFromText } from '../woodland';
+
+// The forest: pick a species, fell trees away from hazards, snap ink lines
+// and buck the logs, and replant the stumps.
+
+type InkLineMark = [THREE.Vector3, THREE.Vector3];
+
+const CROWN_REACH = 2;       // How far past the trunk a falling crown reaches
+const INK_SURFACE_Y = 0.5;   // Rough height of the top of a felled log
+const MIN_RIP_LENGTH = 3;    // A rip line has to run most of the way along the log
+
+export function TimberStage({ onPhaseComplete, setOrbitEnabled, sawdustRef, onHarvest, forest, onForestChange, timber, chosenSpecies, onSpeciesChosen }: { onPhaseComplete: () => void, setOrbitEnabled: (enabled: boolean) => void, sawdustRef: React.RefObject<SawdustSystemHandle>, onHarvest?: (log: LogItem) => void, forest: ForestState, onForestChange?: (forest: ForestState) => void, timber?: TimberChoice, chosenSpecies?: WoodSpecies, onSpeciesChosen?: (species: WoodSpecies) => void }) {
+    // Projects that care about their wood have the player identify it first;
+    // the saw only comes out once a species is picked
+    const [chosen, setChosen] = useState<WoodSpecies | undefined>(timber ? chosenSpecies : undefined);
+    const [inspecting, setInspecting] = useState<number | null>(null);
+    const choosing = !!timber && !chosen;
+    // Trees felled on this visit, in order: they stay on the ground as logs for inking
+    const [felled, setFelled] = useState<number[]>([]);
+    const [felling, setFelling] = useState<Record<number, FellingCut>>({});
+    const [fellTip, setFellTip] = useState<{text: string, failed: boolean, pos: [number, number, number]} | null>(null);
+    const [fallRotation, setFallRotation] = useState<Record<number, number>>({});
+    const [saplingWarning, setSaplingWarning] = useState<{show: boolean, pos: [number, number, number]}>({show: false, pos: [0,0,0]});
+    // Once enough trees are down, each log gets a rip line snapped along it
+    const [inking, setInking] = useState(false);
+    const [inkLines, setInkLines] = useState<Record<number, InkLineMark[]>>({});
+    const [inkWarning, setInkWarning] = useState<string | null>(null);
+    const [seedText, setSeedText] = useState('');
+
+    // Terrain and undergrowth aren't saved; they grow back from the seed
+    const woodland = useMemo(() => generateWoodland(forest.seed), [forest.seed]);
+    const groundY = (x: number, z: number) => terrainHeight(woodland.terrain, x, z);
+    const standing = forest.trees.filter(t => t.stage === 'tree');
+    const harvestable = standing.filter(t => !chosen || t.species === chosen);
+    const saplings = forest.trees.filter(t => t.stage === 'sapling');
+    const health = forestHealth(forest);
+    // A new seed replaces the whole plot, so it is only offered before any work there
+    const reseedable = useMemo(() => isUntouched(forest), [forest]);
+    // Not enough grown trees left: the player has to replant and let time pass.
+    // Seasons pass with finished projects and days away; with nothing to fell
+    // now, the player may wait out the saplings that would unblock them here.
+    const waiting = !inking && !choosing && felled.length + harvestable.length < TREES_PER_HARVEST;
+    const canWait = waiting && saplings.some(t => !chosen || t.species === chosen);
+
+    const handleChoose = (species: WoodSpecies) => {
+        setChosen(species);
+        setInspecting(null);
+        onSpeciesChosen?.(species);
+        if (species === timber?.species) setFellTip({ text: timber.reason, failed: false, pos: [0, 3, 2] });
+    };
+
+    const handleCut = (sawPos: THREE.Vector3, tilt: SawTilt) => {
+        if (felled.length >= TREES_PER_HARVEST) return;
+
+        // Check saplings first
+        let hittingSapling = false;
+        for (const sapling of saplings) {
+            const dist = new THREE.Vector2(sawPos.x, sawPos.z).distanceTo(new THREE.Vector2(sapling.x, sapling.z));
+            if (dist < 0.8 && sawPos.y < 1.5) {
+                hittingSapling = true;
+                setSaplingWarning({ show: true, pos: [sapling.x, 2, sapling.z] });
+                break;
+            }
+        }
+        if (!hittingSapling) {
+            setSaplingWarning(prev => prev.show ? { ...prev, show: false } : prev);
+        }
+        if (hittingSapling) return;
+
+        // Check big trees
+        const tree = standing.find(t => new THREE.Vector2(sawPos.x, sawPos.z).distanceTo(new THREE.Vector2(t.x, t.z)) < 1.2);
+        if (!tree || sawPos.y <= 0 || sawPos.y >= 3) return;
+        if (chosen && tree.species !== chosen) {
+            const tip = `That's not ${SPECIES[chosen].name}. Look for bark that is ${SPECIES[chosen].clues.bark.toLowerCase()}.`;
+            if (fellTip?.text !== tip) setFellTip({ text: tip, failed: false, pos: [tree.x, 2.5, tree.z] });
+            return;
+        }
+
+        // Which side of the trunk the blade is working on
+        const side = new THREE.Vector2(sawPos.x - tree.x, sawPos.z - tree.z);
+        if (side.length() < 0.05) return;
+        side.normalize();
+
+        const before = felling[tree.id] ?? freshFelling();
+        const { cut, tip } = sawFelling(before, tilt, side.x, side.y, 2 * cutSpeed(tree.species));
+        const tipPos: [number, number, number] = [tree.x, 2.5, tree.z];
+        if (tip) {
+            if (fellTip?.text !== tip) setFellTip({ text: tip, failed: false, pos: tipPos });
+            return;
+        }
+        if (fellTip && !fellTip.failed) setFellTip(null);
+        if (Math.random() > 0.8) {
+            sawdustRef.current?.spawnBurst(new THREE.Vector3(tree.x + side.x * tree.radius, 0.5, tree.z + side.y * tree.radius), tree.species);
+        }
+        if (cut.backCut < 100) {
+            setFelling({ ...felling, [tree.id]: cut });
+            return;
+        }
+
+        // Only the hinge is left: the tree goes over toward the notch, unless
+        // that would drop it on something that must not be hit
+        const angle = notchAngle(cut)!;
+        if (hazardInPath(tree.x, tree.z, angle, tree.height + CROWN_REACH, saplings)) {
+            setFelling({ ...felling, [tree.id]: freshFelling() });
+            setFellTip({ text: "It would have fallen on the saplings! Cut a new notch facing a clear space.", failed: true, pos: tipPos });
+            return;
+        }
+        setFellTip(null);
+        setFelling({ ...felling, [tree.id]: cut });
+        setFallRotation({ ...fallRotation, [tree.id]: angle });
+        const nextFelled = [...felled, tree.id];
+        setFelled(nextFelled);
+        onForestChange?.(fellTree(forest, tree.id));
+        onHarvest?.({ kind: 'log', species: tree.species, length: tree.height, diameter: tree.radius * 2 });
+        if (nextFelled.length >= TREES_PER_HARVEST) {
+            setTimeout(() => setInking(true), 3500); // Give time for tree to fall
+        }
+    };
+
+    // Which log (if any) an ink line runs along: both ends on top of it, most of its length apart
+    const handleInkSnap = (start: THREE.Vector3, end: THREE.Vector3) => {
+        const id = felled.find(treeId => {
+            const tree = forest.trees.find(t => t.id === treeId)!;
+            const dir = new THREE.Vector3(Math.sin(fallRotation[treeId]), 0, Math.cos(fallRotation[treeId]));
+            const side = new THREE.Vector3(dir.z, 0, -dir.x);
+            const along = (p: THREE.Vector3) => new THREE.Vector3(p.x - tree.x, 0, p.z - tree.z).dot(dir);
+            const across = (p: THREE.Vector3) => Math.abs(new THREE.Vector3(p.x - tree.x, 0, p.z - tree.z).dot(side));
+            const onLog = (p: THREE.Vector3) => across(p) < tree.radius * 0.8 && along(p) > 0 && along(p) < tree.height;
+            return onLog(start) && onLog(end) && Math.abs(along(end) - along(start)) >= MIN_RIP_LENGTH;
+        });
+
+        if (id === undefined) {
+            setInkWarning("Hook and stretch the line along the top of a log!");
+            return;
+        }
+        setInkWarning(null);
+        const next = { ...inkLines, [id]: [...(inkLines[id] ?? []), [start, end] as InkLineMark] };
+        setInkLines(next);
+        if (felled.every(treeId => (next[treeId]?.length ?? 0) > 0)) {
+            setTimeout(onPhaseComplete, 1500);
+        }
+    };
+
+    return (
+        <group>
+             <SawdustSystem ref={sawdustRef} />
+             
+             {/* Ground */}
+             <Ground woodland={woodland} />
+
+             {forest.trees.map(t => {
+                 // Felled on this visit: the log lies where it fell
+                 if (t.stage === 'tree' || felled.includes(t.id)) {
+                     return (
+                         <Tree 
+                            key={t.id} 
+                            position={[t.x, groundY(t.x, t.z), t.z]} 
+                            species={t.species}
+                            radius={t.radius}
+                            height={t.height}
+                            isCut={felled.includes(t.id)} 
+                            felling={felling[t.id]}
+                            onInspect={choosing && t.stage === 'tree' ? () => setInspecting(t.id) : undefined}
+                            hazards={inking ? [] : saplings}
+                            fallRotation={fallRotation[t.id]}
+                            inkLines={inkLines[t.id]}
+                         />
+                     );
+                 }
+                 if (t.stage === 'stump') {
+                     return <Stump key={t.id} position={[t.x, groundY(t.x, t.z), t.z]} species={t.species} radius={t.radius} onPlant={() => onForestChange?.(plantSapling(forest, t.id))} />;
+                 }
+                 return <Sapling key={t.id} position={[t.x, groundY(t.x, t.z), t.z]} />;
+             })}
+
+             {/* Marked hazard zones: no tree may land here */}
+             {!inking && saplings.map(s => (
+                 <mesh key={s.id} position={[s.x, groundY(s.x, s.z) + 0.01, s.z]} rotation={[-Math.PI/2, 0, 0]}>
+                     <ringGeometry args={[HAZARD_RADIUS - 0.08, HAZARD_RADIUS, 32]} />
+                     <meshBasicMaterial color="#ef4444" opacity={0.7} transparent />
+                 </mesh>
+             ))}
+
+             {choosing && inspecting !== null && (() => {
+                 const tree = forest.trees.find(t => t.id === inspecting)!;
+                 return <TreeInspection position={[tree.x, groundY(tree.x, tree.z) + 2.5, tree.z]} species={tree.species} onClose={() => setInspecting(null)} />;
+             })()}
+
+             {fellTip && (
+                 <Html position={fellTip.pos} center>
+                     <div className={`${fellTip.failed ? 'bg-red-600/90 border-red-400' : 'bg-amber-500/90 border-amber-300'} text-white px-3 py-2 rounded-lg text-xs font-bold shadow-xl border w-56 text-center pointer-events-none`}>
+                         {fellTip.failed ? '💥 ' : '🪓 '}{fellTip.text}
+                     </div>
+                 </Html>
+             )}
+
+             {/* Warning Popup */}
+             {saplingWarning.show && (
+                 <Html position={saplingWarning.pos as any} center>
+                     <div className="bg-red-600/90 text-white px-3 py-2 rounded-lg text-sm font-bold whitespace-nowrap shadow-xl border border-red-400 animate-pulse">
+                         🚫 Too small! Not ready for harvest.<br/>
+                         <span className="text-xs font-normal">不能砍伐还没有到砍伐的时间</span>
+                     </div>
+                 </Html>
+             )}
+
+             {/* Forest health */}
+             <Html position={[-5, 4.5, -2]} center>
+                 <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-green-400 text-xs text-slate-700 flex flex-col gap-1 w-56">
+                     <div className="font-bold text-green-800">🌲 Forest health 森林 · {health}%</div>
+                     <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                         <div className={`h-full ${health >= 70 ? 'bg-green-500' : health >= 40 ? 'bg-amber-400' : 'bg-red-500'}`} style={{ width: `${health}%` }} />
+                     </div>
+                     <div className="text-slate-500">
+                         {countStage(forest, 'tree')} trees · {saplings.length} saplings · {countStage(forest, 'stump')} stumps
+                     </div>
+                     {health < 70 && <div className="text-red-600 font-bold">Over-harvested! Click a stump to plant a sapling.</div>}
+                     {waiting && (
+                         <>
+                             <div>Not enough grown trees. Plant saplings{chosen ? ` on the ${SPECIES[chosen].name} stumps` : ''}, then let them grow.</div>
+                             {canWait && (
+                                 <button
+                                     onClick={() => onForestChange?.(growForest(forest))}
+                                     className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold"
+                                 >
+                                     ⏳ Let a season pass
+                                 </button>
+                             )}
+                         </>
+                     )}
+                     {/* Share the seed so a whole class works the same woodland */}
+                     <div className="border-t border-slate-200 pt-1 mt-1 flex flex-col gap-1">
+                         <div className="text-slate-500">Forest seed: <span className="font-mono font-bold text-slate-700">{forest.seed}</span></div>
+                         <div className="flex gap-1">
+                             <input
+                                 value={seedText}
+                                 onChange={(e) => setSeedText(e.target.value)}
+                                 placeholder="Seed or word"
+                                 className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-300 font-mono"
+                             />
+                             <button
+                                 onClick={() => { onForestChange?.(newForest(seedFromText(seedText))); setFelling({}); setFellTip(null); }}
+                                 disabled={!seedText.trim() || !reseedable}
+                                 className="px-3 py-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold disabled:opacity-40"
+                             >
+                                 Grow
+                             </button>
+                         </div>
+                         {!reseedable && <div className="text-slate-400">This forest has been worked, so it stays. Seeds can only grow a forest nobody has cut yet.</div>}
+                     </div>
+                 </div>
+             </Html>
+
+             {inking ? (
+                 <>
+                     <InkLine
+                        position={[0, 0, 2]}
+                        surfaceY={INK_SURFACE_Y}
+                        onSnap={handleInkSnap}
+                        onDragStart={() => setOrbitEnabled(false)}
+                        onDragEnd={() => setOrbitEnabled(true)}
+                     />
+                     <Html position={[0, 3.5, 0]} center>
+                         <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col items-center gap-1 w-72 text-center">
+                             <div className="font-bold text-amber-800">Ink line 墨斗 · {felled.filter(id => inkLines[id]?.length).length}/{felled.length} logs marked</div>
+                             <div>Click the reel to hook the line, drag it along the log, then pull the line up and let go!</div>
+                             {inkWarning && <div className="text-red-600 font-bold">{inkWarning}</div>}
+                         </div>
+                     </Html>
+                 </>
+             ) : choosing ? (
+                 <SpeciesDeck timber={timber!} onChoose={handleChoose} />
+             ) : (
+                 <Chainsaw 
+                    position={[0, 1, 2]} 
+                    onDragStart={() => setOrbitEnabled(false)}
+                    onDragEnd={() => setOrbitEnabled(true)}
+                    onCut={handleCut}
+                 />
+             )}
+        </group>
+    )
+}
+
+// The woodland floor: the seeded heightfield, lighter clearings, and
+// undergrowth scattered over it
+const Ground: React.FC<{woodland: Woodland}> = ({woodland}) => {
+    const { terrain } = woodland;
+    const geometry = useMemo(() => {
+        // Plane rows run -Z to +Z once laid flat, the same order as the heights
+        const geo = new THREE.PlaneGeometry(terrain.size, terrain.size, terrain.resolution - 1, terrain.resolution - 1);
+        geo.rotateX(-Math.PI / 2);
+        terrain.heights.forEach((h, i) => geo.attributes.position.setY(i, h));
+        geo.computeVertexNormals();
+        return geo;
+    }, [terrain]);
+    useEffect(() => () => geometry.dispose(), [geometry]);
+
+    return (
+        <group>
+            <mesh geometry={geometry} position={[0, -0.05, 0]} receiveShadow>
+                <meshStandardMaterial color="#3f6212" roughness={0.9} />
+            </mesh>
+            {woodland.clearings.map((c, i) => (
+                <mesh key={i} position={[c.x, terrainHeight(terrain, c.x, c.z) - 0.04, c.z]} rotation={[-Math.PI/2, 0, 0]} receiveShadow>
+                    <circleGeometry args={[c.radius, 24]} />
+                    <meshStandardMaterial color="#65a30d" roughness={1} />
+                </mesh>
+            ))}
+            {woodland.undergrowth.map((u, i) => {
+                const y = terrainHeight(terrain, u.x, u.z) - 0.05;
+                if (u.kind === 'rock') {
+                    return (
+                        <mesh key={i} position={[u.x, y + 0.1 * u.scale, u.z]} rotation={[u.scale, u.x, 0]} scale={[u.scale * 0.4, u.scale * 0.25, u.scale * 0.35]} castShadow receiveShadow>
+                            <dodecahedronGeometry args={[1, 0]} />
+                            <meshStandardMaterial color="#78716c" roughness={1} flatShading />
+                        </mesh>
+                    );
+                }
+                if (u.kind === 'fern') {
+                    return (
+                        <mesh key={i} position={[u.x, y + 0.2 * u.scale, u.z]} scale={u.scale} castShadow>
+                            <coneGeometry args={[0.35, 0.4, 6]} />
+                            <meshStandardMaterial color="#4d7c0f" roughness={0.9} />
+                        </mesh>
+                    );
+                }
+                return (
+                    <mesh key={i} position={[u.x, y + 0.25 * u.scale, u.z]} scale={[u.scale, u.scale * 0.7, u.scale]} castShadow>
+                        <icosahedronGeometry args={[0.4, 0]} />
+                        <meshStandardMaterial color="#365314" roughness={0.9} flatShading />
+                    </mesh>
+                );
+            })}
+        </group>
+    );
+};
+
+// A tree felled on an earlier visit. Click it to plant a sapling in its place.
+const Stump: React.FC<{position: [number, number, number], species: WoodSpecies, radius: number, onPlant: () => void}> = ({position, species, radius, onPlant}) => {
+    const [hovered, setHover] = useState(false);
+    useCursor(hovered);
+    return (
+        <group
+            position={position}
+            onClick={(e) => { e.stopPropagation(); onPlant(); }}
+            onPointerOver={(e) => { e.stopPropagation(); setHover(true); }}
+            onPointerOut={() => setHover(false)}
+        >
+            <mesh position={[0, 0.2, 0]} castShadow receiveShadow>
+                <cylinderGeometry args={[radius, radius * 1.2, 0.4, 16]} />
+                <meshStandardMaterial color={hovered ? "#5d4037" : "#3e2723"} roughness={0.9} />
+            </mesh>
+            <mesh position={[0, 0.401, 0]} rotation={[-Math.PI/2, 0, 0]}>
+                <circleGeometry args={[radius, 32]} />
+                <meshStandardMaterial map={treeRingTexture(species)} color="#a1887f" roughness={0.8} />
+            </mesh>
+            {hovered && (
+                <Html position={[0, 1, 0]} center>
+                    <div className="bg-green-600/90 text-white px-2 py-1 rounded-lg text-xs font-bold whitespace-nowrap shadow pointer-events-none">
+                        🌱 Plant a sapling
+                    </div>
+                </Html>
+            )}
+        </group>
+    );
+};
+
+const Sapling: React.FC<{position: [number, number, number]}> = ({position}) => {
+    // Sway animation
+    const swayRef = useRef<THREE.Group>(null);
+    useFrame(({clock}) => {
+        if (swayRef.current) {
+            swayRef.current.rotation.z = Math.sin(clock.elapsedTime * 2 + position[0]) * 0.05;
+        }
+    });
+
+    return (
+        <group position={position} ref={swayRef}>
+             <mesh position={[0, 0.4, 0]} castShadow>
+                 <cylinderGeometry args={[0.05, 0.08, 0.8, 6]} />
+                 <meshStandardMaterial color="#5d4037" roughness={0.9} />
+             </mesh>
+             <mesh position={[0, 1.0, 0]} castShadow>
+                 <coneGeometry args={[0.4, 1.2, 8]} />
+                 <meshStandardMaterial color="#65a30d" roughness={0.8} />
+             </mesh>
+             {/* Dirt pile */}
+             <mesh position={[0, 0.02, 0]}>
+                 <circleGeometry args={[0.3, 8]} />
+                 <meshStandardMaterial color="#3e2723" />
+             </mesh>
+        </group>
+    );
+};
+
+// Crown silhouettes, so species can be told apart from a distance
+const Crown: React.FC<{shape: CrownShape, color: string}> = ({shape, color}) => {
+    const material = <meshStandardMaterial color={color} roughness={0.8} flatShading={shape !== 'cone'} />;
+    switch (shape) {
+        case 'cone':
+            return (
+                <group>
+                    <mesh castShadow><coneGeometry args={[2, 4, 8]} />{material}</mesh>
+                    <mesh position={[0, 1.5, 0]} castShadow><coneGeometry args={[1.5, 3, 8]} />{material}</mesh>
+                </group>
+            );
+        case 'round':
+            return <mesh position={[0, 1, 0]} castShadow><icosahedronGeometry args={[2, 1]} />{material}</mesh>;
+        case 'vase':
+            return (
+                <group position={[0, 1.5, 0]}>
+                    <mesh scale={[1.3, 0.9, 1.3]} castShadow><icosahedronGeometry args={[1.8, 1]} />{material}</mesh>
+                    <mesh position={[0, -1.3, 0]} castShadow><coneGeometry args={[1.4, 1.6, 8]} />{material}</mesh>
+                </group>
+            );
+        case 'spreading':
+            return <mesh position={[0, 0.8, 0]} scale={[1.5, 0.55, 1.5]} castShadow><icosahedronGeometry args={[1.8, 1]} />{material}</mesh>;
+    }
+};
+
+// What the player sees up close: bark, leaves and a core sample's end grain,
+// but not the name
+const TreeInspection: React.FC<{position: [number, number, number], species: WoodSpecies, onClose: () => void}> = ({position, species, onClose}) => {
+    const { clues, look } = SPECIES[species];
+    const endGrain = useMemo(() => (treeRingTexture(species).image as HTMLCanvasElement).toDataURL(), [species]);
+    return (
+        <Html position={position} center>
+            <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col gap-1 w-60">
+                <div className="flex items-center">
+                    <span className="font-bold text-amber-800">🔍 Inspect this tree</span>
+                    <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600 font-bold">✕</button>
+                </div>
+                <div className="flex gap-2 items-center">
+                    <div className="w-6 h-6 rounded shrink-0 border border-slate-300" style={{ background: look.bark }} />
+                    <div><span className="font-bold">Bark:</span> {clues.bark}</div>
+                </div>
+                <div className="flex gap-2 items-center">
+                    <div className="w-6 h-6 rounded-full shrink-0 border border-slate-300" style={{ background: look.leaves }} />
+                    <div><span className="font-bold">Leaves:</span> {clues.leaf}</div>
+                </div>
+                <div className="flex gap-2 items-center">
+                    <img src={endGrain} className="w-10 h-10 rounded-full shrink-0 border border-slate-300" />
+                    <div><span className="font-bold">End grain:</span> {clues.endGrain}</div>
+                </div>
+            </div>
+        </Html>
+    );
+};
+
+// A card for every species; the player picks the one the project should be
+// made from. A wrong pick explains itself, and can still be used.
+const SpeciesDeck: React.FC<{timber: TimberChoice, onChoose: (species: WoodSpecies) => void}> = ({timber, onChoose}) => {
+    const [pick, setPick] = useState<WoodSpecies | null>(null);
+    const wrong = pick !== null && pick !== timber.species;
+    return (
+        <Html position={[0, 2.5, 2]} center>
+            <div className="bg-white/90 backdrop-blur px-3 py-2 rounded-xl shadow-xl border border-amber-300 text-xs text-slate-700 flex flex-col items-center gap-2 w-96 text-center">
+                <div className="font-bold text-amber-800">Choose the wood 选木料</div>
+                <div>Click the trees to inspect their bark, leaves and end grain. Which wood suits this project?</div>
+                <div className="flex gap-2">
+                    {(Object.keys(SPECIES) as WoodSpecies[]).map(species => (
+                        <button
+                            key={species}
+                            onClick={() => (species === timber.species ? onChoose(species) : setPick(species))}
+                            className={`w-20 rounded-lg border-2 p-1 flex flex-col items-center gap-1 ${pick === species ? 'border-red-400 bg-red-50' : 'border-amber-300 bg-amber-50 hover:bg-amber-100'}`}
+                        >
+                            <div className="w-full h-6 rounded" style={{ background: SPECIES[species].palette.light }} />
+                            <div className="font-bold">{SPECIES[species].name}</div>
+                            <div className="text-slate-500">{SPECIES[species].nameZh}</div>
+                            <div className="text-[10px] text-slate-400">{SPECIES[species].density} kg/m³</div>
+                        </button>
+                    ))}
+                </div>
+                {wrong && (
+                    <div className="flex flex-col items-center gap-1">
+                        <div className="text-red-600 font-bold">{timber.unsuitable[pick!] ?? `${SPECIES[pick!].name} isn't the best wood for this.`}</div>
+                        <button onClick={() => onChoose(pick!)} className="text-slate-500 underline">Use {SPECIES[pick!].name} anyway</button>
+                    </div>
+                )}
+            </div>
+        </Html>
+    );
+};
+
+const Tree: React.FC<{position: [number, number, number], species: WoodSpecies, radius: number, height: number, isCut: boolean, felling?: FellingCut, onInspect?: () => void, hazards?: Hazard[], fallRotation?: number, inkLines?: InkLineMark[]}> = ({ position, species, radius, height, isCut, felling = freshFelling(), onInspect, hazards = [], fallRotation = 0, inkLines = [] }) => {
+    const look = SPECIES[species].look;
+    const [hovered, setHover] = useState(false);
+    useCursor(hovered && !!onInspect);
+    const progress = (felling.notch + felling.backCut) / 2;
+    const notch = notchAngle(felling);
+    const reach = height + CROWN_REACH;
+    const blocked = notch !== null && !!hazardInPath(position[0], position[2], notch, reach, hazards);
+    const { rotX } = useSpring({
+        rotX: isCut ? Math.PI / 2 + 0.1 : 0, // Fall slightly more than 90 deg to hit ground
+        config: { mass: 10, tension: 40, friction: 20 } 
+    });
+
+    const groupRef = useRef<THREE.Group>(null);
+    useFrame((state) => {
+        if (progress > 0 && !isCut && groupRef.current) {
+             groupRef.current.position.x = Math.sin(state.clock.elapsedTime * 30) * 0.05 * (progress / 100);
+        } else if (groupRef.current) {
+            groupRef.current.position.x = 0;
+        }
+    });
+
+    const trunkRadius = radius;
+    const rootRef = useRef<THREE.Group>(null);
+    const trunkRef = useRef<THREE.Mesh>(null);
+
+    // Ink lines arrive in the stage's space; decals need them on the trunk,
+    // projected down onto its top (local -Z once the tree has fallen)
+    const inkDecals = useMemo(() => {
+        const stage = rootRef.current?.parent;
+        const trunk = trunkRef.current;
+        if (!stage || !trunk) return [];
+        return inkLines.map(([start, end]) => {
+            const s = trunk.worldToLocal(stage.localToWorld(start.clone()));
+            const e = trunk.worldToLocal(stage.localToWorld(end.clone()));
+            return {
+                position: [(s.x + e.x) / 2, (s.y + e.y) / 2, -trunkRadius] as [number, number, number],
+                rotation: [0, Math.PI, Math.atan2(e.x - s.x, e.y - s.y)] as [number, number, number],
+                length: Math.hypot(e.x - s.x, e.y - s.y),
+            };
+        });
+    }, [inkLines]);
+
+    return (
+        <group
+            position={position}
+            ref={rootRef}
+            onClick={onInspect && ((e) => { e.stopPropagation(); onInspect(); })}
+            onPointerOver={onInspect && ((e) => { e.stopPropagation(); setHover(true); })}
+            onPointerOut={onInspect && (() => setHover(false))}
+        >
+            {/* Trunk Stump (stays) */}
+            <mesh position={[0, 0.2, 0]} castShadow receiveShadow>
+                 <cylinderGeometry args={[trunkRadius, trunkRadius * 1.2, 0.4, 16]} />
+                 <meshStandardMaterial color="#3e2723" roughness={0.9} />
+            </mesh>
+            
+            {/* Stump Ring Texture (Visible only when cut) */}
+            {isCut && (
+                <mesh position={[0, 0.401, 0]} rotation={[-Math.PI/2, 0, 0]} receiveShadow>
+                    <circleGeometry args={[trunkRadius, 32]} />
+                    <meshStandardMaterial map={treeRingTexture(species)} color="#d7ccc8" roughness={0.8} />
+                </mesh>
+            )}
+
+            {/* Cutting Indicator / Progress */}
+            {!isCut && (
+                <group position={[0, 0.5, 0]} rotation={[-Math.PI/2, 0, 0]}>
+                    <ringGeometry args={[trunkRadius + 0.1, trunkRadius + 0.15, 32]} />
+                    <meshBasicMaterial color={progress > 0 ? "#fbbf24" : "red"} opacity={0.8} transparent />
+                    {progress > 0 && (
+                        <mesh position={[0,0,-0.01]} rotation={[0,0,0]}>
+                            <ringGeometry args={[trunkRadius + 0.1, trunkRadius + 0.15, 32, 1, 0, (progress/100) * Math.PI * 2]} />
+                            <meshBasicMaterial color="#ef4444" toneMapped={false} />
+                        </mesh>
+                    )}
+                </group>
+            )}
+
+            {/* Felling cuts, facing the way the notch points */}
+            {!isCut && notch !== null && (
+                <group rotation-y={notch}>
+                    {/* Notch (face cut) */}
+                    <mesh position={[0, 0.55, trunkRadius * (1 - 0.3 * felling.notch / 100)]} rotation={[Math.PI / 4, 0, 0]}>
+                        <boxGeometry args={[trunkRadius * 1.4, 0.2, 0.2 * felling.notch / 100 + 0.01]} />
+                        <meshStandardMaterial color="#d7ccc8" map={treeRingTexture(species)} roughness={0.8} />
+                    </mesh>
+                    {/* Back cut, stopping short of the notch to leave the hinge */}
+                    {felling.backCut > 0 && (
+                        <mesh position={[0, 0.6, -trunkRadius * (1 - 0.8 * felling.backCut / 100)]}>
+                            <boxGeometry args={[trunkRadius * 1.8, 0.03, trunkRadius * 1.6 * felling.backCut / 100]} />
+                            <meshBasicMaterial color="#1f1410" />
+                        </mesh>
+                    )}
+                    {/* Where it will land (the arrow is drawn along local -Y, which lies along the fall) */}
+                    {felling.notch >= 100 && (
+                        <group position={[0, 0.03, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+                            <mesh position={[0, -reach / 2, 0]}>
+                                <planeGeometry args={[0.15, reach - 1]} />
+                                <meshBasicMaterial color={blocked ? "#ef4444" : "#22c55e"} opacity={0.7} transparent />
+                            </mesh>
+                            <mesh position={[0, -(reach - 0.3), 0]} rotation={[0, 0, -Math.PI / 2]}>
+                                <circleGeometry args={[0.35, 3]} />
+                                <meshBasicMaterial color={blocked ? "#ef4444" : "#22c55e"} opacity={0.7} transparent />
+                            </mesh>
+                        </group>
+                    )}
+                </group>
+            )}
+
+            {/* Pivot Group for Fall Direction (Y Axis) */}
+            <group rotation-y={fallRotation}>
+                {/* Falling Part (X Axis Animation) */}
+                <AnimatedGroup 
+                    ref={groupRef}
+                    rotation-x={rotX} 
+                    position={[0, 0.2, 0]}
+                >
+                     {/* Cut Surface on Falling Trunk (Bottom) */}
+                     {isCut && (
+                        <mesh position={[0, 0.201, 0]} rotation={[Math.PI/2, 0, 0]}>
+                            <circleGeometry args={[trunkRadius * 0.95, 32]} />
+                            <meshStandardMaterial map={treeRingTexture(species)} color="#d7ccc8" roughness={0.8} />
+                        </mesh>
+                     )}
+
+                     {/* Main Trunk */}
+                     <mesh ref={trunkRef} position={[0, height / 2, 0]} castShadow receiveShadow>
+                         <cylinderGeometry args={[trunkRadius * 0.7, trunkRadius, height, 16]} />
+                         <meshStandardMaterial color={look.bark} emissive={hovered && onInspect ? "#f59e0b" : "#000000"} emissiveIntensity={0.3} roughness={0.9} />
+                         {inkDecals.map((decal, i) => (
+                             <Decal key={i} position={decal.position} rotation={decal.rotation} scale={[0.03, decal.length, trunkRadius]} depthTest>
+                                 <meshBasicMaterial color="#111" polygonOffset polygonOffsetFactor={-10} />
+                             </Decal>
+                         ))}
+                     </mesh>
+                     {/* Leaves */}
+                     <group position={[0, height - 1, 0]}>
+                          <Crown shape={look.crown} color={look.leaves} />
+                     </group>
+                </AnimatedGroup>
+            </group>
+        </group>
+    )
+}
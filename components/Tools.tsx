@@ -1,8 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useSpring, animated, config } from '@react-spring/three';
 import { useThree, useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
 import * as THREE from 'three';
 import '../types';
+import { SawTilt } from '../felling';
 
 interface ClampProps {
   position: [number, number, number];
@@ -250,11 +252,13 @@ const BounceArrow: React.FC<{visible: boolean}> = ({ visible }) => {
     );
 };
 
+const SAW_TILTS: SawTilt[] = ['vertical', 'diagonal', 'horizontal'];
+
 export const Chainsaw: React.FC<{
     position: [number, number, number];
     onDragStart: () => void;
     onDragEnd: () => void;
-    onCut: (pos: THREE.Vector3) => void;
+    onCut: (pos: THREE.Vector3, tilt: SawTilt) => void;
 }> = ({ position, onDragStart, onDragEnd, onCut }) => {
     const groupRef = useRef<THREE.Group>(null);
     const tipRef = useRef<THREE.Group>(null);
@@ -263,6 +267,7 @@ export const Chainsaw: React.FC<{
     const { camera, raycaster } = useThree();
     const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -1);
 
+    const tilt = SAW_TILTS[tiltIndex];
     const targetAngle = -tiltIndex * (Math.PI / 4);
     const { rotationX } = useSpring({
         rotationX: targetAngle,
@@ -294,7 +299,7 @@ export const Chainsaw: React.FC<{
             if (dragging && tipRef.current) {
                 const tipPos = new THREE.Vector3();
                 tipRef.current.getWorldPosition(tipPos);
-                onCut(tipPos);
+                onCut(tipPos, tilt);
             }
         }
     });
@@ -338,7 +343,7 @@ export const Chainsaw: React.FC<{
             if (groupRef.current && tipRef.current) {
                 const tipPos = new THREE.Vector3();
                 tipRef.current.getWorldPosition(tipPos);
-                onCut(tipPos);
+                onCut(tipPos, tilt);
             }
         }
     };
@@ -398,4 +403,608 @@ export const Chainsaw: React.FC<{
             </animated.group>
         </group>
     );
-};
\ No newline at end of file
+};
+interface MarkingToolProps {
+    position: [number, number, number];
+    onPointerDown?: (e: any) => void;
+    onPointerMove?: (e: any) => void;
+    onPointerUp?: (e: any) => void;
+}
+
+// Marking gauge: the fence rides against the end of the board and the pin,
+// `setting` away along the beam, scribes the baseline. Origin is where the
+// fence meets the top face; the beam runs along -Z.
+export const MarkingGauge: React.FC<MarkingToolProps & { setting: number }> = ({ position, setting, onPointerDown, onPointerMove, onPointerUp }) => {
+    const beamLength = setting + 0.35;
+
+    return (
+        <group position={position} onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp}>
+            {/* Fence */}
+            <mesh position={[0, 0, 0.05]} castShadow>
+                <boxGeometry args={[0.6, 0.3, 0.1]} />
+                <meshStandardMaterial color="#a16207" roughness={0.5} />
+            </mesh>
+            {/* Thumbscrew */}
+            <mesh position={[0, 0.2, 0.05]}>
+                <cylinderGeometry args={[0.05, 0.05, 0.1, 12]} />
+                <meshStandardMaterial color="#d4a017" metalness={0.8} roughness={0.3} />
+            </mesh>
+            {/* Beam */}
+            <mesh position={[0, 0.06, 0.35 - beamLength / 2]} castShadow>
+                <boxGeometry args={[0.08, 0.08, beamLength]} />
+                <meshStandardMaterial color="#78350f" roughness={0.5} />
+            </mesh>
+            {/* Scribing pin */}
+            <mesh position={[0, 0.01, -setting]} rotation={[Math.PI, 0, 0]}>
+                <coneGeometry args={[0.015, 0.05, 8]} />
+                <meshStandardMaterial color="#9ca3af" metalness={0.9} roughness={0.2} />
+            </mesh>
+        </group>
+    );
+};
+
+// Dovetail template: a tail-shaped plate held to the end of the board with a
+// flange over the top face. Origin is the tail centre on the bottom edge of the end.
+export const DovetailTemplate: React.FC<MarkingToolProps & { tipWidth: number, rootWidth: number, height: number }> = ({ position, tipWidth, rootWidth, height, onPointerDown, onPointerMove, onPointerUp }) => {
+    const shape = useMemo(() => {
+        const s = new THREE.Shape();
+        s.moveTo(-tipWidth / 2, height);
+        s.lineTo(-rootWidth / 2, 0);
+        s.lineTo(rootWidth / 2, 0);
+        s.lineTo(tipWidth / 2, height);
+        s.lineTo(-tipWidth / 2, height);
+        return s;
+    }, [tipWidth, rootWidth, height]);
+
+    return (
+        <group position={position} onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp}>
+            <mesh>
+                <extrudeGeometry args={[shape, { depth: 0.02, bevelEnabled: false }]} />
+                <meshStandardMaterial color="#f59e0b" transparent opacity={0.55} metalness={0.6} roughness={0.3} />
+            </mesh>
+            {/* Flange over the top face */}
+            <mesh position={[0, height + 0.01, -0.12]} castShadow>
+                <boxGeometry args={[tipWidth + 0.1, 0.02, 0.28]} />
+                <meshStandardMaterial color="#d97706" metalness={0.6} roughness={0.3} />
+            </mesh>
+        </group>
+    );
+};
+
+// Sliding bevel: a stock lying on the work with a blade locked at `angle`
+// from upright, its top leaning away from `heading` (radians from +X toward
+// +Z). A bit lined up with the blade bores at that angle. Origin is the pivot.
+export const SlidingBevel: React.FC<{ position: [number, number, number], heading: number, angle: number }> = ({ position, heading, angle }) => (
+    <group position={position} rotation-y={-heading}>
+        {/* Stock */}
+        <mesh position={[0, 0.03, 0]} castShadow>
+            <boxGeometry args={[0.5, 0.06, 0.05]} />
+            <meshStandardMaterial color="#78350f" roughness={0.5} />
+        </mesh>
+        {/* Blade */}
+        <group position={[0, 0.06, 0]} rotation-z={angle}>
+            <mesh position={[0, 0.4, 0]} castShadow>
+                <boxGeometry args={[0.04, 0.8, 0.01]} />
+                <meshStandardMaterial color="#cbd5e1" metalness={0.8} roughness={0.25} />
+            </mesh>
+        </group>
+        {/* Locking nut */}
+        <mesh position={[0, 0.06, 0.03]} rotation-x={Math.PI / 2}>
+            <cylinderGeometry args={[0.03, 0.03, 0.02, 12]} />
+            <meshStandardMaterial color="#d4a017" metalness={0.8} roughness={0.3} />
+        </mesh>
+    </group>
+);
+
+interface InkLineProps {
+    position: [number, number, number]; // Where the reel starts
+    surfaceY: number;                   // Height of the surface the line is stretched over
+    onSnap: (start: THREE.Vector3, end: THREE.Vector3) => void;
+    onDragStart?: () => void;
+    onDragEnd?: () => void;
+}
+
+// How far the line has to be pulled up before letting go snaps ink onto the wood
+const PLUCK_MIN = 0.15;
+const PLUCK_MAX = 0.6;
+
+// 墨斗 ink line: click the reel to hook the line where it stands, drag the reel
+// away to stretch it, then drag the taut line upward and let go to snap it.
+// Everything is in the parent's space; onSnap gets the two ends of the line.
+export const InkLine: React.FC<InkLineProps> = ({ position, surfaceY, onSnap, onDragStart, onDragEnd }) => {
+    const rootRef = useRef<THREE.Group>(null);
+    const [reel, setReel] = useState(() => new THREE.Vector3(position[0], surfaceY, position[2]));
+    const [hook, setHook] = useState<THREE.Vector3 | null>(null);
+    const [pull, setPull] = useState(0);
+    const drag = useRef<'reel' | 'line' | null>(null);
+    const dragStartPos = useRef(new THREE.Vector2());
+
+    // A line let go without snapping springs back down
+    const { bow } = useSpring({ bow: drag.current === 'line' ? pull : 0, config: config.wobbly });
+
+    const toLocal = (e: any) => {
+        const ray = e.ray.clone().applyMatrix4(rootRef.current!.matrixWorld.clone().invert());
+        const point = new THREE.Vector3();
+        return ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -surfaceY), point) ? point : null;
+    };
+
+    const handleDown = (e: any, target: 'reel' | 'line') => {
+        e.stopPropagation();
+        drag.current = target;
+        dragStartPos.current.set(e.clientX, e.clientY);
+        onDragStart?.();
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+
+    const handleMove = (e: any) => {
+        if (!drag.current) return;
+        e.stopPropagation();
+        if (drag.current === 'reel') {
+            const point = toLocal(e);
+            if (point) setReel(point);
+        } else {
+            // Screen-space pull: dragging up lifts the middle of the line
+            const lift = (dragStartPos.current.y - e.clientY) / 300;
+            setPull(Math.max(0, Math.min(PLUCK_MAX, lift)));
+        }
+    };
+
+    const handleUp = (e: any) => {
+        if (!drag.current) return;
+        e.stopPropagation();
+        const target = drag.current;
+        drag.current = null;
+        onDragEnd?.();
+        (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+
+        if (target === 'reel') {
+            // A click (no drag) hooks the line here, or unhooks it
+            const dist = dragStartPos.current.distanceTo(new THREE.Vector2(e.clientX, e.clientY));
+            if (dist < 5) setHook(hook ? null : reel.clone());
+        } else {
+            if (pull >= PLUCK_MIN && hook) {
+                onSnap(hook.clone(), reel.clone());
+                setHook(null);
+            }
+            setPull(0);
+        }
+    };
+
+    const taut = hook !== null && hook.distanceTo(reel) > 0.2;
+    const mid = hook ? hook.clone().add(reel).multiplyScalar(0.5) : reel;
+    const length = hook ? hook.distanceTo(reel) : 0;
+    const lineRotation = hook ? new THREE.Euler(0, Math.atan2(reel.x - hook.x, reel.z - hook.z), 0) : new THREE.Euler();
+
+    return (
+        <group ref={rootRef}>
+            {/* Reel (墨斗): ink pot and winding wheel */}
+            <group
+                position={[reel.x, reel.y, reel.z]}
+                onPointerDown={(e) => handleDown(e, 'reel')}
+                onPointerMove={handleMove}
+                onPointerUp={handleUp}
+            >
+                <mesh position={[0, 0.12, 0]} castShadow>
+                    <boxGeometry args={[0.22, 0.2, 0.45]} />
+                    <meshStandardMaterial color="#7c2d12" roughness={0.6} />
+                </mesh>
+                <mesh position={[0, 0.22, 0.08]}>
+                    <cylinderGeometry args={[0.07, 0.07, 0.04, 12]} />
+                    <meshStandardMaterial color="#111" roughness={0.9} />
+                </mesh>
+                <mesh position={[0, 0.14, -0.16]} rotation={[0, 0, Math.PI / 2]} castShadow>
+                    <cylinderGeometry args={[0.1, 0.1, 0.06, 16]} />
+                    <meshStandardMaterial color="#a16207" roughness={0.5} />
+                </mesh>
+            </group>
+
+            {/* Hook (班母) pinned into the wood */}
+            {hook && (
+                <mesh position={[hook.x, hook.y + 0.04, hook.z]}>
+                    <coneGeometry args={[0.03, 0.08, 6]} />
+                    <meshStandardMaterial color="#9ca3af" metalness={0.8} />
+                </mesh>
+            )}
+
+            {/* The inked line: bows up at the middle while pulled */}
+            {taut && hook && (
+                <group position={[mid.x, mid.y, mid.z]} rotation={lineRotation}>
+                    <animated.group scale-y={bow.to(b => Math.max(b, 0.001) / 0.1) as any}>
+                        <mesh position={[0, 0.05, -length / 4]} rotation={[-Math.atan2(0.1, length / 2) - Math.PI / 2, 0, 0]}>
+                            <cylinderGeometry args={[0.006, 0.006, length / 2, 4]} />
+                            <meshBasicMaterial color="#111" />
+                        </mesh>
+                        <mesh position={[0, 0.05, length / 4]} rotation={[Math.atan2(0.1, length / 2) - Math.PI / 2, 0, 0]}>
+                            <cylinderGeometry args={[0.006, 0.006, length / 2, 4]} />
+                            <meshBasicMaterial color="#111" />
+                        </mesh>
+                    </animated.group>
+                    {/* Wide, invisible grab area along the line */}
+                    <mesh
+                        rotation={[Math.PI / 2, 0, 0]}
+                        visible={false}
+                        onPointerDown={(e) => handleDown(e, 'line')}
+                        onPointerMove={handleMove}
+                        onPointerUp={handleUp}
+                    >
+                        <cylinderGeometry args={[0.12, 0.12, length, 6]} />
+                    </mesh>
+                </group>
+            )}
+        </group>
+    );
+};
+
+interface HandSawProps {
+    workY: number;               // Face the teeth enter
+    zRanges: [number, number][]; // Strips the kerfs run along; strokes go back and forth in them
+    boardHalfWidth: number;
+    onStroke: (x: number, z: number, tilt: number) => void;
+    onDragStart?: () => void;
+    onDragEnd?: () => void;
+}
+
+const STROKE_TRAVEL = 0.3; // Saw travel that counts as one stroke
+const TILT_STEP = 0.01;
+const MAX_TILT = 0.5;
+
+// Dovetail saw (夹背锯). Drag it across to line the teeth up with a mark and
+// push it back and forth along the kerf to saw; scroll or Q/E leans the
+// blade to follow the slope. Positive tilt leans the teeth toward +X.
+export const HandSaw: React.FC<HandSawProps> = ({ workY, zRanges, boardHalfWidth, onStroke, onDragStart, onDragEnd }) => {
+    const [pos, setPos] = useState(() => new THREE.Vector3(boardHalfWidth + 0.4, workY, (zRanges[0][0] + zRanges[0][1]) / 2));
+    const [tilt, setTilt] = useState(0);
+    const [dragging, setDragging] = useState(false);
+    const travel = useRef(0);
+    const tiltRef = useRef(tilt);
+    tiltRef.current = tilt;
+
+    const leanBy = (amount: number) => setTilt(prev => Math.max(-MAX_TILT, Math.min(MAX_TILT, prev + amount)));
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key.toLowerCase() === 'q') leanBy(TILT_STEP);
+            if (e.key.toLowerCase() === 'e') leanBy(-TILT_STEP);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Keep the saw within reach of the nearest strip, with room to stroke past its ends
+    const clampZ = (z: number) => {
+        let best = z;
+        let bestDistance = Infinity;
+        for (const [min, max] of zRanges) {
+            const clamped = Math.max(min - STROKE_TRAVEL, Math.min(max + STROKE_TRAVEL, z));
+            if (Math.abs(clamped - z) < bestDistance) {
+                bestDistance = Math.abs(clamped - z);
+                best = clamped;
+            }
+        }
+        return best;
+    };
+
+    const handleDown = (e: any) => {
+        e.stopPropagation();
+        setDragging(true);
+        travel.current = 0;
+        onDragStart?.();
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+
+    const handleMove = (e: any) => {
+        if (!dragging) return;
+        e.stopPropagation();
+        const point = new THREE.Vector3();
+        if (!e.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -workY), point)) return;
+        const next = new THREE.Vector3(Math.max(-boardHalfWidth, Math.min(boardHalfWidth, point.x)), workY, clampZ(point.z));
+        travel.current += Math.abs(next.z - pos.z);
+        if (travel.current >= STROKE_TRAVEL) {
+            travel.current -= STROKE_TRAVEL;
+            onStroke(next.x, next.z, tiltRef.current);
+        }
+        setPos(next);
+    };
+
+    const handleUp = (e: any) => {
+        e.stopPropagation();
+        setDragging(false);
+        onDragEnd?.();
+        (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+    };
+
+    return (
+        <group
+            position={[pos.x, pos.y, pos.z]}
+            rotation-z={tilt}
+            onPointerDown={handleDown}
+            onPointerMove={handleMove}
+            onPointerUp={handleUp}
+            onWheel={(e: any) => { e.stopPropagation(); leanBy(e.deltaY > 0 ? -TILT_STEP : TILT_STEP); }}
+        >
+            {/* Blade, teeth just into the wood */}
+            <mesh position={[0, 0.14, 0]} castShadow>
+                <boxGeometry args={[0.01, 0.3, 1.0]} />
+                <meshStandardMaterial color="#cbd5e1" metalness={0.9} roughness={0.25} />
+            </mesh>
+            {/* Brass back */}
+            <mesh position={[0, 0.3, 0]}>
+                <boxGeometry args={[0.03, 0.05, 1.0]} />
+                <meshStandardMaterial color="#b45309" metalness={0.7} roughness={0.3} />
+            </mesh>
+            {/* Handle */}
+            <mesh position={[0, 0.3, 0.62]} rotation={[Math.PI / 2, 0, 0]} castShadow>
+                <cylinderGeometry args={[0.05, 0.06, 0.3, 10]} />
+                <meshStandardMaterial color="#78350f" roughness={0.6} />
+            </mesh>
+            <Html position={[0, 0.55, 0]} center>
+                <div className="bg-slate-800/80 text-white px-2 py-0.5 rounded text-[10px] font-mono whitespace-nowrap pointer-events-none">
+                    ∠ {(Math.abs(tilt) * 180 / Math.PI).toFixed(1)}° {tilt > 0 ? '⇘' : tilt < 0 ? '⇙' : ''}
+                </div>
+            </Html>
+        </group>
+    );
+};
+
+interface PressureClampProps {
+    position: [number, number, number]; // Where the top jaw bears on the work
+    rotationY?: number;                  // Turns the bar round to stand clear of the work
+    span: number;                        // Distance between the jaws
+    pressure: number;
+    maxPressure: number;
+    goodRange: [number, number];         // Green band on the gauge
+    onDragStart?: (e: any) => void;
+    onDrag?: (e: any) => void;
+    onDragEnd?: (e: any) => void;
+    onTighten: () => void;
+    onLoosen: () => void;
+}
+
+const PRESSURE_CLAMP_ARM = 0.5;
+
+// F-clamp with a pressure gauge on its screw. Drag it to move it (the parent
+// decides where it snaps), click to give the screw a turn, right-click to
+// back it off.
+export const PressureClamp: React.FC<PressureClampProps> = ({ position, rotationY = 0, span, pressure, maxPressure, goodRange, onDragStart, onDrag, onDragEnd, onTighten, onLoosen }) => {
+    const [dragging, setDragging] = useState(false);
+    const downAt = useRef(new THREE.Vector2());
+    const { handleRot } = useSpring({ handleRot: pressure * Math.PI * 8, config: { mass: 1, tension: 180, friction: 24 } });
+    const gaugeColor = pressure < goodRange[0] ? 'bg-sky-400' : pressure > goodRange[1] ? 'bg-red-500' : 'bg-green-500';
+
+    const handleDown = (e: any) => {
+        e.stopPropagation();
+        if (e.nativeEvent.button === 2) {
+            onLoosen();
+            return;
+        }
+        setDragging(true);
+        downAt.current.set(e.clientX, e.clientY);
+        onDragStart?.(e);
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+
+    const handleMove = (e: any) => {
+        if (!dragging) return;
+        e.stopPropagation();
+        onDrag?.(e);
+    };
+
+    const handleUp = (e: any) => {
+        if (!dragging) return;
+        e.stopPropagation();
+        setDragging(false);
+        (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+        // Barely moved: a click on the screw
+        if (downAt.current.distanceTo(new THREE.Vector2(e.clientX, e.clientY)) < 5) onTighten();
+        onDragEnd?.(e);
+    };
+
+    return (
+        <group
+            position={position}
+            rotation-y={rotationY}
+            onPointerDown={handleDown}
+            onPointerMove={handleMove}
+            onPointerUp={handleUp}
+            onContextMenu={(e) => { e.stopPropagation(); e.nativeEvent.preventDefault(); }}
+        >
+            {/* Bar, standing clear of the work */}
+            <mesh position={[0, -span / 2, -PRESSURE_CLAMP_ARM]} castShadow>
+                <boxGeometry args={[0.1, span + 0.4, 0.1]} />
+                <meshStandardMaterial color="#aaa" metalness={0.6} roughness={0.3} />
+            </mesh>
+            {/* Fixed top jaw */}
+            <mesh position={[0, 0.07, -PRESSURE_CLAMP_ARM / 2]} castShadow>
+                <boxGeometry args={[0.15, 0.14, PRESSURE_CLAMP_ARM + 0.1]} />
+                <meshStandardMaterial color="#ef4444" roughness={0.5} />
+            </mesh>
+            {/* Sliding bottom jaw and its screw */}
+            <group position={[0, -span - 0.07, -PRESSURE_CLAMP_ARM / 2]}>
+                <mesh castShadow>
+                    <boxGeometry args={[0.15, 0.14, PRESSURE_CLAMP_ARM + 0.1]} />
+                    <meshStandardMaterial color="#ef4444" roughness={0.5} />
+                </mesh>
+                <mesh position={[0, -0.25, PRESSURE_CLAMP_ARM / 2]}>
+                    <cylinderGeometry args={[0.035, 0.035, 0.4]} />
+                    <meshStandardMaterial color="#333" metalness={0.8} />
+                </mesh>
+                <animated.mesh position={[0, -0.45, PRESSURE_CLAMP_ARM / 2]} rotation-y={handleRot as any}>
+                    <cylinderGeometry args={[0.07, 0.07, 0.16]} />
+                    <meshStandardMaterial color="#ef4444" />
+                    <mesh rotation={[Math.PI / 2, 0, 0]}>
+                        <cylinderGeometry args={[0.025, 0.025, 0.4]} />
+                        <meshStandardMaterial color="#111" />
+                    </mesh>
+                </animated.mesh>
+            </group>
+            <Html position={[0, 0.45, 0]} center>
+                <div className="bg-slate-800/80 text-white px-2 py-1 rounded text-[10px] font-mono whitespace-nowrap pointer-events-none w-20">
+                    <div className="relative h-1.5 rounded-full bg-slate-600">
+                        <div
+                            className="absolute h-full bg-green-700/70"
+                            style={{ left: `${goodRange[0] / maxPressure * 100}%`, width: `${(goodRange[1] - goodRange[0]) / maxPressure * 100}%` }}
+                        />
+                        <div className={`absolute h-full rounded-full ${gaugeColor}`} style={{ width: `${pressure / maxPressure * 100}%`, opacity: 0.8 }} />
+                    </div>
+                    <div className="text-center">⊙ {pressure.toFixed(1)}</div>
+                </div>
+            </Html>
+        </group>
+    );
+};
+
+interface HandPlaneProps {
+    workY: number;              // Face the sole rides on
+    zRange: [number, number];   // Ends of the board being planed
+    boardHalfWidth: number;
+    soleWidth: number;
+    onStroke: (x: number, direction: 1 | -1) => void;
+    onDragStart?: () => void;
+    onDragEnd?: () => void;
+}
+
+const PLANE_LENGTH = 1.2;
+const PLANE_STROKE_TRAVEL = 1.5; // Unbroken travel one way that counts as a stroke
+
+// Chinese plane (刨子): a long wooden body with a handle through it crosswise,
+// pushed with both hands. Drag it along the board to take a shaving; each
+// stroke counts in the direction it was pushed.
+export const HandPlane: React.FC<HandPlaneProps> = ({ workY, zRange, boardHalfWidth, soleWidth, onStroke, onDragStart, onDragEnd }) => {
+    const [pos, setPos] = useState(() => new THREE.Vector3(0, workY, zRange[1] + PLANE_LENGTH / 2));
+    const [dragging, setDragging] = useState(false);
+    const travel = useRef(0);
+    const heading = useRef<1 | -1>(-1);
+    const spent = useRef(false); // One shaving per pass
+
+    const handleDown = (e: any) => {
+        e.stopPropagation();
+        setDragging(true);
+        travel.current = 0;
+        spent.current = false;
+        onDragStart?.();
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+
+    const handleMove = (e: any) => {
+        if (!dragging) return;
+        e.stopPropagation();
+        const point = new THREE.Vector3();
+        if (!e.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -workY), point)) return;
+        const edge = boardHalfWidth - soleWidth / 2;
+        const next = new THREE.Vector3(
+            Math.max(-edge, Math.min(edge, point.x)),
+            workY,
+            Math.max(zRange[0] - PLANE_LENGTH / 2, Math.min(zRange[1] + PLANE_LENGTH / 2, point.z)),
+        );
+        const dz = next.z - pos.z;
+        if (dz !== 0) {
+            const direction = dz > 0 ? 1 : -1;
+            // Pulling back starts a fresh stroke
+            if (direction !== heading.current) {
+                heading.current = direction;
+                travel.current = 0;
+                spent.current = false;
+            }
+            travel.current += Math.abs(dz);
+            if (!spent.current && travel.current >= PLANE_STROKE_TRAVEL) {
+                spent.current = true;
+                onStroke(next.x, direction);
+            }
+        }
+        setPos(next);
+    };
+
+    const handleUp = (e: any) => {
+        e.stopPropagation();
+        setDragging(false);
+        onDragEnd?.();
+        (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+    };
+
+    return (
+        <group position={[pos.x, workY, pos.z]} onPointerDown={handleDown} onPointerMove={handleMove} onPointerUp={handleUp}>
+            {/* Body */}
+            <mesh position={[0, 0.12, 0]} castShadow>
+                <boxGeometry args={[soleWidth, 0.24, PLANE_LENGTH]} />
+                <meshStandardMaterial color="#a16207" roughness={0.6} />
+            </mesh>
+            {/* Iron, and the wedge holding it */}
+            <mesh position={[0, 0.3, 0.05]} rotation-x={-0.7}>
+                <boxGeometry args={[soleWidth * 0.8, 0.3, 0.03]} />
+                <meshStandardMaterial color="#94a3b8" metalness={0.9} roughness={0.25} />
+            </mesh>
+            <mesh position={[0, 0.3, 0.12]} rotation-x={-0.7}>
+                <boxGeometry args={[soleWidth * 0.6, 0.28, 0.05]} />
+                <meshStandardMaterial color="#78350f" roughness={0.6} />
+            </mesh>
+            {/* Cross handle */}
+            <mesh position={[0, 0.16, -0.3]} rotation-z={Math.PI / 2} castShadow>
+                <cylinderGeometry args={[0.04, 0.04, soleWidth + 0.6, 10]} />
+                <meshStandardMaterial color="#78350f" roughness={0.6} />
+            </mesh>
+        </group>
+    );
+};
+
+interface ChiselProps {
+    spots: [number, number, number][]; // Where the edge can be set: one per socket, on the face being chopped
+    spot: number;
+    onSelect: (spot: number) => void;
+    onDragStart?: () => void;
+    onDragEnd?: () => void;
+}
+
+// Mortise chisel (凿子), edge down. Drag it over a socket; it snaps into the
+// waste between the saw kerfs, ready for the Mallet.
+export const Chisel: React.FC<ChiselProps> = ({ spots, spot, onSelect, onDragStart, onDragEnd }) => {
+    const [dragging, setDragging] = useState(false);
+    const [x, y, z] = spots[spot] ?? spots[0];
+
+    const handleDown = (e: any) => {
+        e.stopPropagation();
+        setDragging(true);
+        onDragStart?.();
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+    };
+
+    const handleMove = (e: any) => {
+        if (!dragging) return;
+        e.stopPropagation();
+        const point = new THREE.Vector3();
+        if (!e.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -y), point)) return;
+        const nearest = spots.reduce((best, s, i) => (Math.hypot(s[0] - point.x, s[2] - point.z) < Math.hypot(spots[best][0] - point.x, spots[best][2] - point.z) ? i : best), 0);
+        if (nearest !== spot) onSelect(nearest);
+    };
+
+    const handleUp = (e: any) => {
+        e.stopPropagation();
+        setDragging(false);
+        onDragEnd?.();
+        (e.target as HTMLElement).releasePointerCapture?.(e.pointerId);
+    };
+
+    return (
+        <group position={[x, y, z]} onPointerDown={handleDown} onPointerMove={handleMove} onPointerUp={handleUp}>
+            {/* Blade */}
+            <mesh position={[0, 0.15, 0]} castShadow>
+                <boxGeometry args={[0.1, 0.3, 0.04]} />
+                <meshStandardMaterial color="#94a3b8" metalness={0.9} roughness={0.25} />
+            </mesh>
+            {/* Ferrule */}
+            <mesh position={[0, 0.34, 0]}>
+                <cylinderGeometry args={[0.045, 0.045, 0.08, 10]} />
+                <meshStandardMaterial color="#b45309" metalness={0.7} roughness={0.3} />
+            </mesh>
+            {/* Handle */}
+            <mesh position={[0, 0.62, 0]} castShadow>
+                <cylinderGeometry args={[0.06, 0.05, 0.5, 10]} />
+                <meshStandardMaterial color="#92400e" roughness={0.6} />
+            </mesh>
+            {/* Leather-bound striking end */}
+            <mesh position={[0, 0.89, 0]}>
+                <cylinderGeometry args={[0.065, 0.065, 0.04, 10]} />
+                <meshStandardMaterial color="#292524" roughness={0.9} />
+            </mesh>
+        </group>
+    );
+};
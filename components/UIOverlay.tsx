@@ -1,19 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { GamePhase } from '../types';
-import { ArrowRight, Hammer, CheckCircle, Package, Trees } from 'lucide-react';
+import { getLevel, getStep, getNextLevelId } from '../levels';
+import { DovetailSpec } from '../dovetail';
+import { BoardAccuracy, Stars, gradeProject } from '../accuracy';
+import { Inventory } from '../inventory';
+import { JointKind, JOINT_CATALOG } from '../joints';
+import { DovetailDesigner } from './DovetailDesigner';
+import { InventoryPanel } from './InventoryPanel';
+import { ArrowRight, Hammer, CheckCircle, Package, BookOpen } from 'lucide-react';
 
 interface UIOverlayProps {
   phase: GamePhase;
   onNext: () => void;
   progress: number;
   level: number;
-  inventory: string[];
-  rawWoodCount: number;
+  inventory: Inventory;
   onCollect: () => void;
+  dovetailSpec: DovetailSpec;
+  onDovetailSpecChange: (spec: DovetailSpec) => void;
+  accuracy: BoardAccuracy[];
+  bestGrade?: Stars;
+  libraryJoint: JointKind | null;
+  onLibraryJointChange: (kind: JointKind | null) => void;
+  jointExplode: number;
+  onJointExplodeChange: (explode: number) => void;
 }
 
-export const UIOverlay: React.FC<UIOverlayProps> = ({ phase, onNext, progress, level, inventory, rawWoodCount, onCollect }) => {
+export const UIOverlay: React.FC<UIOverlayProps> = ({ phase, onNext, progress, level, inventory, onCollect, dovetailSpec, onDovetailSpecChange, accuracy, bestGrade, libraryJoint, onLibraryJointChange, jointExplode, onJointExplodeChange }) => {
   const [showSuccessPrompt, setShowSuccessPrompt] = useState(false);
+  const levelDef = getLevel(level);
+  const step = getStep(level, phase);
+  const nextLevel = getNextLevelId(level);
 
   useEffect(() => {
     if (phase === GamePhase.SUCCESS) {
@@ -35,65 +52,19 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ phase, onNext, progress, l
              <Hammer className="w-6 h-6" /> Dovetail Master <span className="text-sm bg-amber-100 px-2 py-0.5 rounded text-amber-600">Lvl {level}</span>
           </h1>
           <p className="text-slate-600 font-medium">
-             {level === 1 ? getBoxInstructions(phase) : getStoolInstructions(phase)}
+             {step?.instruction ?? ""}
           </p>
         </div>
 
-        {/* Right Side Panel: Inventory & Raw Materials */}
-        <div className="flex flex-col gap-2 items-end">
-            {/* Raw Material Panel */}
-            {rawWoodCount > 0 && (
-                 <div className="bg-white/90 backdrop-blur shadow-lg rounded-2xl p-3 border-b-4 border-green-600 flex flex-col gap-2 min-w-[120px]">
-                     <h3 className="text-xs font-bold text-green-800 uppercase tracking-wide flex items-center gap-1">
-                        <Trees className="w-4 h-4" /> Raw Material
-                     </h3>
-                     <div className="flex items-center gap-2">
-                         <div className="w-10 h-10 bg-amber-200 rounded-full flex items-center justify-center text-lg border border-amber-400">🪵</div>
-                         <div className="font-bold text-slate-700 text-lg">
-                             +{rawWoodCount}
-                         </div>
-                     </div>
-                 </div>
-            )}
-
-            {/* Inventory Widget */}
-            {inventory.length > 0 && (
-                <div className="bg-white/90 backdrop-blur shadow-lg rounded-2xl p-3 border-b-4 border-blue-500 flex flex-col gap-2">
-                    <h3 className="text-xs font-bold text-blue-800 uppercase tracking-wide flex items-center gap-1">
-                        <Package className="w-4 h-4" /> Inventory
-                    </h3>
-                    <div className="flex gap-2">
-                        {inventory.map((item, i) => (
-                            <div key={i} className="w-12 h-12 bg-slate-100 rounded-lg border border-slate-300 flex items-center justify-center text-xs text-center p-1 leading-tight shadow-inner" title={item}>
-                                {item.includes("Box") ? "📦" : "🪑"}
-                            </div>
-                        ))}
-                    </div>
-                </div>
-            )}
-        </div>
+        {/* Right Side Panel: Inventory */}
+        <InventoryPanel inventory={inventory} />
       </div>
 
       {/* Central Instructions / Progress */}
       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none text-center w-full">
-         {phase === GamePhase.TIMBER && (
-           <div className="bg-black/50 text-white px-4 py-2 rounded-full animate-bounce inline-block">
-             Right-click to rotate saw. Drag to cut trees!
-           </div>
-         )}
-         {phase === GamePhase.CLAMPING && (
-           <div className="bg-black/50 text-white px-4 py-2 rounded-full animate-bounce inline-block">
-             Tap the Clamp to tighten!
-           </div>
-         )}
-         {(phase === GamePhase.CUTTING || phase === GamePhase.CUTTING_BACK || phase === GamePhase.CUTTING_TOP) && (
-           <div className="bg-black/50 text-white px-4 py-2 rounded-full inline-block">
-             Drag the Router to remove material!
-           </div>
-         )}
-         {(phase === GamePhase.ASSEMBLY || phase === GamePhase.ASSEMBLY_C || phase === GamePhase.ASSEMBLY_D) && (
-           <div className="bg-black/50 text-white px-4 py-2 rounded-full inline-block">
-             Drag the parts together and use the Mallet!
+         {step?.hint && (
+           <div className={`bg-black/50 text-white px-4 py-2 rounded-full inline-block ${step.bounceHint ? 'animate-bounce' : ''}`}>
+             {step.hint}
            </div>
          )}
       </div>
@@ -101,12 +72,29 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ phase, onNext, progress, l
       {/* Footer Controls */}
       <div className={`w-full flex ${phase === GamePhase.SUCCESS ? 'justify-end items-end pr-8 pb-8' : 'justify-center pb-8'} pointer-events-auto`}>
         {phase === GamePhase.INTRO && (
-          <button 
-            onClick={onNext}
-            className="bg-green-500 hover:bg-green-600 text-white text-xl font-bold py-4 px-12 rounded-full shadow-xl transform transition hover:scale-105 border-b-4 border-green-700 active:border-b-0 active:translate-y-1"
-          >
-            Start Project: {level === 1 ? "Dovetail Box" : "Wooden Stool"}
-          </button>
+          <div className="flex flex-col items-center gap-3">
+            {libraryJoint && (
+              <JointLibraryPanel kind={libraryJoint} onKindChange={onLibraryJointChange} explode={jointExplode} onExplodeChange={onJointExplodeChange} />
+            )}
+            <div className="flex items-center gap-3">
+              <button 
+                onClick={onNext}
+                className="bg-green-500 hover:bg-green-600 text-white text-xl font-bold py-4 px-12 rounded-full shadow-xl transform transition hover:scale-105 border-b-4 border-green-700 active:border-b-0 active:translate-y-1"
+              >
+                Start Project: {levelDef.name}
+              </button>
+              <button
+                onClick={() => onLibraryJointChange(libraryJoint ? null : 'straightTenon')}
+                className="bg-white/90 hover:bg-amber-100 text-amber-800 font-bold py-3 px-5 rounded-full shadow-lg border-b-4 border-amber-500 flex items-center gap-2"
+              >
+                <BookOpen className="w-5 h-5" /> {libraryJoint ? 'Close Library' : 'Joint Library'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === GamePhase.DESIGN && (
+          <DovetailDesigner spec={dovetailSpec} onChange={onDovetailSpecChange} onConfirm={onNext} />
         )}
         
         {phase === GamePhase.SUCCESS && (
@@ -121,17 +109,17 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ phase, onNext, progress, l
                </div>
                <h2 className="text-3xl font-bold text-green-800 mb-2">Excellent Work!</h2>
                <p className="text-slate-600 mb-6 text-lg">
-                   {level === 1 
-                    ? "You've mastered the Dovetail Joint." 
-                    : "You've built a sturdy Wooden Stool."}
+                   {levelDef.successMessage}
                </p>
+
+               {accuracy.length > 0 && <AccuracyReport boards={accuracy} bestGrade={bestGrade} />}
                
                <button 
                   onClick={onCollect}
                   className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-10 rounded-xl shadow-lg transition flex items-center gap-3 text-lg mx-auto hover:-translate-y-1"
                 >
                   <Package className="w-6 h-6" />
-                  Collect & {level === 1 ? "Start Level 2" : "Replay"}
+                  Collect & {nextLevel > level ? `Start Level ${nextLevel}` : "Replay"}
                   <ArrowRight className="w-5 h-5" />
                 </button>
             </div>
@@ -142,36 +130,82 @@ export const UIOverlay: React.FC<UIOverlayProps> = ({ phase, onNext, progress, l
   );
 };
 
-// --- Helpers ---
-
-const getBoxInstructions = (phase: GamePhase) => {
-    switch(phase) {
-        case GamePhase.INTRO: return "Welcome! Let's build a Dovetail Box.";
-        case GamePhase.TIMBER: return "Step 1: Harvest Timber. Cut the trees!";
-        case GamePhase.CLAMPING: return "Step 2: Secure the base board.";
-        case GamePhase.MARKING: return "Step 3: Mark the tails pattern.";
-        case GamePhase.CUTTING: return "Step 4: Cut the sockets for the Front.";
-        case GamePhase.ASSEMBLY_PREP: return "Front sockets ready!";
-        case GamePhase.ASSEMBLY: return "Step 5: Attach the Front Board.";
-        case GamePhase.CUTTING_BACK: return "Step 6: Now cut sockets for the Back.";
-        case GamePhase.ASSEMBLY_C: return "Step 7: Attach the Back Board.";
-        case GamePhase.CUTTING_TOP: return "Step 8: Prepare the Top Lid.";
-        case GamePhase.ASSEMBLY_D: return "Step 9: Cap it off with the Top.";
-        case GamePhase.SUCCESS: return "Congratulations! A sturdy box structure.";
-        default: return "";
-    }
-}
+// --- Joint Library ---
+const JointLibraryPanel: React.FC<{ kind: JointKind, onKindChange: (kind: JointKind) => void, explode: number, onExplodeChange: (explode: number) => void }> = ({ kind, onKindChange, explode, onExplodeChange }) => {
+    const entry = JOINT_CATALOG[kind];
+    return (
+        <div className="bg-white/95 backdrop-blur shadow-2xl rounded-3xl p-5 border-b-4 border-amber-500 w-[420px] text-sm text-slate-700">
+            <div className="flex flex-wrap gap-1 mb-3">
+                {(Object.keys(JOINT_CATALOG) as JointKind[]).map(k => (
+                    <button
+                        key={k}
+                        onClick={() => onKindChange(k)}
+                        className={`px-2 py-1 rounded-lg border font-bold ${k === kind ? 'bg-amber-500 border-amber-600 text-white' : 'bg-slate-100 border-slate-300 hover:bg-amber-100'}`}
+                    >
+                        {JOINT_CATALOG[k].nameZh}
+                    </button>
+                ))}
+            </div>
+            <h2 className="text-lg font-bold text-amber-800">{entry.nameZh} {entry.name}</h2>
+            <p className="mb-3">{entry.description}</p>
+            <p className="text-xs text-slate-500 mb-2">Click the red waste to chisel it away, then pull the joint apart to see how it goes together.</p>
+            <label className="flex items-center gap-2">
+                <span className="font-semibold">Pull apart</span>
+                <input type="range" min={0} max={1.5} step={0.05} value={explode} onChange={e => onExplodeChange(parseFloat(e.target.value))} className="flex-1 accent-amber-500" />
+            </label>
+        </div>
+    );
+};
 
-const getStoolInstructions = (phase: GamePhase) => {
-    switch(phase) {
-        case GamePhase.INTRO: return "Level 2: Let's build a Round Stool.";
-        case GamePhase.CLAMPING: return "Step 1: Secure the seat block.";
-        case GamePhase.CUTTING: return "Step 2: Drill holes for the legs.";
-        case GamePhase.ASSEMBLY: return "Step 3: Hammer the legs into place.";
-        case GamePhase.SUCCESS: return "Stool Complete!";
-        default: return "";
-    }
-}
+// --- Accuracy Report ---
+const StarRow: React.FC<{ stars: number, size?: string }> = ({ stars, size = 'text-lg' }) => (
+    <span className={`${size} tracking-wider`}>
+        <span className="text-amber-400">{'★'.repeat(stars)}</span>
+        <span className="text-slate-300">{'★'.repeat(3 - stars)}</span>
+    </span>
+);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const AccuracyReport: React.FC<{ boards: BoardAccuracy[], bestGrade?: Stars }> = ({ boards, bestGrade }) => {
+    const grade = gradeProject(boards) ?? 1;
+    const isNewBest = grade > (bestGrade ?? 0);
+
+    return (
+        <div className="bg-slate-50 rounded-2xl border border-slate-200 p-4 mb-6 text-left min-w-[320px]">
+            <div className="flex items-center justify-between mb-3">
+                <StarRow stars={grade} size="text-3xl" />
+                <span className={`text-xs font-bold uppercase tracking-wide ${isNewBest ? 'text-green-600' : 'text-slate-400'}`}>
+                    {isNewBest ? 'New best!' : <>Best: <StarRow stars={bestGrade ?? grade} size="text-xs" /></>}
+                </span>
+            </div>
+            <ul className="space-y-1 text-sm">
+                {boards.map(b => (
+                    <li key={b.board} className="flex items-center justify-between gap-4">
+                        <span className="font-bold text-slate-700">{b.board}</span>
+                        <span className="text-slate-500 text-xs flex-1 text-right">
+                            {b.overcut !== undefined && `overcut ${percent(b.overcut)} `}
+                            {b.undercut !== undefined && `· waste left ${percent(b.undercut)} `}
+                            {b.holeError !== undefined && `off centre ${(b.holeError * 100).toFixed(1)} mm `}
+                            {b.splayError !== undefined && `· splay off ${(b.splayError * 180 / Math.PI).toFixed(1)}° `}
+                            {b.depthError !== undefined && `· depth off ${(b.depthError * 100).toFixed(1)} mm `}
+                            {b.looseness !== undefined && `grip ${percent(1 - b.looseness)}`}
+                            {!!b.blowouts && `· ${b.blowouts} face${b.blowouts > 1 ? 's' : ''} split`}
+                            {!!b.slip && `· board slipped ${(b.slip * 100).toFixed(1)} mm`}
+                            {b.thicknessError !== undefined && `thickness off ${(b.thicknessError * 100).toFixed(1)} mm`}
+                            {b.openGlue !== undefined && `glue line open ${percent(b.openGlue)} `}
+                            {b.starvedGlue !== undefined && `· starved ${percent(b.starvedGlue)}`}
+                            {b.roughness !== undefined && `roughness ${percent(b.roughness)}`}
+                            {b.missedFinish !== undefined && `missed ${percent(b.missedFinish)} `}
+                            {b.runs !== undefined && `· runs ${percent(b.runs)}`}
+                        </span>
+                        <StarRow stars={b.stars} size="text-sm" />
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
 
 // --- Confetti Component ---
 const Confetti: React.FC = () => {
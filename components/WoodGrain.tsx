@@ -0,0 +1,210 @@
+import React from 'react';
+import * as THREE from 'three';
+import '../types';
+import { Vec3 } from './shared';
+import { WoodSpecies, GrainParams, SPECIES } from '../species';
+
+// Wood textures: growth rings for log ends, and long grain and end grain for
+// boards, coloured by species.
+
+// --- Helper: Generate Tree Ring Texture ---
+function createTreeRingTexture(grain: GrainParams) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 256;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return new THREE.CanvasTexture(canvas);
+
+    // Background (Heartwood)
+    ctx.fillStyle = grain.heartColor;
+    ctx.fillRect(0, 0, 256, 256);
+
+    // Rings
+    const centerX = 128;
+    const centerY = 128;
+    ctx.strokeStyle = grain.ringColor; // Darker ring line
+    ctx.lineWidth = 2;
+
+    for (let r = 5; r < 120; r += grain.ringSpacing + Math.random() * grain.ringJitter) {
+        ctx.beginPath();
+        // Make rings slightly irregular
+        for (let a = 0; a <= Math.PI * 2; a += 0.1) {
+            const rOffset = r + (Math.sin(a * 10) + Math.cos(a * 5)) * 1.5;
+            const x = centerX + Math.cos(a) * rOffset;
+            const y = centerY + Math.sin(a) * rOffset;
+            if (a === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+        }
+        ctx.closePath();
+        ctx.stroke();
+    }
+
+    // Cracks/Details
+    ctx.strokeStyle = '#3e2723';
+    ctx.lineWidth = 1;
+    for(let i=0; i<5; i++) {
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        const angle = Math.random() * Math.PI * 2;
+        ctx.lineTo(centerX + Math.cos(angle)*100, centerY + Math.sin(angle)*100);
+        ctx.stroke();
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    return texture;
+}
+
+// One end-grain texture per species, drawn the first time it is needed
+const treeRingTextures: Partial<Record<WoodSpecies, THREE.CanvasTexture>> = {};
+export const treeRingTexture = (species: WoodSpecies) =>
+    (treeRingTextures[species] ??= createTreeRingTexture(SPECIES[species].grain));
+
+// --- Helper: Procedural Wood Grain for Boards ---
+// A board shows long grain on its faces and edges and the growth rings on its
+// ends. grainGeometry() sorts a mesh's triangles into those three groups by
+// the way they face, so GrainMaterials can give each group its own texture,
+// with the long-grain streaks running along the board's grain axis.
+
+type GrainFace = 'face' | 'edge' | 'end';
+type WoodTone = 'light' | 'dark';
+type Axis = 0 | 1 | 2; // x, y, z
+
+const GRAIN_FACES: GrainFace[] = ['face', 'edge', 'end']; // Material index of each group
+const GRAIN_TEXTURE_SPAN = 2.5; // World units covered by one repeat of a grain texture
+const GRAIN_TEXTURE_SIZE = 256;
+
+function createGrainTexture(grain: GrainParams, base: string, face: GrainFace) {
+    const size = GRAIN_TEXTURE_SIZE;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return new THREE.CanvasTexture(canvas);
+
+    ctx.fillStyle = base;
+    ctx.fillRect(0, 0, size, size);
+    ctx.strokeStyle = grain.ringColor;
+
+    if (face === 'end') {
+        // Boards are sawn beside the pith, so their ends show arcs of rings
+        // curving around a centre below the board
+        const centerX = size * (0.3 + Math.random() * 0.4);
+        const centerY = size * 1.6;
+        for (let r = size * 0.5; r < size * 2.5; r += grain.ringSpacing + Math.random() * grain.ringJitter) {
+            ctx.globalAlpha = 0.35 + Math.random() * 0.3;
+            ctx.lineWidth = 1 + Math.random() * 1.5;
+            ctx.beginPath();
+            ctx.arc(centerX, centerY, r, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+    } else {
+        // Long grain runs along the texture's x axis. The wide face cuts the
+        // rings at a shallow angle, so its lines wander in broad arches; the
+        // edge cuts them square and stays straight and tight.
+        const sweep = face === 'face' ? 14 : 1.5;
+        const spacing = face === 'face' ? 1.6 : 1;
+        for (let y = 0; y < size; y += (grain.ringSpacing + Math.random() * grain.ringJitter) * spacing) {
+            ctx.globalAlpha = 0.2 + Math.random() * 0.3;
+            ctx.lineWidth = 1 + Math.random() * 1.5;
+            const phase = Math.random() * Math.PI * 2;
+            // Draw each line a texture height above and below too, so it tiles
+            for (const wrap of [-size, 0, size]) {
+                ctx.beginPath();
+                for (let x = 0; x <= size; x += 4) {
+                    const offset = Math.sin((x / size) * Math.PI * 2 + phase) * sweep;
+                    if (x === 0) ctx.moveTo(x, y + wrap + offset);
+                    else ctx.lineTo(x, y + wrap + offset);
+                }
+                ctx.stroke();
+            }
+        }
+    }
+
+    // Pores
+    ctx.fillStyle = grain.ringColor;
+    for (let i = 0; i < 400; i++) {
+        ctx.globalAlpha = 0.1 + Math.random() * 0.2;
+        const length = face === 'end' ? 1 : 2 + Math.random() * 4;
+        ctx.fillRect(Math.random() * size, Math.random() * size, length, 1);
+    }
+    ctx.globalAlpha = 1;
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    // Mirrored so neighbouring repeats meet without a seam
+    texture.wrapS = texture.wrapT = THREE.MirroredRepeatWrapping;
+    return texture;
+}
+
+const woodTextures: Record<string, THREE.CanvasTexture> = {};
+const woodTexture = (species: WoodSpecies, tone: WoodTone, face: GrainFace) => {
+    const info = SPECIES[species];
+    return (woodTextures[`${species}:${tone}:${face}`] ??= createGrainTexture(info.grain, info.palette[tone], face));
+};
+
+/**
+ * Splits `source` into face, edge and end grain groups (see GRAIN_FACES) for a
+ * board whose grain runs along `grainAxis` and whose wide faces look along
+ * `faceAxis`. `offset` is added before computing UVs, so parts of one board
+ * drawn as separate meshes line their grain up.
+ */
+export function grainGeometry(source: THREE.BufferGeometry, grainAxis: Axis, faceAxis: Axis, offset: Vec3 = [0, 0, 0]): THREE.BufferGeometry {
+    const geometry = source.index ? source.toNonIndexed() : source;
+    const position = geometry.getAttribute('position');
+    const normal = geometry.getAttribute('normal');
+    const positions: number[][] = GRAIN_FACES.map(() => []);
+    const normals: number[][] = GRAIN_FACES.map(() => []);
+    const uvs: number[][] = GRAIN_FACES.map(() => []);
+
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const facing = new THREE.Vector3();
+    const vertex = new THREE.Vector3();
+    const shift = new THREE.Vector3(...offset);
+
+    for (let i = 0; i + 2 < position.count; i += 3) {
+        a.fromBufferAttribute(position, i);
+        b.fromBufferAttribute(position, i + 1);
+        c.fromBufferAttribute(position, i + 2);
+        facing.subVectors(c, b).cross(a.clone().sub(b));
+        const extent = [Math.abs(facing.x), Math.abs(facing.y), Math.abs(facing.z)];
+        const axis = extent.indexOf(Math.max(...extent)) as Axis;
+        const group = axis === grainAxis ? 2 : axis === faceAxis ? 0 : 1;
+        // End grain is seen head-on with the pith below; long grain streaks along U
+        const [uAxis, vAxis] = group === 2
+            ? [3 - grainAxis - faceAxis, faceAxis]
+            : [grainAxis, 3 - grainAxis - axis];
+
+        for (let j = 0; j < 3; j++) {
+            vertex.fromBufferAttribute(position, i + j);
+            positions[group].push(vertex.x, vertex.y, vertex.z);
+            normals[group].push(normal.getX(i + j), normal.getY(i + j), normal.getZ(i + j));
+            vertex.add(shift);
+            uvs[group].push(vertex.getComponent(uAxis) / GRAIN_TEXTURE_SPAN, vertex.getComponent(vAxis) / GRAIN_TEXTURE_SPAN);
+        }
+    }
+
+    const result = new THREE.BufferGeometry();
+    result.setAttribute('position', new THREE.Float32BufferAttribute(positions.flat(), 3));
+    result.setAttribute('normal', new THREE.Float32BufferAttribute(normals.flat(), 3));
+    result.setAttribute('uv', new THREE.Float32BufferAttribute(uvs.flat(), 2));
+    let start = 0;
+    positions.forEach((group, index) => {
+        result.addGroup(start, group.length / 3, index);
+        start += group.length / 3;
+    });
+
+    if (geometry !== source) geometry.dispose();
+    source.dispose();
+    return result;
+}
+
+// The materials a grainGeometry() mesh expects, one per group
+export const GrainMaterials: React.FC<{species: WoodSpecies, tone: WoodTone}> = ({species, tone}) => (
+    <>
+        {GRAIN_FACES.map((face, i) => (
+            <meshStandardMaterial key={face} attach={`material-${i}`} map={woodTexture(species, tone, face)} roughness={face === 'end' ? 0.75 : 0.6} />
+        ))}
+    </>
+);
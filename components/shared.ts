@@ -0,0 +1,23 @@
+import { animated } from '@react-spring/three';
+import { SPECIES, DEFAULT_SPECIES } from '../species';
+
+// Odds and ends the project and stage modules share
+
+// Fix for "Type instantiation is excessively deep and possibly infinite" error
+export const AnimatedGroup = animated.group as any;
+
+export type Vec3 = [number, number, number];
+
+export const GAP_HEIGHT = 0.15;
+export const HAMMER_TAPS_REQUIRED = 3;
+export const COLOR_EDGES = "#5c3a21";
+export const COLOR_WASTE = "#ef4444"; // Marked waste, still to be cut away
+export const PENCIL_COLOR = "#334155";
+
+// Joint library, Dougong and Luban Lock parts are always fir; milled projects
+// take their colours from the species of their boards
+const DEFAULT_PALETTE = SPECIES[DEFAULT_SPECIES].palette;
+export const COLOR_PINS = DEFAULT_PALETTE.dark;
+export const COLOR_TAILS = DEFAULT_PALETTE.light;
+
+export const mm = (value: number) => `${(value * 100).toFixed(1)} mm`; // 1 world unit = 100 mm
@@ -0,0 +1,110 @@
+// Parametric dovetail layout. The box geometry (pins, tails, waste blocks) and
+// the router hit-test are all generated from a DovetailSpec at runtime.
+
+export interface DovetailSpec {
+  tailCount: number;
+  slope: number;          // Run per unit of rise: 6 means a 1:6 slope
+  pinToTailRatio: number; // Narrow pin width relative to the wide end of a tail
+  boardWidth: number;
+  boardThickness: number;
+}
+
+export interface DovetailLayout {
+  spec: DovetailSpec;
+  boardWidth: number;
+  boardThickness: number;
+  jointHeight: number;   // Joint depth = thickness of the mating board
+  tailWidthTip: number;  // Wide end of each tail
+  tailWidthRoot: number; // Narrow end at the baseline
+  pinWidth: number;
+  tailCenters: number[];
+}
+
+export const DEFAULT_DOVETAIL_SPEC: DovetailSpec = {
+  tailCount: 4,
+  slope: 6,
+  pinToTailRatio: 0.4,
+  boardWidth: 2,
+  boardThickness: 0.4,
+};
+
+// Ranges offered on the design screen
+export const DOVETAIL_LIMITS = {
+  tailCount: { min: 2, max: 6 },
+  slopes: [5, 6, 7, 8],
+  pinToTailRatio: { min: 0.2, max: 1, step: 0.05 },
+  boardWidth: { min: 1.5, max: 2.5, step: 0.1 },
+  boardThickness: { min: 0.3, max: 0.5, step: 0.05 },
+};
+
+// Narrowest a tail root may get before the joint is too weak to cut
+const MIN_ROOT_WIDTH = 0.04;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+export function normalizeDovetailSpec(spec: Partial<DovetailSpec> | undefined): DovetailSpec {
+  const s = { ...DEFAULT_DOVETAIL_SPEC, ...spec };
+  const L = DOVETAIL_LIMITS;
+  return {
+    tailCount: Math.round(clamp(s.tailCount, L.tailCount.min, L.tailCount.max)),
+    slope: clamp(s.slope, L.slopes[0], L.slopes[L.slopes.length - 1]),
+    pinToTailRatio: clamp(s.pinToTailRatio, L.pinToTailRatio.min, L.pinToTailRatio.max),
+    boardWidth: clamp(s.boardWidth, L.boardWidth.min, L.boardWidth.max),
+    boardThickness: clamp(s.boardThickness, L.boardThickness.min, L.boardThickness.max),
+  };
+}
+
+export function computeDovetailLayout(input: DovetailSpec): DovetailLayout {
+  const spec = normalizeDovetailSpec(input);
+  const n = spec.tailCount;
+  const jointHeight = spec.boardThickness;
+
+  // Width = n tails + (n + 1) pins, with pin = ratio * tail
+  const tailWidthTip = spec.boardWidth / (n + (n + 1) * spec.pinToTailRatio);
+  const pinWidth = tailWidthTip * spec.pinToTailRatio;
+  const taper = (2 * jointHeight) / spec.slope;
+  const tailWidthRoot = Math.max(MIN_ROOT_WIDTH, tailWidthTip - taper);
+
+  const tailCenters: number[] = [];
+  const pitch = tailWidthTip + pinWidth;
+  let currentX = -spec.boardWidth / 2 + pinWidth + tailWidthTip / 2;
+  for (let i = 0; i < n; i++) {
+    tailCenters.push(currentX);
+    currentX += pitch;
+  }
+
+  return {
+    spec,
+    boardWidth: spec.boardWidth,
+    boardThickness: spec.boardThickness,
+    jointHeight,
+    tailWidthTip,
+    tailWidthRoot,
+    pinWidth,
+    tailCenters,
+  };
+}
+
+/** Plain-language notes on the trade-offs of a spec, shown on the design screen. */
+export function describeDovetailSpec(spec: DovetailSpec): string[] {
+  const layout = computeDovetailLayout(spec);
+  const notes: string[] = [];
+
+  notes.push(spec.slope <= 6
+    ? `1:${spec.slope} is a steep slope: strong locking, suits soft woods like fir.`
+    : `1:${spec.slope} is a gentle slope: less short grain at the corners, suits hard woods.`);
+
+  if (spec.pinToTailRatio < 0.35) {
+    notes.push("Thin pins look elegant but are fragile and harder to cut.");
+  } else if (spec.pinToTailRatio > 0.8) {
+    notes.push("Pins as wide as the tails: very strong, but the joint looks plain.");
+  }
+
+  if (layout.tailWidthRoot <= MIN_ROOT_WIDTH) {
+    notes.push("Tails are nearly pointed at the root: use fewer tails or a gentler slope.");
+  }
+  if (spec.tailCount >= 6) {
+    notes.push("Many small tails mean many more sockets to cut.");
+  }
+  return notes;
+}
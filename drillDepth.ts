@@ -0,0 +1,33 @@
+// Boring the stool's leg holes to depth. The drill plunges while it is held
+// down and backs out when it is let go, and a collar clamped on the bit stops
+// it at whatever depth the collar is set to. The holes take through-tenons,
+// so each must reach the seat's far face, but the bit should stop as it breaks
+// through: driven on past it, it tears the fibres out around the exit. A hole
+// stopped short leaves a floor the tenon bottoms out on.
+
+export interface BoredHole {
+  through: boolean; // Reaches the far face
+  blowout: boolean; // ...and tore it out on the way
+  error: number;    // Distance from the depth that just breaks through, along the bit
+}
+
+export const PLUNGE_RATE = 0.12;    // Depth the bit bores in a second, in soft wood
+export const RETRACT_RATE = 0.8;
+export const DEPTH_STOP_STEP = 0.01;
+export const MAX_DEPTH = 0.5;       // Bit below the collar with it slid right up to the chuck
+const CLEAN_EXIT = 0.02;            // How far past the far face the tip may go before the bit tears it out
+
+/** Length of a hole bored at `angle` from vertical right through `thickness`. */
+export const throughLength = (thickness: number, angle: number) => thickness / Math.cos(angle);
+
+export function boredHole(depth: number, thickness: number, angle: number): BoredHole {
+  const length = throughLength(thickness, angle);
+  return { through: depth >= length, blowout: depth > length + CLEAN_EXIT, error: Math.abs(depth - length) };
+}
+
+/**
+ * How far short of home a leg stops, along its axis, when its tenon is
+ * `tenonLength` long and its hole `depth` deep and `through` or not.
+ */
+export const legShortfall = (depth: number, through: boolean, tenonLength: number) =>
+  through ? 0 : Math.max(0, tenonLength - depth);
@@ -0,0 +1,73 @@
+// Directional felling. A tree comes down in two cuts: a diagonal notch (the
+// face cut) on the side it should fall toward, then a level back cut from the
+// opposite side that stops short and leaves a hinge. The tree falls the way
+// the notch faces, so where the player cuts the notch decides where it lands.
+
+export type SawTilt = 'vertical' | 'diagonal' | 'horizontal';
+
+export interface FellingCut {
+  notch: number;   // 0-100
+  notchX: number;  // Sum of the directions (from the trunk centre) the notch was cut from
+  notchZ: number;
+  backCut: number; // 0-100; at 100 only the hinge holds the tree up
+}
+
+export interface Hazard {
+  x: number;
+  z: number;
+}
+
+export const HAZARD_RADIUS = 1;   // Marked zone around each thing a tree must not land on
+const BACK_CUT_OPPOSITE = -0.5;   // Back cut must come from within 60° of straight behind the notch
+
+export const freshFelling = (): FellingCut => ({ notch: 0, notchX: 0, notchZ: 0, backCut: 0 });
+
+/** Direction the notch faces (and the tree will fall), as a Y rotation; null until started. */
+export function notchAngle(cut: FellingCut): number | null {
+  if (cut.notch <= 0 || (cut.notchX === 0 && cut.notchZ === 0)) return null;
+  return Math.atan2(cut.notchX, cut.notchZ);
+}
+
+/**
+ * One frame of the saw against the trunk, `dirX`/`dirZ` being the unit
+ * direction from the trunk centre to the blade. Returns the updated cut and,
+ * when the saw is doing the wrong thing, a tip for the player.
+ */
+export function sawFelling(cut: FellingCut, tilt: SawTilt, dirX: number, dirZ: number, amount: number): { cut: FellingCut; tip?: string } {
+  if (tilt === 'vertical') {
+    return { cut, tip: "Tilt the saw (right-click): notch first, on the side it should fall." };
+  }
+
+  if (tilt === 'diagonal') {
+    if (cut.notch >= 100) return { cut, tip: "Notch done! Level the saw for the back cut." };
+    return {
+      cut: {
+        ...cut,
+        notch: Math.min(100, cut.notch + amount),
+        notchX: cut.notchX + dirX * amount,
+        notchZ: cut.notchZ + dirZ * amount,
+      },
+    };
+  }
+
+  // Horizontal: the back cut
+  const angle = notchAngle(cut);
+  if (cut.notch < 100 || angle === null) {
+    return { cut, tip: "Cut the notch first, or the tree could fall anywhere!" };
+  }
+  if (dirX * Math.sin(angle) + dirZ * Math.cos(angle) > BACK_CUT_OPPOSITE) {
+    return { cut, tip: "Make the back cut from the other side, opposite the notch." };
+  }
+  return { cut: { ...cut, backCut: Math.min(100, cut.backCut + amount) } };
+}
+
+/** The first hazard a tree `height` tall would land on falling along `angle`, if any. */
+export function hazardInPath(x: number, z: number, angle: number, height: number, hazards: Hazard[]): Hazard | undefined {
+  const dirX = Math.sin(angle);
+  const dirZ = Math.cos(angle);
+  return hazards.find(h => {
+    const along = (h.x - x) * dirX + (h.z - z) * dirZ;
+    const across = Math.abs((h.x - x) * dirZ - (h.z - z) * dirX);
+    return along > 0 && along < height + HAZARD_RADIUS && across < HAZARD_RADIUS + 0.5;
+  });
+}
@@ -0,0 +1,142 @@
+// Sanding and finishing the assembled piece. Each visible face is a panel
+// with a roughness map: sanding works it down grit by grit, and a finer grit
+// barely touches the scratches a coarser one should have taken out first.
+// Then a finish is brushed on: the brush lays on most straight after it is
+// dipped, spots it never reaches stay bare, and where it goes on too thick
+// the finish runs down the face and dries that way.
+
+export type FinishKind = 'oil' | 'lacquer';
+
+export interface FinishDef {
+  name: string;
+  nameZh: string;
+  color: string;
+  opacity: number; // How much of the wood shows through one full coat
+  runAt: number;   // Coats a vertical face holds before the finish runs
+  about: string;
+}
+
+// Cells are row-major, FINISH_RES to a side, row 0 at the bottom of the face
+export interface FinishPanel {
+  rough: number[]; // 1 straight off the tools, 0 glassy
+  coat: number[];  // Coats of finish, 0 bare
+  runs: boolean[]; // Finish that ran (or pooled) here before it dried
+  on?: boolean[];  // Cells that lie on a face that isn't square; all of them if absent
+}
+
+export interface FinishReport {
+  roughness: number; // Mean roughness left by the sanding
+  missed: number;    // Share of the surface left without a full coat
+  runs: number;      // Share marked by runs
+}
+
+export const FINISHES: Record<FinishKind, FinishDef> = {
+  oil: {
+    name: "Tung oil", nameZh: "桐油", color: "#b7772e", opacity: 0.5, runAt: 1.6,
+    about: "Soaks in and warms the grain. It is thin, so heavy strokes run.",
+  },
+  lacquer: {
+    name: "Raw lacquer", nameZh: "大漆", color: "#4a1410", opacity: 0.92, runAt: 2.2,
+    about: "Sap of the lacquer tree: a deep red-black shine that hides the grain. Thick, so it builds up slowly.",
+  },
+};
+
+export const GRITS = [80, 150, 240];
+const GRIT_SMOOTHNESS = [0.55, 0.25, 0.06]; // Roughness each grit leaves behind
+const GRIT_CUT = [0.1, 0.07, 0.05];        // Roughness one pass of the block takes off
+const SKIPPED_GRIT_CUT = 0.15;             // Share of that cut a grit makes on scratches it is too fine for
+const SANDED_TOLERANCE = 0.02;
+
+export const FINISH_RES = 16;
+export const MIN_COAT = 0.5;   // Less than this and the wood shows through bare
+const DEPOSIT = 0.1;           // Finish one dab lays on with a full brush
+const BRUSH_DRAIN = 0.015;     // Load one dab uses up; a dip fills the brush to 1
+
+export const freshPanel = (): FinishPanel => {
+  const cells = FINISH_RES * FINISH_RES;
+  return { rough: new Array(cells).fill(1), coat: new Array(cells).fill(0), runs: new Array(cells).fill(false) };
+};
+
+/** A panel for a round face, such as a stool seat: only the cells inside the circle count. */
+export const roundPanel = (): FinishPanel => ({
+  ...freshPanel(),
+  on: Array.from({ length: FINISH_RES * FINISH_RES }, (_, i) =>
+    Math.hypot((i % FINISH_RES) + 0.5 - FINISH_RES / 2, Math.floor(i / FINISH_RES) + 0.5 - FINISH_RES / 2) <= FINISH_RES / 2),
+});
+
+const isOn = (panel: FinishPanel, i: number) => !panel.on || panel.on[i];
+
+/** Cells within `radius` (in cells) of the point `u`, `v` (0-1 across the panel). */
+export function cellsAround(u: number, v: number, radius: number): number[] {
+  const cells: number[] = [];
+  for (let row = 0; row < FINISH_RES; row++) {
+    for (let col = 0; col < FINISH_RES; col++) {
+      if (Math.hypot(col + 0.5 - u * FINISH_RES, row + 0.5 - v * FINISH_RES) <= radius) cells.push(row * FINISH_RES + col);
+    }
+  }
+  return cells;
+}
+
+/** One pass of a sanding block with grit `grit` (an index into GRITS) over `cells`. */
+export function sand(panel: FinishPanel, cells: number[], grit: number): { panel: FinishPanel; tip?: string } {
+  const rough = [...panel.rough];
+  const coarser = grit > 0 ? GRIT_SMOOTHNESS[grit - 1] + SANDED_TOLERANCE : Infinity;
+  let skipped = false;
+  cells.forEach(i => {
+    if (!isOn(panel, i) || rough[i] <= GRIT_SMOOTHNESS[grit]) return;
+    const tooFine = rough[i] > coarser;
+    if (tooFine) skipped = true;
+    rough[i] = Math.max(GRIT_SMOOTHNESS[grit], rough[i] - GRIT_CUT[grit] * (tooFine ? SKIPPED_GRIT_CUT : 1));
+  });
+  const tip = skipped ? `This grit is too fine for those scratches. Go back to ${GRITS[grit - 1]} grit first.` : undefined;
+  return { panel: { ...panel, rough }, tip };
+}
+
+/** Every cell as smooth as `grit` leaves it. */
+export const isSandedTo = (panels: FinishPanel[], grit: number) =>
+  panels.every(p => p.rough.every((r, i) => !isOn(p, i) || r <= GRIT_SMOOTHNESS[grit] + SANDED_TOLERANCE));
+
+export const isSanded = (panels: FinishPanel[]) => isSandedTo(panels, GRITS.length - 1);
+
+/**
+ * One dab of a brush holding `load` (0-1) of finish `kind` over `cells`.
+ * Finish heaped past what the face holds runs: down a `vertical` face into
+ * the cells below, or into a pool on a flat one. Returns the brush's load after.
+ */
+export function brushOn(panel: FinishPanel, cells: number[], kind: FinishKind, load: number, vertical: boolean): { panel: FinishPanel; load: number } {
+  if (load <= 0) return { panel, load: 0 };
+  const coat = [...panel.coat];
+  const runs = [...panel.runs];
+  const { runAt } = FINISHES[kind];
+  const onFace = cells.filter(i => isOn(panel, i));
+  onFace.forEach(i => { coat[i] += DEPOSIT * load; });
+  onFace.forEach(i => {
+    if (coat[i] <= runAt) return;
+    runs[i] = true;
+    if (!vertical) return;
+    // The excess sags down the face until it thins out
+    let excess = coat[i] - runAt;
+    coat[i] = runAt;
+    for (let below = i - FINISH_RES; below >= 0 && excess > 0; below -= FINISH_RES) {
+      runs[below] = true;
+      const taken = Math.min(excess, Math.max(0, runAt - coat[below]) + excess / 2);
+      coat[below] += taken;
+      excess -= taken;
+    }
+  });
+  return { panel: { ...panel, coat, runs }, load: Math.max(0, load - BRUSH_DRAIN) };
+}
+
+export function finishReport(panels: FinishPanel[]): FinishReport {
+  const cells = panels.flatMap((p, n) => p.rough.map((_, i) => [n, i]).filter(([, i]) => isOn(p, i)));
+  const share = (test: (p: FinishPanel, i: number) => boolean) =>
+    cells.filter(([n, i]) => test(panels[n], i)).length / cells.length;
+  return {
+    roughness: cells.reduce((sum, [n, i]) => sum + panels[n].rough[i], 0) / cells.length,
+    missed: share((p, i) => p.coat[i] < MIN_COAT),
+    runs: share((p, i) => p.runs[i]),
+  };
+}
+
+/** At least some finish on every panel: ready to leave to cure. */
+export const isFinished = (panels: FinishPanel[]) => panels.every(p => p.coat.some(c => c >= MIN_COAT));
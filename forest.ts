@@ -0,0 +1,96 @@
+import { WoodSpecies } from './species';
+import { generateWoodland, randomSeed } from './woodland';
+
+// The forest plot the Timber Stage harvests from. It is saved with the game,
+// so felled trees stay stumps until the player plants a sapling there, and
+// saplings take a few seasons to grow. A season passes with every finished
+// project and with every real day away from the game. The plot itself is laid
+// out by the seeded generator in woodland.ts.
+
+export type ForestStage = 'sapling' | 'tree' | 'stump';
+
+export interface ForestTree {
+  id: number;
+  x: number;
+  z: number;
+  species: WoodSpecies;
+  stage: ForestStage;
+  plantedSeason: number; // Season the sapling went in (trees started the game grown)
+  radius: number;        // Trunk radius at the base; sets how wide a log it gives
+  height: number;        // Trunk length; sets how long a log it gives
+}
+
+export interface ForestState {
+  seed: number; // Regenerates the terrain and undergrowth, and identifies the layout
+  season: number;
+  lastGrowth: number; // Timestamp the last day-based season was counted from
+  trees: ForestTree[];
+}
+
+export const SAPLING_SEASONS = 2;   // Seasons before a sapling can be felled
+export const TREES_PER_HARVEST = 2; // Trees the Timber Stage asks for
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HEALTHY_COVER = 0.6; // Share of plots grown (saplings count half) for full health
+
+export const newForest = (seed = randomSeed(), now = Date.now()): ForestState => ({
+  seed,
+  season: 0,
+  lastGrowth: now,
+  trees: generateWoodland(seed).trees.map((tree, id) => ({ ...tree, id })),
+});
+
+/** Moves the forest on by `seasons`; saplings old enough become trees. */
+export function growForest(forest: ForestState, seasons = 1): ForestState {
+  const season = forest.season + seasons;
+  return {
+    ...forest,
+    season,
+    trees: forest.trees.map(tree =>
+      tree.stage === 'sapling' && season - tree.plantedSeason >= SAPLING_SEASONS ? { ...tree, stage: 'tree' } : tree
+    ),
+  };
+}
+
+/** Counts a season for every whole day since the forest last grew. */
+export function growSinceLastVisit(forest: ForestState, now = Date.now()): ForestState {
+  const days = Math.floor((now - forest.lastGrowth) / DAY_MS);
+  if (days <= 0) return forest;
+  return { ...growForest(forest, days), lastGrowth: forest.lastGrowth + days * DAY_MS };
+}
+
+export const fellTree = (forest: ForestState, id: number): ForestState => ({
+  ...forest,
+  trees: forest.trees.map(tree => (tree.id === id && tree.stage === 'tree' ? { ...tree, stage: 'stump' } : tree)),
+});
+
+/** Replants a stump with a sapling of the same species. */
+export const plantSapling = (forest: ForestState, id: number): ForestState => ({
+  ...forest,
+  trees: forest.trees.map(tree =>
+    tree.id === id && tree.stage === 'stump' ? { ...tree, stage: 'sapling', plantedSeason: forest.season } : tree
+  ),
+});
+
+/**
+ * True while the plot is as its seed laid it out: nothing felled, nothing
+ * replanted. Only then may it be swapped for one grown from another seed,
+ * without throwing away the stand's history.
+ */
+export function isUntouched(forest: ForestState): boolean {
+  const laidOut = generateWoodland(forest.seed).trees;
+  return laidOut.length === forest.trees.length &&
+    forest.trees.every((tree, i) => tree.stage !== 'stump' && tree.plantedSeason === laidOut[i].plantedSeason);
+}
+
+export const countStage = (forest: ForestState, stage: ForestStage) =>
+  forest.trees.filter(tree => tree.stage === stage).length;
+
+/**
+ * 0-100. Full while enough of the plot is grown; felling more than the
+ * forest can spare, and leaving stumps unplanted, drags it down.
+ */
+export function forestHealth(forest: ForestState): number {
+  if (forest.trees.length === 0) return 0;
+  const cover = countStage(forest, 'tree') + countStage(forest, 'sapling') * 0.5;
+  return Math.round(Math.min(1, cover / (forest.trees.length * HEALTHY_COVER)) * 100);
+}
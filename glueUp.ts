@@ -0,0 +1,67 @@
+import { ClampPlacement, PRESSURE_RANGE } from './clamps';
+
+// Gluing a fitted joint. Glue is brushed along each joint line, then clamps
+// go on and are screwed down against a pressure gauge. Each clamp presses
+// hardest under its jaws and less further away, so the clamps must be spread
+// out and tightened evenly: too little pressure leaves the glue line open,
+// too much squeezes the glue out and starves the joint. Then it has to dry.
+
+export interface GlueUpState {
+  glue: boolean[][]; // Per joint line, per segment: has glue been spread there
+  clamps: ClampPlacement[]; // On the joint lines
+}
+
+export interface GlueLineReport {
+  open: number;    // Share of the glue line left open: unglued or under-clamped
+  starved: number; // Share squeezed dry by over-clamping
+}
+
+export const GLUE_SEGMENTS = 8;
+export const MAX_CLAMPS = 6;
+export const CURE_MINUTES = 30;             // Hide glue left in the clamps...
+export const DRYING_MS = 8000;              // ...sped up
+const CLAMP_REACH = 0.4;                    // How far along the joint a clamp's pressure spreads, as a share of its length
+
+export const freshGlueUp = (edges: number): GlueUpState => ({
+  glue: Array.from({ length: edges }, () => new Array(GLUE_SEGMENTS).fill(false)),
+  clamps: [],
+});
+
+export const segmentAt = (at: number) => Math.max(0, Math.min(GLUE_SEGMENTS - 1, Math.floor(at * GLUE_SEGMENTS)));
+
+export function spreadGlue(state: GlueUpState, edge: number, at: number): GlueUpState {
+  const segment = segmentAt(at);
+  if (state.glue[edge]?.[segment] !== false) return state;
+  return { ...state, glue: state.glue.map((line, i) => (i === edge ? line.map((g, s) => g || s === segment) : line)) };
+}
+
+export const isGlued = (state: GlueUpState) => state.glue.every(line => line.every(Boolean));
+
+/** Pressure reaching each segment of joint line `edge` from all the clamps on it. */
+export function segmentPressure(state: GlueUpState, edge: number): number[] {
+  return Array.from({ length: GLUE_SEGMENTS }, (_, s) => {
+    const centre = (s + 0.5) / GLUE_SEGMENTS;
+    return state.clamps
+      .filter(c => c.edge === edge)
+      .reduce((sum, c) => sum + c.pressure * Math.max(0, 1 - Math.abs(c.at - centre) / CLAMP_REACH), 0);
+  });
+}
+
+/** How much of the glue line will hold once dry. */
+export function glueLineReport(state: GlueUpState): GlueLineReport {
+  let open = 0;
+  let starved = 0;
+  state.glue.forEach((line, edge) => {
+    const pressure = segmentPressure(state, edge);
+    line.forEach((glued, s) => {
+      if (!glued || pressure[s] < PRESSURE_RANGE[0]) open++;
+      else if (pressure[s] > PRESSURE_RANGE[1]) starved++;
+    });
+  });
+  const total = state.glue.length * GLUE_SEGMENTS;
+  return { open: open / total, starved: starved / total };
+}
+
+/** Glue on every line and at least one clamp tight on each: ready to leave to dry. */
+export const canDry = (state: GlueUpState) =>
+  isGlued(state) && state.glue.every((_, edge) => state.clamps.some(c => c.edge === edge && c.pressure > 0));
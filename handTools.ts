@@ -0,0 +1,101 @@
+import { DovetailLayout } from './dovetail';
+import { SocketField, socketColumns } from './carving';
+
+// The hand-tool path for the dovetail sockets, the way they are cut in a
+// Chinese workshop: a saw down both angled cheeks of each socket, tilted to
+// the marked slope, then a chisel and mallet to chop the waste out between
+// the kerfs. Chopping goes half way from each face of the board; driving the
+// chisel right through from one side splits the far face out.
+
+export type ChiselFace = 'top' | 'bottom';
+
+export interface SocketHandCut {
+  cheeks: [number, number];  // Kerf down the left and right cheeks, 0-1 of the way to the baseline
+  chopped: [number, number]; // Chisel depth from the top and bottom faces, 0-1 of the board thickness
+}
+
+export const SAW_STROKE_DEPTH = 0.15;  // Kerf one stroke cuts in fir
+export const CHISEL_BLOW_DEPTH = 0.2;  // Depth one mallet blow drives the chisel in fir
+export const SAW_LINE_TOLERANCE = 0.06; // How far off the pencil line the saw still follows it
+const SAW_ANGLE_TOLERANCE = 0.06;      // Radians the blade may lean off the marked slope
+const HALF = 0.5;
+
+export const freshHandCut = (): SocketHandCut => ({ cheeks: [0, 0], chopped: [0, 0] });
+
+/** Lean of the left cheek from vertical; the right cheek leans the other way. */
+export const cheekSlope = (layout: DovetailLayout) =>
+  Math.atan2((layout.tailWidthTip - layout.tailWidthRoot) / 2, layout.jointHeight);
+
+/** Saw tilt that follows cheek `side` (0 left, 1 right). */
+export const cheekTilt = (layout: DovetailLayout, side: 0 | 1) => (side === 0 ? 1 : -1) * cheekSlope(layout);
+
+/**
+ * One stroke of a saw entering the top face at `x` from the socket centre,
+ * leaning `tilt` (positive leans its teeth toward +X). Deepens the kerf on the
+ * cheek it is lined up with and reports `drift`: how far the cut strays into
+ * the pin at either face (negative while it stays in the waste).
+ */
+export function sawStroke(cut: SocketHandCut, layout: DovetailLayout, x: number, tilt: number, depth: number): { cut: SocketHandCut; drift?: number; tip?: string } {
+  const side: 0 | 1 = x < 0 ? 0 : 1;
+  const sign = side === 0 ? -1 : 1;
+  const topX = sign * layout.tailWidthTip / 2;
+  const bottomX = sign * layout.tailWidthRoot / 2;
+  if (Math.abs(x - topX) > SAW_LINE_TOLERANCE) {
+    return { cut, tip: "Start the saw on a pencil line, on the waste side." };
+  }
+  if (Math.abs(tilt - cheekTilt(layout, side)) > SAW_ANGLE_TOLERANCE) {
+    return { cut, tip: "Tilt the saw (scroll or Q/E) so it follows the marked slope." };
+  }
+  if (cut.cheeks[side] >= 1) {
+    return { cut, tip: "This cheek is sawn down to the baseline. On to the next line!" };
+  }
+  // Pins lie outside the socket, so drifting outward (with `sign`) cuts into one
+  const exitX = x + Math.tan(tilt) * layout.jointHeight;
+  const drift = Math.max((x - topX) * sign, (exitX - bottomX) * sign);
+  const cheeks: [number, number] = [...cut.cheeks];
+  cheeks[side] = Math.min(1, cheeks[side] + depth);
+  return { cut: { ...cut, cheeks }, drift };
+}
+
+/**
+ * One mallet blow on a chisel held to `face`. The waste drops out once the
+ * two faces' chops meet; a blow past half way from one face while the other
+ * is still whole splits that far face out.
+ */
+export function chiselBlow(cut: SocketHandCut, face: ChiselFace, depth: number): { cut: SocketHandCut; blowout?: boolean; tip?: string } {
+  if (cut.cheeks[0] < 1 || cut.cheeks[1] < 1) {
+    return { cut, tip: "Saw both cheeks down to the baseline before chopping." };
+  }
+  if (isChopped(cut)) return { cut };
+  const index = face === 'top' ? 0 : 1;
+  const other = 1 - index;
+  if (cut.chopped[index] >= HALF && cut.chopped[other] < HALF) {
+    return { cut: { ...cut, chopped: [1, 1] }, blowout: true };
+  }
+  const chopped: [number, number] = [...cut.chopped];
+  chopped[index] = Math.min(HALF, chopped[index] + depth);
+  return { cut: { ...cut, chopped } };
+}
+
+export const isChopped = (cut: SocketHandCut) => cut.chopped[0] + cut.chopped[1] >= 1;
+
+/**
+ * Brings the socket's waste heightfield in line with the chisel work: chops
+ * from the top lower it, and once the waste is out nothing is left. Mutates
+ * `field`.
+ */
+export function chopField(field: SocketField, layout: DovetailLayout, cut: SocketHandCut) {
+  if (isChopped(cut)) {
+    field.fill(0);
+    return;
+  }
+  const chopTo = layout.jointHeight * (1 - cut.chopped[0]);
+  socketColumns(layout).forEach((column, i) => {
+    const wasteHeight = layout.jointHeight - column.floor;
+    if (wasteHeight <= 0) return;
+    field[i] = Math.min(field[i], Math.max(0, (chopTo - column.floor) / wasteHeight));
+  });
+}
+
+/** Saw drift as overcut for the accuracy report, in pencil-line tolerances. */
+export const sawOvercut = (drift: number) => Math.max(0, drift) / SAW_LINE_TOLERANCE;
@@ -0,0 +1,104 @@
+import { WoodSpecies, SPECIES } from './species';
+import { FinishKind, FINISHES } from './finishing';
+
+// Typed inventory: raw logs, milled boards, finished goods and tools, kept as
+// stacks of identical items. Items are plain data so the inventory saves as JSON.
+
+export interface LogItem {
+  kind: 'log';
+  species: WoodSpecies;
+  length: number;
+  diameter: number;
+}
+
+export interface BoardItem {
+  kind: 'board';
+  species: WoodSpecies;
+  length: number;
+  width: number;
+  thickness: number;
+}
+
+export interface GoodItem {
+  kind: 'good';
+  name: string;
+  icon: string;
+  finish?: FinishKind; // Oil or lacquer brushed on before it was collected
+}
+
+export interface ToolItem {
+  kind: 'tool';
+  name: string;
+  icon: string;
+}
+
+export type InventoryItem = LogItem | BoardItem | GoodItem | ToolItem;
+export type ItemKind = InventoryItem['kind'];
+
+export interface InventoryStack {
+  item: InventoryItem;
+  quantity: number;
+}
+
+export type Inventory = InventoryStack[];
+
+// Every new workshop starts with these
+export const STARTER_TOOLS: ToolItem[] = [
+  { kind: 'tool', name: "Chainsaw", icon: "🪚" },
+  { kind: 'tool', name: "Ink Line 墨斗", icon: "🧵" },
+  { kind: 'tool', name: "Marking Gauge", icon: "📏" },
+  { kind: 'tool', name: "Router", icon: "🌀" },
+  { kind: 'tool', name: "Drill", icon: "🔩" },
+  { kind: 'tool', name: "Clamp", icon: "🗜️" },
+  { kind: 'tool', name: "Mallet", icon: "🔨" },
+];
+
+export const newInventory = (): Inventory => STARTER_TOOLS.map(item => ({ item, quantity: 1 }));
+
+// Dimensions are compared to the nearest millimetre (1 world unit = 100 mm)
+const dim = (value: number) => Math.round(value * 1000);
+
+/** Items with the same key stack together. */
+export function itemKey(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'log': return `log:${item.species}:${dim(item.length)}:${dim(item.diameter)}`;
+    case 'board': return `board:${item.species}:${dim(item.length)}:${dim(item.width)}:${dim(item.thickness)}`;
+    case 'good': return item.finish ? `good:${item.name}:${item.finish}` : `good:${item.name}`;
+    case 'tool': return `tool:${item.name}`;
+  }
+}
+
+export function itemName(item: InventoryItem): string {
+  switch (item.kind) {
+    case 'log': return `${SPECIES[item.species].name} log`;
+    case 'board': return `${SPECIES[item.species].name} board`;
+    case 'good': return item.finish ? `${item.name} (${FINISHES[item.finish].name.toLowerCase()})` : item.name;
+    case 'tool': return item.name;
+  }
+}
+
+export function addItem(inventory: Inventory, item: InventoryItem, quantity = 1): Inventory {
+  const key = itemKey(item);
+  if (inventory.some(s => itemKey(s.item) === key)) {
+    return inventory.map(s => (itemKey(s.item) === key ? { ...s, quantity: s.quantity + quantity } : s));
+  }
+  return [...inventory, { item, quantity }];
+}
+
+/** Takes up to `quantity` of `item` out; empty stacks are dropped. */
+export function removeItem(inventory: Inventory, item: InventoryItem, quantity = 1): Inventory {
+  const key = itemKey(item);
+  return inventory
+    .map(s => (itemKey(s.item) === key ? { ...s, quantity: s.quantity - quantity } : s))
+    .filter(s => s.quantity > 0);
+}
+
+/** Every item of `kind`, one entry per unit (a stack of 3 appears 3 times). */
+export function itemsOfKind<K extends ItemKind>(inventory: Inventory, kind: K): Extract<InventoryItem, { kind: K }>[] {
+  return inventory
+    .filter(s => s.item.kind === kind)
+    .flatMap(s => new Array(s.quantity).fill(s.item));
+}
+
+export const countOf = (inventory: Inventory, kind: ItemKind) =>
+  inventory.reduce((sum, s) => sum + (s.item.kind === kind ? s.quantity : 0), 0);
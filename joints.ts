@@ -0,0 +1,345 @@
+import * as THREE from 'three';
+
+// Parametric builders for traditional Chinese mortise-and-tenon (sunmao 榫卯)
+// joints. Like PinBoardMesh/TailBoardMesh, every part is a 2D profile that gets
+// extruded, so the React side only has to render <extrudeGeometry>.
+//
+// Frame: the female member sits at the origin in its assembled position. Male
+// parts are also placed assembled; moving them by -assemblyDirection explodes
+// the joint. Waste regions are the material the router/chisel has to remove
+// from the raw stock of each part.
+
+export type Vec3 = [number, number, number];
+type Pt = [number, number];
+
+export type JointKind = 'dovetailTenon' | 'straightTenon' | 'threeWayMitre' | 'shoulderHug' | 'wedgedScarf';
+
+export interface JointParams {
+  size: number;       // Square section of the members
+  tenonRatio: number; // Tenon width relative to `size`
+  length: number;     // Length of each member away from the joint
+}
+
+export interface JointSolid {
+  shape: THREE.Shape;
+  depth: number;      // Extrusion depth along the local Z axis
+  position: Vec3;
+  rotation: Vec3;
+}
+
+export interface JointWaste {
+  id: string;
+  part: 'male' | 'female';
+  solid: JointSolid;
+}
+
+export interface JointGeometry {
+  kind: JointKind;
+  male: JointSolid[];
+  female: JointSolid[];
+  pins: JointSolid[]; // Loose parts driven in after assembly (wedges)
+  waste: JointWaste[];
+  assemblyDirection: Vec3; // How the male part moves to go home
+  pinDirection: Vec3;
+}
+
+export const DEFAULT_JOINT_PARAMS: JointParams = { size: 0.6, tenonRatio: 1 / 3, length: 2 };
+
+export const JOINT_CATALOG: Record<JointKind, { name: string; nameZh: string; description: string }> = {
+  dovetailTenon: {
+    name: "Dovetail Tenon",
+    nameZh: "燕尾榫",
+    description: "A flared tenon dropped into a matching socket; it cannot pull out sideways.",
+  },
+  straightTenon: {
+    name: "Straight Tenon",
+    nameZh: "直榫",
+    description: "A plain rectangular tenon through a mortise, the basic beam-to-post joint.",
+  },
+  threeWayMitre: {
+    name: "Three-way Mitred Corner",
+    nameZh: "粽角榫",
+    description: "Two rails mitre over a leg whose tenon passes up through both, used on cabinet corners.",
+  },
+  shoulderHug: {
+    name: "Shoulder-hugging Joint",
+    nameZh: "抱肩榫",
+    description: "Mitred aprons hug the leg's shoulder and hang on dovetail keys in the leg.",
+  },
+  wedgedScarf: {
+    name: "Wedged Scarf Joint",
+    nameZh: "楔钉榫",
+    description: "Two hooked half-laps joined end to end and locked by a driven wedge pin.",
+  },
+};
+
+// --- Shape Helpers ---
+
+const polygon = (pts: Pt[], holes: Pt[][] = []) => {
+  const s = new THREE.Shape();
+  s.moveTo(pts[0][0], pts[0][1]);
+  pts.slice(1).forEach(([x, y]) => s.lineTo(x, y));
+  s.closePath();
+  holes.forEach(hole => {
+    const path = new THREE.Path();
+    path.moveTo(hole[0][0], hole[0][1]);
+    hole.slice(1).forEach(([x, y]) => path.lineTo(x, y));
+    path.closePath();
+    s.holes.push(path);
+  });
+  return s;
+};
+
+const rectPts = (x0: number, y0: number, x1: number, y1: number): Pt[] => [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+
+// Swap X/Y (mirror about the diagonal), reversing order to keep the winding
+const mirrorXY = (pts: Pt[]): Pt[] => pts.map(([x, y]) => [y, x] as Pt).reverse();
+
+// Side view: profile in the XY plane, extruded along +Z from z0
+const sideSolid = (shape: THREE.Shape, z0: number, depth: number): JointSolid => ({
+  shape, depth, position: [0, 0, z0], rotation: [0, 0, 0],
+});
+
+// Plan view: shape X = world X, shape Y = world -Z, extruded upward from y0
+const planSolid = (shape: THREE.Shape, y0: number, height: number): JointSolid => ({
+  shape, depth: height, position: [0, y0, 0], rotation: [-Math.PI / 2, 0, 0],
+});
+
+// --- Builders ---
+
+// 直榫: beam along +Z with a through tenon in a post's mortise
+function buildStraightTenon({ size: s, tenonRatio, length: L }: JointParams): JointGeometry {
+  const tw = s * tenonRatio;
+  const th = s * 0.6;
+  const postH = L;
+  const yc = postH - s; // Beam centre height
+  const tenon = rectPts(-tw / 2, yc - th / 2, tw / 2, yc + th / 2);
+  const beam = rectPts(-s / 2, yc - s / 2, s / 2, yc + s / 2);
+
+  return {
+    kind: 'straightTenon',
+    female: [sideSolid(polygon(rectPts(-s / 2, 0, s / 2, postH), [tenon]), -s / 2, s)],
+    male: [
+      sideSolid(polygon(beam), s / 2, L),
+      sideSolid(polygon(tenon), -s / 2, s),
+    ],
+    pins: [],
+    waste: [
+      { id: 'mortise', part: 'female', solid: sideSolid(polygon(tenon), -s / 2, s) },
+      { id: 'cheeks', part: 'male', solid: sideSolid(polygon(beam, [tenon]), -s / 2, s) },
+    ],
+    assemblyDirection: [0, 0, -1],
+    pinDirection: [0, 0, -1],
+  };
+}
+
+// 燕尾榫: beam along +Z whose flared tenon drops into a socket in a cross beam
+function buildDovetailTenon({ size: s, tenonRatio, length: L }: JointParams): JointGeometry {
+  const nw = s * tenonRatio * 1.2; // Neck at the face
+  const ww = nw * 1.5;             // Flared end
+  const d = s * 0.5;               // Socket depth
+  const face = -s / 2;             // +Z face of the cross beam, in shape Y
+  const socket: Pt[] = [[-nw / 2, face], [nw / 2, face], [ww / 2, face + d], [-ww / 2, face + d]];
+
+  const crossBeam: Pt[] = [
+    [-L / 2, face], [-nw / 2, face], [-ww / 2, face + d], [ww / 2, face + d], [nw / 2, face],
+    [L / 2, face], [L / 2, s / 2], [-L / 2, s / 2],
+  ];
+
+  return {
+    kind: 'dovetailTenon',
+    female: [planSolid(polygon(crossBeam), 0, s)],
+    male: [
+      planSolid(polygon(rectPts(-s / 2, face - L, s / 2, face)), 0, s),
+      planSolid(polygon(socket), 0, s),
+    ],
+    pins: [],
+    waste: [
+      { id: 'socket', part: 'female', solid: planSolid(polygon(socket), 0, s) },
+      { id: 'shoulder-left', part: 'male', solid: planSolid(polygon([[-s / 2, face], [-nw / 2, face], [-ww / 2, face + d], [-s / 2, face + d]]), 0, s) },
+      { id: 'shoulder-right', part: 'male', solid: planSolid(polygon([[nw / 2, face], [s / 2, face], [s / 2, face + d], [ww / 2, face + d]]), 0, s) },
+    ],
+    assemblyDirection: [0, -1, 0],
+    pinDirection: [0, -1, 0],
+  };
+}
+
+// 粽角榫 (simplified): two rails mitre over the corner, the leg's tenon
+// passes up through the mitre and shows on top
+function buildThreeWayMitre({ size: s, tenonRatio, length: L }: JointParams): JointGeometry {
+  const t = s * tenonRatio;
+  const lo = s / 2 - t / 2;
+  const hi = s / 2 + t / 2;
+  const legH = L;
+
+  // Rail along X keeps the part of the corner square where x >= y
+  const railX: Pt[] = [[0, 0], [L, 0], [L, s], [s, s], [hi, hi], [hi, lo], [lo, lo]];
+  const railZ = mirrorXY(railX);
+  const tenon = rectPts(lo, lo, hi, hi);
+
+  return {
+    kind: 'threeWayMitre',
+    female: [planSolid(polygon(railX), legH, s), planSolid(polygon(railZ), legH, s)],
+    male: [
+      planSolid(polygon(rectPts(0, 0, s, s)), 0, legH),
+      planSolid(polygon(tenon), legH, s),
+    ],
+    pins: [],
+    waste: [
+      { id: 'mortise-x', part: 'female', solid: planSolid(polygon([[lo, lo], [hi, lo], [hi, hi]]), legH, s) },
+      { id: 'mortise-z', part: 'female', solid: planSolid(polygon([[lo, lo], [hi, hi], [lo, hi]]), legH, s) },
+      { id: 'leg-top', part: 'male', solid: planSolid(polygon(rectPts(0, 0, s, s), [tenon]), legH, s) },
+    ],
+    assemblyDirection: [0, 1, 0],
+    pinDirection: [0, 1, 0],
+  };
+}
+
+// 抱肩榫 (simplified): mitred aprons on the leg's outer faces hang on dovetail
+// keys that slide down into slots in the leg's core
+function buildShoulderHug({ size: s, tenonRatio, length: L }: JointParams): JointGeometry {
+  const a = s * 0.3;        // Apron thickness
+  const h = s;              // Apron height
+  const legH = L;
+  const k = s * 0.2;        // Key depth
+  const kn = s * tenonRatio * 0.6;
+  const kw = kn * 1.6;
+  const c = (a + s) / 2;    // Key centre along the face
+
+  const core: Pt[] = [
+    [a, a], [c - kn / 2, a], [c - kw / 2, a + k], [c + kw / 2, a + k], [c + kn / 2, a],
+    [s, a], [s, s], [a, s],
+    [a, c + kn / 2], [a + k, c + kw / 2], [a + k, c - kw / 2], [a, c - kn / 2],
+  ];
+  const apronX: Pt[] = [[0, 0], [L, 0], [L, a], [a, a]];
+  const keyX: Pt[] = [[c - kn / 2, a], [c + kn / 2, a], [c + kw / 2, a + k], [c - kw / 2, a + k]];
+  const shoulderBand: Pt[] = [[0, 0], [s, 0], [s, a], [a, a], [a, s], [0, s]];
+  const y0 = legH - h;
+
+  const apronWasteX: Pt[][] = [
+    [[0, 0], [a, a], [0, a]],
+    [[a, a], [c - kn / 2, a], [c - kw / 2, a + k], [a, a + k]],
+    [[c + kn / 2, a], [s, a], [s, a + k], [c + kw / 2, a + k]],
+  ];
+
+  return {
+    kind: 'shoulderHug',
+    female: [
+      planSolid(polygon(rectPts(0, 0, s, s)), 0, y0),
+      planSolid(polygon(core), y0, h),
+    ],
+    male: [
+      planSolid(polygon(apronX), y0, h),
+      planSolid(polygon(keyX), y0, h),
+      planSolid(polygon(mirrorXY(apronX)), y0, h),
+      planSolid(polygon(mirrorXY(keyX)), y0, h),
+    ],
+    pins: [],
+    waste: [
+      { id: 'shoulder', part: 'female', solid: planSolid(polygon(shoulderBand), y0, h) },
+      { id: 'slot-x', part: 'female', solid: planSolid(polygon(keyX), y0, h) },
+      { id: 'slot-z', part: 'female', solid: planSolid(polygon(mirrorXY(keyX)), y0, h) },
+      ...apronWasteX.map((pts, i) => ({ id: `apron-x-${i}`, part: 'male' as const, solid: planSolid(polygon(pts), y0, h) })),
+      ...apronWasteX.map((pts, i) => ({ id: `apron-z-${i}`, part: 'male' as const, solid: planSolid(polygon(mirrorXY(pts)), y0, h) })),
+    ],
+    assemblyDirection: [0, -1, 0],
+    pinDirection: [0, -1, 0],
+  };
+}
+
+// 楔钉榫: two hooked half-laps along X, locked by a wedge across the lap
+function buildWedgedScarf({ size: s, tenonRatio, length: L }: JointParams): JointGeometry {
+  const h = s;
+  const m = h / 2;           // Lap line
+  const lap = s * 2.5;
+  const k = s * 0.15;        // Hook height
+  const hk = s * 0.4;        // Hook length
+  const ww = s * tenonRatio * 0.75; // Wedge width
+  const wh = s * 0.3;        // Wedge height
+  const wl = lap / 2 - ww / 2;
+  const wr = lap / 2 + ww / 2;
+
+  // Lower piece (male): keeps the bottom half of the lap, hook up at its tip
+  const lower: Pt[] = [
+    [-L, 0], [lap, 0], [lap, m + k], [lap - hk, m + k], [lap - hk, m],
+    [wr, m], [wr, m - wh / 2], [wl, m - wh / 2], [wl, m],
+    [hk, m], [hk, m - k], [0, m - k], [0, h], [-L, h],
+  ];
+  // Upper piece (female): keeps the top half, hook down at its tip
+  const upper: Pt[] = [
+    [0, m - k], [hk, m - k], [hk, m],
+    [wl, m], [wl, m + wh / 2], [wr, m + wh / 2], [wr, m],
+    [lap - hk, m], [lap - hk, m + k], [lap, m + k], [lap, 0], [lap + L, 0], [lap + L, h], [0, h],
+  ];
+  const lowerWaste: Pt[] = [
+    [0, m - k], [hk, m - k], [hk, m],
+    [wl, m], [wl, m - wh / 2], [wr, m - wh / 2], [wr, m],
+    [lap - hk, m], [lap - hk, m + k], [lap, m + k], [lap, h], [0, h],
+  ];
+  const upperWaste: Pt[] = [
+    [0, 0], [lap, 0], [lap, m + k], [lap - hk, m + k], [lap - hk, m],
+    [wr, m], [wr, m + wh / 2], [wl, m + wh / 2], [wl, m],
+    [hk, m], [hk, m - k], [0, m - k],
+  ];
+  const wedgeOverhang = s * 0.1;
+
+  return {
+    kind: 'wedgedScarf',
+    female: [sideSolid(polygon(upper), -s / 2, s)],
+    male: [sideSolid(polygon(lower), -s / 2, s)],
+    pins: [sideSolid(polygon(rectPts(wl, m - wh / 2, wr, m + wh / 2)), -s / 2 - wedgeOverhang, s + wedgeOverhang * 2)],
+    waste: [
+      { id: 'lap-upper', part: 'female', solid: sideSolid(polygon(upperWaste), -s / 2, s) },
+      { id: 'lap-lower', part: 'male', solid: sideSolid(polygon(lowerWaste), -s / 2, s) },
+    ],
+    assemblyDirection: [0, 1, 0],
+    pinDirection: [0, 0, -1],
+  };
+}
+
+const BUILDERS: Record<JointKind, (params: JointParams) => JointGeometry> = {
+  dovetailTenon: buildDovetailTenon,
+  straightTenon: buildStraightTenon,
+  threeWayMitre: buildThreeWayMitre,
+  shoulderHug: buildShoulderHug,
+  wedgedScarf: buildWedgedScarf,
+};
+
+export const JOINT_KINDS = Object.keys(BUILDERS) as JointKind[];
+
+export function buildJoint(kind: JointKind, params: Partial<JointParams> = {}): JointGeometry {
+  return BUILDERS[kind]({ ...DEFAULT_JOINT_PARAMS, ...params });
+}
+
+// --- Hit Testing ---
+
+const pointInPolygon = (x: number, y: number, pts: THREE.Vector2[]) => {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[i];
+    const b = pts[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** True if a point (in the joint's frame) lies inside a solid. */
+export function isPointInSolid(solid: JointSolid, point: THREE.Vector3): boolean {
+  const toLocal = new THREE.Quaternion().setFromEuler(new THREE.Euler(...solid.rotation)).invert();
+  const local = point.clone().sub(new THREE.Vector3(...solid.position)).applyQuaternion(toLocal);
+  if (local.z < 0 || local.z > solid.depth) return false;
+
+  const { shape, holes } = solid.shape.extractPoints(1);
+  if (!pointInPolygon(local.x, local.y, shape)) return false;
+  return !holes.some(hole => pointInPolygon(local.x, local.y, hole));
+}
+
+/** True if a tool tip of the given radius touches a waste region. */
+export function isToolInWaste(waste: JointWaste, tip: THREE.Vector3, radius = 0): boolean {
+  if (isPointInSolid(waste.solid, tip)) return true;
+  if (radius <= 0) return false;
+  const offsets: Vec3[] = [[radius, 0, 0], [-radius, 0, 0], [0, radius, 0], [0, -radius, 0], [0, 0, radius], [0, 0, -radius]];
+  return offsets.some(o => isPointInSolid(waste.solid, tip.clone().add(new THREE.Vector3(...o))));
+}
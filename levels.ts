@@ -0,0 +1,418 @@
+import { GamePhase } from './types';
+import { CutListItem } from './milling';
+import { GoodItem } from './inventory';
+import { WoodSpecies } from './species';
+
+// Declarative level definitions. App (phase flow), UIOverlay (instructions)
+// and Experience (camera) all read from here, so a new project only needs a
+// new entry in LEVELS plus its scene component.
+
+export type Vec3 = [number, number, number];
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3;
+}
+
+/**
+ * How a step finishes:
+ * - 'button': the player presses the start button in the UI
+ * - 'interaction': the 3D scene calls onPhaseComplete when the task is done
+ * - 'timer': advances by itself after `autoAdvanceMs`
+ * - 'collect': final step, left through the Collect button
+ */
+export type CompletionCondition = 'button' | 'interaction' | 'timer' | 'collect';
+
+export interface LevelStep {
+  phase: GamePhase;
+  instruction: string;
+  hint?: string; // Short tip shown in the middle of the screen
+  bounceHint?: boolean;
+  camera: CameraPose;
+  completion: CompletionCondition;
+  autoAdvanceMs?: number;
+}
+
+export type ProjectKind = 'box' | 'stool' | 'dougong' | 'luban';
+
+// The wood a project should be made from, picked in the Timber Stage
+export interface TimberChoice {
+  species: WoodSpecies;
+  reason: string; // Why it suits the job
+  unsuitable: Partial<Record<WoodSpecies, string>>; // Why each of the others doesn't
+}
+
+export interface LevelDefinition {
+  id: number;
+  name: string;
+  project: ProjectKind;
+  yields: GoodItem; // Added to the inventory when the project is collected
+  successMessage: string;
+  consumes?: CutListItem[]; // Milled boards the project uses up when work starts
+  timber?: TimberChoice;
+  steps: LevelStep[];
+}
+
+const DEFAULT_CAMERA: CameraPose = { position: [0, 6, 10], target: [0, 0, 0] };
+
+const HINT_CUT = "Drag the Router to remove material!";
+const HINT_ASSEMBLE = "Drag the parts together and use the Mallet!";
+const HINT_GLUE = "Brush glue along the joint, drag clamps onto it and click them tight!";
+const HINT_SAND = "Rub the sanding block over every face, then change to a finer grit!";
+const HINT_FINISH = "Dip the brush, then paint in even strokes. Don't go over one spot too often!";
+const HINT_MILL = "Drag the chainsaw through a log to cut it to length!";
+const HINT_FELL = "Right-click to tilt the saw: a slanted notch where it should fall, then a flat back cut behind!";
+
+export const LEVELS: LevelDefinition[] = [
+  {
+    id: 1,
+    name: "Dovetail Box",
+    project: 'box',
+    yields: { kind: 'good', name: "Dovetail Box", icon: "📦" },
+    successMessage: "You've mastered the Dovetail Joint.",
+    consumes: [
+      { label: "Pin board (bottom & lid)", length: 3, count: 2 },
+      { label: "Tail board (sides)", length: 2.9, count: 2 },
+    ],
+    timber: {
+      species: 'fir',
+      reason: "Fir is light, straight-grained and easy to saw: just right for thin boards and crisp dovetails.",
+      unsuitable: {
+        elm: "Elm is heavy, and its coarse, interlocked grain tears out when you cut fine dovetails.",
+        rosewood: "Rosewood is precious and so hard that a box full of dovetails would take all day to cut.",
+        camphor: "Camphor makes a fine chest, but its twisting grain splits along narrow pins.",
+      },
+    },
+    steps: [
+      {
+        phase: GamePhase.INTRO,
+        instruction: "Welcome! Let's build a Dovetail Box.",
+        camera: { position: [0, 6, 10], target: [0, 0, 0] },
+        completion: 'button',
+      },
+      {
+        phase: GamePhase.DESIGN,
+        instruction: "Design your joint: pick the tails, slope and board size.",
+        camera: { position: [0, 4, 5], target: [0, 1, 0] },
+        completion: 'button',
+      },
+      {
+        phase: GamePhase.TIMBER,
+        instruction: "Step 1: Harvest Timber. Pick the right wood, fell the trees, then ink a rip line on each log!",
+        hint: HINT_FELL,
+        bounceHint: true,
+        camera: { position: [0, 6, 12], target: [0, 2, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.MILLING,
+        instruction: "Mill the logs: cut them to length, then rip them into boards.",
+        hint: HINT_MILL,
+        camera: { position: [0, 6, 7], target: [0, 0.5, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.CLAMPING,
+        instruction: "Step 2: Clamp the base board down before it is cut.",
+        hint: "Spread two or more clamps along the board and click them tight!",
+        bounceHint: true,
+        camera: { position: [2, 5, 4], target: [0, 0.5, -1.1] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.PLANING,
+        instruction: "Step 3: Plane the board flat and down to thickness.",
+        hint: "Push the plane along the board, the way the grain on its edge rises!",
+        camera: { position: [2.5, 4, 4], target: [0, 0.3, -1.1] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.MARKING,
+        instruction: "Step 4: Mark out the tails: scribe the baseline, then trace each tail.",
+        hint: "Drag the gauge to the tail board's thickness, then slide the template onto each tick!",
+        camera: { position: [0.5, 3.5, 4], target: [0, 0.3, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.CUTTING,
+        instruction: "Step 5: Cut the sockets for the Front.",
+        hint: HINT_CUT,
+        camera: { position: [0, 7, 3], target: [0, 0, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.ASSEMBLY_PREP,
+        instruction: "Front sockets ready!",
+        camera: { position: [3, 4, 4], target: [0, 1, 0] },
+        completion: 'timer',
+        autoAdvanceMs: 1500,
+      },
+      {
+        phase: GamePhase.ASSEMBLY,
+        instruction: "Step 6: Attach the Front Board.",
+        hint: HINT_ASSEMBLE,
+        camera: { position: [3, 4, 4], target: [0, 1, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.GLUE_UP,
+        instruction: "Glue and clamp the front joint, then leave it to dry.",
+        hint: HINT_GLUE,
+        camera: { position: [3, 4, 5], target: [0, 1, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.CUTTING_BACK,
+        instruction: "Step 7: Now cut sockets for the Back.",
+        hint: HINT_CUT,
+        camera: { position: [0, 7, -5], target: [0, 0, -1.5] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.ASSEMBLY_C,
+        instruction: "Step 8: Attach the Back Board.",
+        hint: HINT_ASSEMBLE,
+        camera: { position: [-3, 4, -5], target: [0, 1, -1.5] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.GLUE_UP_C,
+        instruction: "Glue and clamp the back joint, then leave it to dry.",
+        hint: HINT_GLUE,
+        camera: { position: [-3, 4, -6], target: [0, 1, -2.2] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.CUTTING_TOP,
+        instruction: "Step 9: Prepare the Top Lid.",
+        hint: HINT_CUT,
+        camera: { position: [0, 10, -1.5], target: [0, 2, -1.5] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.ASSEMBLY_D,
+        instruction: "Step 10: Cap it off with the Top.",
+        hint: HINT_ASSEMBLE,
+        camera: { position: [4, 6, 4], target: [0, 2, -1.5] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.GLUE_UP_D,
+        instruction: "Glue and clamp the lid, then leave it to dry.",
+        hint: HINT_GLUE,
+        camera: { position: [4, 6, 5], target: [0, 2, -1.1] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.SANDING,
+        instruction: "Sand the box smooth, working from coarse grit to fine.",
+        hint: HINT_SAND,
+        camera: { position: [-4, 5, 5], target: [0, 1.5, -1.1] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.FINISHING,
+        instruction: "Pick a finish and brush it over every face.",
+        hint: HINT_FINISH,
+        camera: { position: [4, 5, 5], target: [0, 1.5, -1.1] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.SUCCESS,
+        instruction: "Congratulations! A sturdy box structure.",
+        camera: { position: [-5, 4, 5], target: [0, 1, -1.5] },
+        completion: 'collect',
+      },
+    ],
+  },
+  {
+    id: 2,
+    name: "Wooden Stool",
+    project: 'stool',
+    yields: { kind: 'good', name: "Wooden Stool", icon: "🪑" },
+    successMessage: "You've built a sturdy Wooden Stool.",
+    consumes: [
+      { label: "Seat blank", length: 2.4, count: 1 },
+      { label: "Leg billet (2 legs each)", length: 3.5, count: 2 },
+    ],
+    timber: {
+      species: 'elm',
+      reason: "Elm is tough and hard to split: legs wedged into an elm seat stay tight for generations.",
+      unsuitable: {
+        fir: "Fir is too soft for a seat: the leg holes crush and the legs soon work loose.",
+        rosewood: "Rosewood is too precious and heavy for an everyday stool.",
+        camphor: "Camphor is weak across the grain, so a seat with four holes in it may crack.",
+      },
+    },
+    steps: [
+      {
+        phase: GamePhase.INTRO,
+        instruction: "Level 2: Let's build a Round Stool.",
+        camera: { position: [0, 5, 8], target: [0, 1, 0] },
+        completion: 'button',
+      },
+      {
+        // Skipped when there is already enough milled stock
+        phase: GamePhase.TIMBER,
+        instruction: "Pick the wood for a stool, then fell two trees for the seat and legs.",
+        hint: HINT_FELL,
+        bounceHint: true,
+        camera: { position: [0, 6, 12], target: [0, 2, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.MILLING,
+        instruction: "Mill the logs into a seat blank and leg billets.",
+        hint: HINT_MILL,
+        camera: { position: [0, 6, 7], target: [0, 0.5, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.CLAMPING,
+        instruction: "Step 1: Secure the seat block.",
+        hint: "Tap the Clamp to tighten!",
+        bounceHint: true,
+        camera: { position: [2, 4, 4], target: [0, 0.5, 0] },
+        completion: 'interaction',
+      },
+      {
+        // Skip marking, go straight to drilling holes for the legs
+        phase: GamePhase.CUTTING,
+        instruction: "Step 2: Drill the leg holes through the seat, splayed outward.",
+        hint: "Set the depth stop, lean the drill (Q/E, A/D) along the bevel, then hold Space to bore!",
+        camera: { position: [0, 6, 2], target: [0, 0, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.ASSEMBLY,
+        instruction: "Step 3: Hammer the legs into place.",
+        hint: HINT_ASSEMBLE,
+        camera: { position: [3, 3, 3], target: [0, 1.5, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.WEDGING,
+        instruction: "Step 4: Saw a kerf in each tenon end and drive a wedge into it.",
+        hint: "Saw across the seat's grain, then use the Mallet on each wedge!",
+        camera: { position: [2, 6.5, 3], target: [0, 3.8, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.SANDING,
+        instruction: "Step 5: Sand the seat smooth, working from coarse grit to fine.",
+        hint: HINT_SAND,
+        camera: { position: [-3, 6.5, 4], target: [0, 3.6, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.FINISHING,
+        instruction: "Step 6: Pick a finish and brush it over the seat.",
+        hint: HINT_FINISH,
+        camera: { position: [3, 6.5, 4], target: [0, 3.6, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.SUCCESS,
+        instruction: "Stool Complete!",
+        camera: { position: [0, 3, 6], target: [0, 1, 0] },
+        completion: 'collect',
+      },
+    ],
+  },
+  {
+    id: 3,
+    name: "Dougong Bracket Set",
+    project: 'dougong',
+    yields: { kind: 'good', name: "Dougong Bracket", icon: "🏯" },
+    successMessage: "You've stacked a Dougong (斗拱), the heart of Chinese timber halls.",
+    steps: [
+      {
+        phase: GamePhase.INTRO,
+        instruction: "Level 3: Assemble a Dougong (斗拱) bracket set.",
+        camera: { position: [0, 5, 9], target: [0, 0.5, 0] },
+        completion: 'button',
+      },
+      {
+        phase: GamePhase.ASSEMBLY,
+        instruction: "Stack the blocks (斗) and arms (栱) from the bottom up.",
+        hint: "Drag each part down onto the stack, then use the Mallet!",
+        camera: { position: [4, 5, 6], target: [0, 0.8, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.SUCCESS,
+        instruction: "Dougong Complete!",
+        camera: { position: [-4, 3, 5], target: [0, 0.8, 0] },
+        completion: 'collect',
+      },
+    ],
+  },
+  {
+    id: 4,
+    name: "Luban Lock",
+    project: 'luban',
+    yields: { kind: 'good', name: "Luban Lock", icon: "🧩" },
+    successMessage: "You've solved a Luban Lock (鲁班锁), the puzzle named after the master carpenter.",
+    steps: [
+      {
+        phase: GamePhase.INTRO,
+        instruction: "Level 4: Solve a Luban Lock (鲁班锁).",
+        camera: { position: [0, 4, 6], target: [0, 1, 0] },
+        completion: 'button',
+      },
+      {
+        phase: GamePhase.DISASSEMBLY,
+        instruction: "Take the lock apart, one stick at a time.",
+        hint: "Click a stick and drag it. Stuck? Press Hint!",
+        bounceHint: true,
+        camera: { position: [3, 4, 5], target: [0, 1, 0] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.ASSEMBLY,
+        instruction: "Now put it back together.",
+        hint: "Turn each stick until it fits, then slide it in!",
+        camera: { position: [0, 5, 7], target: [0, 0.8, 1] },
+        completion: 'interaction',
+      },
+      {
+        phase: GamePhase.SUCCESS,
+        instruction: "Lock Solved!",
+        camera: { position: [-3, 3, 5], target: [0, 1, 0] },
+        completion: 'collect',
+      },
+    ],
+  },
+];
+
+// --- Lookup Helpers ---
+
+export const getLevel = (level: number): LevelDefinition =>
+  LEVELS.find(l => l.id === level) ?? LEVELS[0];
+
+export const getStep = (level: number, phase: GamePhase): LevelStep | undefined =>
+  getLevel(level).steps.find(s => s.phase === phase);
+
+/** The step after `phase`, or undefined at the end of the level (or for an unknown phase). */
+export const getNextStep = (level: number, phase: GamePhase): LevelStep | undefined => {
+  const steps = getLevel(level).steps;
+  const index = steps.findIndex(s => s.phase === phase);
+  return index >= 0 ? steps[index + 1] : undefined;
+};
+
+/** Level that follows `level` once its item is collected (wraps around to replay). */
+export const getNextLevelId = (level: number): number => {
+  const index = LEVELS.findIndex(l => l.id === level);
+  return LEVELS[(index + 1) % LEVELS.length].id;
+};
+
+export const getCameraPose = (level: number, phase: GamePhase): CameraPose =>
+  getStep(level, phase)?.camera ?? DEFAULT_CAMERA;
+
+/** True once the level has reached (or passed) `target`. */
+export const hasReachedPhase = (level: number, phase: GamePhase, target: GamePhase): boolean => {
+  const steps = getLevel(level).steps;
+  const current = steps.findIndex(s => s.phase === phase);
+  const goal = steps.findIndex(s => s.phase === target);
+  return current >= 0 && goal >= 0 && current >= goal;
+};
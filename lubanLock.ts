@@ -0,0 +1,327 @@
+// Six-piece Luban lock (鲁班锁 / burr puzzle) on a voxel grid.
+//
+// Every stick is 2 x 2 x 6 cells. In the assembled lock the three pairs cross
+// in the middle; cells where sticks would overlap are either owned by one of
+// them or notched out of all of them. A lock state stores each stick's offset
+// from home (null = taken out and lying on the bench) and its orientation.
+//
+// Moves are single-cell slides of one stick in any axis direction. A stick
+// moving away from home with a clear path out of the lock is taken out in one
+// go; a stick on the bench goes back in the way it came out. The same move
+// rules drive the scene's collision checks and the BFS hint solver.
+
+export type Voxel = [number, number, number];
+export type Axis = 0 | 1 | 2; // x, y, z
+
+export interface LockPiece {
+  id: string;
+  name: string;
+  axis: Axis;
+  section: [number, number]; // Lowest cross-section cell, in the two other axes (x,y order)
+  notches: Voxel[];          // Cells cut away from the full stick
+}
+
+export interface LockExit {
+  offset: Voxel; // Where the stick was when it came free
+  dir: number;   // Index into LOCK_DIRECTIONS it left along
+}
+
+export interface LockState {
+  offsets: (Voxel | null)[];
+  orientations: number[]; // 0-7: quarter turns about the stick axis, +4 when flipped end for end
+  exits: (LockExit | null)[];
+}
+
+export interface LockMove {
+  piece: number;
+  dir: number;            // Index into LOCK_DIRECTIONS
+  kind: 'slide' | 'remove' | 'insert';
+  homeward?: boolean;     // Slides: brings the stick closer to its home position
+}
+
+export const LOCK_DIRECTIONS: Voxel[] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+export const LOCK_DIRECTION_LABELS = ['+X', '-X', '+Y', '-Y', '+Z', '-Z'];
+
+const STICK_HALF_LENGTH = 3;
+const LOCK_REACH = 5;   // Any offset this far out means the stick has left the lock
+const SWEEP_CELLS = 12; // Far enough to clear every other stick
+const MAX_SOLVER_STATES = 50000;
+
+// Found by searching notch layouts for one that needs six moves before the
+// first stick comes free; checked with solveLock in both directions.
+export const LUBAN_PIECES: LockPiece[] = [
+  {
+    id: 'x-low', name: "Lower X stick", axis: 0, section: [-1, -2],
+    notches: [[-2, -1, -1], [-2, 0, -1], [-1, -1, -2], [-1, -1, -1], [-1, 0, -1], [0, -1, -2], [0, -1, -1], [0, 0, -1], [1, 0, -1]],
+  },
+  {
+    id: 'x-high', name: "Upper X stick", axis: 0, section: [-1, 0],
+    notches: [[-2, 0, 0], [0, -1, 0], [0, -1, 1], [1, -1, 0], [1, 0, 0]],
+  },
+  {
+    id: 'y-left', name: "Left Y stick", axis: 1, section: [-2, -1],
+    notches: [[-1, -2, -1], [-1, -2, 0], [-2, -1, 0], [-1, -1, 0], [-2, 0, 0], [-1, 0, -1], [-1, 0, 0], [-1, 1, -1], [-1, 1, 0]],
+  },
+  {
+    id: 'y-right', name: "Right Y stick", axis: 1, section: [0, -1],
+    notches: [[0, -2, -1], [0, -2, 0], [0, -1, -1], [1, -1, -1], [0, 0, -1], [0, 0, 0], [1, 0, -1]],
+  },
+  {
+    id: 'z-back', name: "Back Z stick", axis: 2, section: [-1, -2],
+    notches: [[-1, -1, -2], [0, -1, -2], [-1, -1, -1], [0, -2, -1], [0, -1, -1], [-1, -1, 0], [0, -1, 0], [-1, -1, 1], [0, -1, 1]],
+  },
+  {
+    id: 'z-front', name: "Front Z stick", axis: 2, section: [-1, 0],
+    notches: [[-1, 0, -2], [0, 0, -2], [0, 1, -1], [-1, 0, 0], [0, 0, 0], [0, 1, 0], [-1, 0, 1], [0, 0, 1]],
+  },
+];
+
+// Cells packed into one number for fast set lookups (offsets stay well within +-40)
+const cellKey = (x: number, y: number, z: number) => ((x + 40) * 81 + (y + 40)) * 81 + (z + 40);
+const addVoxels = (a: Voxel, b: Voxel, scale = 1): Voxel => [a[0] + b[0] * scale, a[1] + b[1] * scale, a[2] + b[2] * scale];
+
+// The two cross-section axes of a stick, in increasing order
+const sectionAxes = (axis: Axis): [Axis, Axis] =>
+  axis === 0 ? [1, 2] : axis === 1 ? [0, 2] : [0, 1];
+
+/** Cells of the stick in its home position and orientation. */
+export function homeVoxels(piece: LockPiece): Voxel[] {
+  const notched = new Set(piece.notches.map(v => cellKey(...v)));
+  const [ua, va] = sectionAxes(piece.axis);
+  const cells: Voxel[] = [];
+  for (let t = -STICK_HALF_LENGTH; t < STICK_HALF_LENGTH; t++) {
+    for (let u = 0; u < 2; u++) {
+      for (let v = 0; v < 2; v++) {
+        const cell: Voxel = [0, 0, 0];
+        cell[piece.axis] = t;
+        cell[ua] = piece.section[0] + u;
+        cell[va] = piece.section[1] + v;
+        if (!notched.has(cellKey(...cell))) cells.push(cell);
+      }
+    }
+  }
+  return cells;
+}
+
+const shapeCache = new Map<string, Voxel[]>();
+
+/** Cells of the stick turned to `orientation` about its own centre line. */
+export function orientedVoxels(piece: LockPiece, orientation: number): Voxel[] {
+  const cacheKey = `${piece.id}/${orientation}`;
+  let cells = shapeCache.get(cacheKey);
+  if (!cells) {
+    cells = turnVoxels(piece, orientation);
+    shapeCache.set(cacheKey, cells);
+  }
+  return cells;
+}
+
+function turnVoxels(piece: LockPiece, orientation: number): Voxel[] {
+  const [ua, va] = sectionAxes(piece.axis);
+  const center: Voxel = [0, 0, 0];
+  center[ua] = piece.section[0] + 1;
+  center[va] = piece.section[1] + 1;
+  const quarterTurns = orientation % 4;
+  const flipped = orientation >= 4;
+
+  return homeVoxels(piece).map(cell => {
+    // Work on cell centres relative to the stick's centre line
+    const p = cell.map((c, i) => c + 0.5 - center[i]);
+    for (let i = 0; i < quarterTurns; i++) {
+      const u = p[ua];
+      p[ua] = -p[va];
+      p[va] = u;
+    }
+    if (flipped) {
+      p[piece.axis] = -p[piece.axis];
+      p[ua] = -p[ua];
+    }
+    return p.map((c, i) => Math.round(c - 0.5 + center[i])) as Voxel;
+  });
+}
+
+const sameCells = (a: Voxel[], b: Voxel[]) => {
+  if (a.length !== b.length) return false;
+  const set = new Set(a.map(v => cellKey(...v)));
+  return b.every(v => set.has(cellKey(...v)));
+};
+
+/** True when the orientation is indistinguishable from the home one. */
+export function fitsHome(piece: LockPiece, orientation: number): boolean {
+  return orientation === 0 || sameCells(orientedVoxels(piece, orientation), homeVoxels(piece));
+}
+
+
+export const assembledState = (): LockState => ({
+  offsets: LUBAN_PIECES.map(() => [0, 0, 0] as Voxel),
+  orientations: LUBAN_PIECES.map(() => 0),
+  exits: LUBAN_PIECES.map(() => null),
+});
+
+export const isDisassembled = (state: LockState) => state.offsets.every(o => o === null);
+
+export const isAssembled = (state: LockState) =>
+  state.offsets.every(o => o !== null && o.every(c => c === 0)) &&
+  LUBAN_PIECES.every((piece, i) => fitsHome(piece, state.orientations[i]));
+
+// --- Move rules ---
+
+const shapesFor = (state: LockState) => LUBAN_PIECES.map((piece, i) => orientedVoxels(piece, state.orientations[i]));
+
+// Cells taken by every stick in the lock except `skip`
+function occupiedCells(state: LockState, skip: number, shapes: Voxel[][]): Set<number> {
+  const occupied = new Set<number>();
+  state.offsets.forEach((offset, i) => {
+    if (i === skip || !offset) return;
+    for (const [x, y, z] of shapes[i]) occupied.add(cellKey(x + offset[0], y + offset[1], z + offset[2]));
+  });
+  return occupied;
+}
+
+const collides = (cells: Voxel[], offset: Voxel, occupied: Set<number>) =>
+  cells.some(([x, y, z]) => occupied.has(cellKey(x + offset[0], y + offset[1], z + offset[2])));
+
+function moveFor(state: LockState, piece: number, dir: number, cells: Voxel[], occupied: Set<number>): LockMove | null {
+  const offset = state.offsets[piece];
+
+  // Bench sticks: only back in along the way they came out
+  if (!offset) {
+    const exit = state.exits[piece];
+    if (!exit || dir !== (exit.dir ^ 1) || !fitsHome(LUBAN_PIECES[piece], state.orientations[piece])) return null;
+    for (let k = 0; k <= SWEEP_CELLS; k++) {
+      if (collides(cells, addVoxels(exit.offset, LOCK_DIRECTIONS[exit.dir], k), occupied)) return null;
+    }
+    return { piece, dir, kind: 'insert' };
+  }
+
+  const d = LOCK_DIRECTIONS[dir];
+  const next = addVoxels(offset, d);
+  if (collides(cells, next, occupied)) return null;
+
+  // Only a push away from home can take the stick out
+  const axis = d.findIndex(c => c !== 0);
+  if (Math.abs(next[axis]) < Math.abs(offset[axis])) return { piece, dir, kind: 'slide', homeward: true };
+  let clear = true;
+  for (let k = 2; k <= SWEEP_CELLS && clear; k++) {
+    if (collides(cells, addVoxels(offset, d, k), occupied)) clear = false;
+  }
+  const leaves = clear || next.some(c => Math.abs(c) >= LOCK_REACH);
+  return { piece, dir, kind: leaves ? 'remove' : 'slide' };
+}
+
+/**
+ * The legal move for pushing `piece` one cell along `dir`, or null when it is
+ * blocked (or, for a bench stick, when it is facing the wrong way or `dir`
+ * is not the way back in).
+ */
+export function findMove(state: LockState, piece: number, dir: number): LockMove | null {
+  const shapes = shapesFor(state);
+  return moveFor(state, piece, dir, shapes[piece], occupiedCells(state, piece, shapes));
+}
+
+export function applyMove(state: LockState, move: LockMove): LockState {
+  const offsets = [...state.offsets];
+  const exits = [...state.exits];
+  const offset = offsets[move.piece];
+  if (move.kind === 'remove') {
+    offsets[move.piece] = null;
+    exits[move.piece] = { offset: offset!, dir: move.dir };
+  } else if (move.kind === 'insert') {
+    offsets[move.piece] = exits[move.piece]!.offset;
+  } else {
+    offsets[move.piece] = addVoxels(offset!, LOCK_DIRECTIONS[move.dir]);
+  }
+  return { ...state, offsets, exits };
+}
+
+// --- Solver ---
+
+const encodeState = (state: LockState) =>
+  state.offsets.map((o, i) => (o ? o.join('.') : 'out') + '/' + state.orientations[i]).join('|');
+
+// Bench sticks can be turned freely, so which way they face doesn't tell states apart
+const normalizeState = (state: LockState): LockState => ({
+  ...state,
+  orientations: state.orientations.map((o, i) => (state.offsets[i] ? o : 0)),
+});
+
+// The moves left from every state along each solution found so far, so a
+// player following the hints one step at a time only pays for one search
+const solutions = new Map<string, LockMove[] | null>();
+
+/**
+ * Breadth-first search for the shortest move sequence from `start` to a fully
+ * taken-apart ('disassemble') or fully assembled ('assemble') lock. Bench
+ * sticks are treated as already turned the right way round, so the caller
+ * should suggest a turn before an insert the stick does not fit yet.
+ * Returns null when there is no solution within the state budget.
+ */
+export function solveLock(start: LockState, goal: 'disassemble' | 'assemble'): LockMove[] | null {
+  const key = `${goal}:${encodeState(normalizeState(start))}`;
+  const known = solutions.get(key);
+  if (known !== undefined) return known;
+
+  // Sticks almost never need to move against the goal, so try the much
+  // smaller search where every slide heads the right way first
+  const moves = searchLock(start, goal, true) ?? searchLock(start, goal, false);
+  if (!moves) {
+    solutions.set(key, null);
+    return null;
+  }
+  let state = normalizeState(start);
+  moves.forEach((move, i) => {
+    solutions.set(`${goal}:${encodeState(state)}`, moves.slice(i));
+    state = normalizeState(applyMove(state, move));
+  });
+  return moves;
+}
+
+function searchLock(start: LockState, goal: 'disassemble' | 'assemble', oneWay: boolean): LockMove[] | null {
+  const isGoal = goal === 'disassemble' ? isDisassembled : isAssembled;
+  const assembling = goal === 'assemble';
+
+  const allowed = (move: LockMove) => {
+    // Putting the lock together never needs a stick to come back out, nor
+    // taking it apart a stick to go back in
+    if (move.kind === (assembling ? 'remove' : 'insert')) return false;
+    return !oneWay || move.kind !== 'slide' || !!move.homeward === assembling;
+  };
+
+  const first = normalizeState(start);
+  const parents = new Map<string, { prev: string; move: LockMove } | null>([[encodeState(first), null]]);
+  const queue: LockState[] = [first];
+
+  for (let head = 0; head < queue.length; head++) {
+    if (parents.size > MAX_SOLVER_STATES) return null;
+    const state = queue[head];
+    const key = encodeState(state);
+
+    if (isGoal(state)) {
+      const moves: LockMove[] = [];
+      for (let step = parents.get(key); step; step = parents.get(step.prev)) moves.unshift(step.move);
+      return moves;
+    }
+
+    const shapes = shapesFor(state);
+    for (let piece = 0; piece < LUBAN_PIECES.length; piece++) {
+      const occupied = occupiedCells(state, piece, shapes);
+      for (let dir = 0; dir < LOCK_DIRECTIONS.length; dir++) {
+        const move = moveFor(state, piece, dir, shapes[piece], occupied);
+        if (!move || !allowed(move)) continue;
+        const next = normalizeState(applyMove(state, move));
+        const nextKey = encodeState(next);
+        if (parents.has(nextKey)) continue;
+        parents.set(nextKey, { prev: key, move });
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+/** The lock after following the solver's disassembly, with every exit recorded. */
+export function disassembledState(): LockState {
+  let state = assembledState();
+  for (const move of solveLock(state, 'disassemble') ?? []) state = applyMove(state, move);
+  return state;
+}
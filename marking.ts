@@ -0,0 +1,56 @@
+import { DovetailLayout } from './dovetail';
+
+// Layout marks scribed by the player during MARKING. The sockets are cut to
+// these lines rather than to the ideal layout, so a baseline or tail drawn off
+// the mark shows up as a gap once the tail board is driven home.
+
+export interface LayoutMarks {
+  baseline: number;      // Marking gauge setting: socket depth from the end of the board
+  tailCenters: number[]; // Where each tail was traced with the template
+}
+
+// How far the gauge can be set either side of the tail board thickness
+export const GAUGE_RANGE = 0.5;
+
+// How far the template can slide off each spacing tick, as a share of the pin width
+export const TEMPLATE_SLIDE = 0.4;
+
+// Tallest gap a badly marked joint can leave (stays under the assembly drop)
+const MAX_FIT_GAP = 0.12;
+
+export const idealMarks = (layout: DovetailLayout): LayoutMarks => ({
+  baseline: layout.boardThickness,
+  tailCenters: [...layout.tailCenters],
+});
+
+export const clampGauge = (layout: DovetailLayout, baseline: number) =>
+  Math.max(layout.boardThickness * (1 - GAUGE_RANGE), Math.min(layout.boardThickness * (1 + GAUGE_RANGE), baseline));
+
+/** Keeps the template near the spacing tick for tail `index`. */
+export function clampTemplate(layout: DovetailLayout, index: number, x: number): number {
+  const slide = layout.pinWidth * TEMPLATE_SLIDE;
+  const tick = layout.tailCenters[index];
+  return Math.max(tick - slide, Math.min(tick + slide, x));
+}
+
+/**
+ * The sockets as drawn: tails moved to the traced centres and the socket depth
+ * (`boardThickness`, as read by carving.ts and the socket meshes) set to the
+ * gauge. Everything else still comes from the ideal layout.
+ */
+export const markedLayout = (layout: DovetailLayout, marks: LayoutMarks): DovetailLayout => ({
+  ...layout,
+  boardThickness: marks.baseline,
+  tailCenters: marks.tailCenters,
+});
+
+/**
+ * How far the tail board stands proud once hammered home. A tail traced off
+ * centre rides up the socket's sloped wall (rise = offset × slope); a baseline
+ * scribed short of the tail board thickness stops it early.
+ */
+export function jointFitGap(layout: DovetailLayout, marks: LayoutMarks): number {
+  const sideways = marks.tailCenters.reduce((worst, x, i) => Math.max(worst, Math.abs(x - layout.tailCenters[i])), 0);
+  const shallow = Math.max(0, layout.boardThickness - marks.baseline);
+  return Math.min(MAX_FIT_GAP, sideways * layout.spec.slope + shallow);
+}
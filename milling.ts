@@ -0,0 +1,121 @@
+// Bucking and ripping felled logs into the blanks a project needs. A log is
+// cut to length at the player's crosscuts, each length is ripped along its ink
+// line into boards, and the boards are checked against the project's cut list.
+// Milled boards go into the inventory; spare ones stay there for later
+// projects.
+
+import { Inventory, LogItem, BoardItem, itemsOfKind, removeItem } from './inventory';
+import { WoodSpecies } from './species';
+
+export interface CutListItem {
+  label: string;
+  length: number; // Shortest blank that will do
+  count: number;
+}
+
+export const LOG_LENGTH = 5;  // For logs of unknown size
+export const KERF = 0.05;     // Lost to the saw at every crosscut
+const RIP_DIAMETER = 0.5;     // Each length rips into one board per this much log diameter
+const MAX_RIPS = 4;
+
+/** Lengths between the crosscuts at `cuts` (distances from the butt end), less the saw kerf. */
+export function buckLog(cuts: number[], logLength = LOG_LENGTH): number[] {
+  const bounds = [0, ...[...cuts].sort((a, b) => a - b), logLength];
+  const lengths: number[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const kerf = ((i > 0 ? 1 : 0) + (i < bounds.length - 2 ? 1 : 0)) * KERF / 2;
+    lengths.push(Math.max(0, bounds[i + 1] - bounds[i] - kerf));
+  }
+  return lengths;
+}
+
+/** Boards each length of `log` rips into along the ink line: thicker logs give more. */
+export const ripCount = (log: LogItem) =>
+  Math.max(1, Math.min(MAX_RIPS, Math.round(log.diameter / RIP_DIAMETER)));
+
+export const ripLengths = (lengths: number[], count: number): number[] =>
+  lengths.flatMap(length => new Array(count).fill(length));
+
+// Boards are as wide as this share of the log's diameter, and share that
+// depth between them
+const BOARD_WIDTH_RATIO = 0.8;
+
+/** One board of `length` ripped from `log`. */
+export const ripBoard = (log: LogItem, length: number): BoardItem => ({
+  kind: 'board',
+  species: log.species,
+  length,
+  width: log.diameter * BOARD_WIDTH_RATIO,
+  thickness: (log.diameter * BOARD_WIDTH_RATIO) / ripCount(log),
+});
+
+/** Boards ripped from `log` once it has been bucked into `lengths`. */
+export const millBoards = (log: LogItem, lengths: number[]): BoardItem[] =>
+  ripLengths(lengths, ripCount(log)).map(length => ripBoard(log, length));
+
+export interface CutListCheck {
+  filled: number[];     // Blanks found for each cut list item
+  used: number[];       // Indices of the boards picked, longest items first
+  satisfied: boolean;
+  trimWaste: number;    // Length trimmed off the picked boards
+}
+
+/** Picks the shortest board that will do for each blank, longest blanks first. */
+export function checkCutList(boards: number[], cutList: CutListItem[]): CutListCheck {
+  const free = boards.map((length, index) => ({ length, index })).sort((a, b) => a.length - b.length);
+  const order = cutList.map((item, i) => i).sort((a, b) => cutList[b].length - cutList[a].length);
+  const filled = cutList.map(() => 0);
+  const used: number[] = [];
+  let trimWaste = 0;
+
+  order.forEach(i => {
+    const item = cutList[i];
+    for (let n = 0; n < item.count; n++) {
+      const pick = free.findIndex(b => b.length >= item.length);
+      if (pick < 0) break;
+      const [board] = free.splice(pick, 1);
+      filled[i]++;
+      used.push(board.index);
+      trimWaste += board.length - item.length;
+    }
+  });
+
+  return { filled, used, satisfied: cutList.every((item, i) => filled[i] >= item.count), trimWaste };
+}
+
+const boardLengths = (inventory: Inventory, species?: WoodSpecies) =>
+  itemsOfKind(inventory, 'board').filter(b => !species || b.species === species).map(b => b.length);
+
+/** Whether the boards on hand fill the cut list; with `species`, boards of that wood alone. */
+export const hasStockFor = (inventory: Inventory, cutList: CutListItem[], species?: WoodSpecies) =>
+  checkCutList(boardLengths(inventory, species), cutList).satisfied;
+
+/**
+ * The boards the cut list would take, longest blanks first. With `species`,
+ * boards of that wood are used if there are enough of them.
+ */
+export function cutListBoards(inventory: Inventory, cutList: CutListItem[], species?: WoodSpecies): BoardItem[] {
+  const all = itemsOfKind(inventory, 'board');
+  const matching = all.filter(b => b.species === species);
+  const boards = checkCutList(matching.map(b => b.length), cutList).satisfied ? matching : all;
+  return checkCutList(boards.map(b => b.length), cutList).used.map(i => boards[i]);
+}
+
+/** Inventory left once the boards for the cut list have been taken out of it. */
+export const consumeCutList = (inventory: Inventory, cutList: CutListItem[], species?: WoodSpecies): Inventory =>
+  cutListBoards(inventory, cutList, species).reduce((rest, board) => removeItem(rest, board), inventory);
+
+/**
+ * Share of the logs that ends up as usable wood: everything except saw kerf
+ * and what has to be trimmed off the boards picked for the cut list. Spare
+ * boards count, they go into the inventory.
+ */
+export function millingYield(logs: LogItem[], bucked: number[][], cutList: CutListItem[]): number {
+  const total = logs.reduce((sum, log) => sum + log.length, 0);
+  const milled = bucked.flat().reduce((sum, length) => sum + length, 0);
+  const boards = logs.flatMap((log, i) => ripLengths(bucked[i] ?? [], ripCount(log)));
+  const boardTotal = boards.reduce((sum, b) => sum + b, 0);
+  if (total <= 0 || boardTotal <= 0) return 0;
+  const { trimWaste } = checkCutList(boards, cutList);
+  return Math.max(0, (milled / total) * (1 - trimWaste / boardTotal));
+}
@@ -0,0 +1,78 @@
+// Planing a rough board flat and down to thickness with a 刨子 before it is
+// marked out. The board comes off the mill cupped and over-thick; each stroke
+// of the plane shaves the high strip under its sole. Pushed against the grain
+// the iron digs in and tears the fibres out, and a board planed past the
+// target is too thin to use.
+
+export type GrainDirection = 1 | -1; // The way along the board (+Z or -Z) a stroke goes with the grain
+
+export interface PlaningBoard {
+  thickness: number[]; // Across the width, one strip per cell, left to right
+  tearOut: boolean[];  // Strips with torn fibres, cleared by a stroke with the grain
+  grain: GrainDirection;
+}
+
+export type IronSetting = 'coarse' | 'fine';
+
+export const PLANE_CELLS = 12;
+export const THICKNESS_TOLERANCE = 0.01; // Either side of the target, 1 mm
+export const SHAVING: Record<IronSetting, number> = { coarse: 0.03, fine: 0.01 }; // Shaving one stroke takes off fir
+const OVERSIZE = 0.1;   // Extra thickness the mill leaves on
+const CUP_DEPTH = 0.05; // How much higher the edges stand than the middle
+const TEAR_OUT_DEPTH = 0.5; // Extra depth torn out against the grain, as a share of the shaving
+
+export function roughBoard(target: number, grain: GrainDirection): PlaningBoard {
+  const thickness = Array.from({ length: PLANE_CELLS }, (_, i) => {
+    const across = (i + 0.5) / PLANE_CELLS * 2 - 1; // -1 at one edge, 1 at the other
+    return target + OVERSIZE + CUP_DEPTH * across * across;
+  });
+  return { thickness, tearOut: thickness.map(() => false), grain };
+}
+
+/** Cells under a sole `soleWidth` wide centred `x` across a board `width` wide (x from its centre). */
+export function cellsUnderSole(x: number, soleWidth: number, width: number): number[] {
+  const cell = width / PLANE_CELLS;
+  const cells: number[] = [];
+  for (let i = 0; i < PLANE_CELLS; i++) {
+    const centre = -width / 2 + (i + 0.5) * cell;
+    if (Math.abs(centre - x) <= soleWidth / 2) cells.push(i);
+  }
+  return cells;
+}
+
+/**
+ * One stroke of the plane along the board, in `direction`. The sole rides on
+ * the highest strip beneath it and the iron takes `shaving` off below that, so
+ * high spots go first. Against the grain the shaving tears out deeper and
+ * leaves the strips rough.
+ */
+export function planeStroke(board: PlaningBoard, cells: number[], direction: GrainDirection, shaving: number): { board: PlaningBoard; removed: number; tip?: string } {
+  if (cells.length === 0) return { board, removed: 0 };
+  const withGrain = direction === board.grain;
+  const sole = Math.max(...cells.map(i => board.thickness[i]));
+  const cutTo = sole - shaving * (withGrain ? 1 : 1 + TEAR_OUT_DEPTH);
+  const thickness = [...board.thickness];
+  const tearOut = [...board.tearOut];
+  let removed = 0;
+  cells.forEach(i => {
+    if (thickness[i] <= cutTo) return;
+    removed += thickness[i] - cutTo;
+    thickness[i] = cutTo;
+    tearOut[i] = !withGrain;
+  });
+  const tip = withGrain ? undefined : "The plane is tearing the grain out! Turn round and plane the other way along the board.";
+  return { board: { ...board, thickness, tearOut }, removed, tip };
+}
+
+export const thinnest = (board: PlaningBoard) => Math.min(...board.thickness);
+export const thickest = (board: PlaningBoard) => Math.max(...board.thickness);
+
+export const isTooThin = (board: PlaningBoard, target: number) => thinnest(board) < target - THICKNESS_TOLERANCE;
+
+/** Flat, to thickness and smooth: ready for marking. */
+export const isPlaned = (board: PlaningBoard, target: number) =>
+  !isTooThin(board, target) && thickest(board) <= target + THICKNESS_TOLERANCE && !board.tearOut.some(Boolean);
+
+/** Mean distance of the planed face from the target thickness, for the accuracy report. */
+export const thicknessError = (board: PlaningBoard, target: number) =>
+  board.thickness.reduce((sum, t) => sum + Math.abs(t - target), 0) / board.thickness.length;
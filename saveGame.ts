@@ -0,0 +1,175 @@
+import { GamePhase } from './types';
+import { DovetailSpec, DEFAULT_DOVETAIL_SPEC } from './dovetail';
+import { LockState } from './lubanLock';
+import { SocketField, PinBites, freshSocket, clearedSocket } from './carving';
+import { SocketHandCut } from './handTools';
+import { ClampPlacement } from './clamps';
+import { FinishKind, FinishPanel } from './finishing';
+import { DrillLean } from './splay';
+import { BoardAccuracy, CutTally, Stars } from './accuracy';
+import { LayoutMarks } from './marking';
+import { ProjectKind, LEVELS } from './levels';
+import { Inventory, newInventory, addItem } from './inventory';
+import { LOG_LENGTH, ripBoard } from './milling';
+import { WoodSpecies, DEFAULT_SPECIES } from './species';
+import { ForestState, newForest } from './forest';
+
+// Versioned save format. Bump SAVE_VERSION whenever SaveGame changes shape and
+// add a migration from the previous version to MIGRATIONS, so older saves
+// still load after an update.
+
+export const SAVE_VERSION = 8;
+const STORAGE_KEY = 'dovetail-master-save';
+
+// --- Per-project progress (partial cuts etc.) ---
+
+export type BoxSocketKey = 'socketsBFront' | 'socketsBBack' | 'socketsDFront' | 'socketsDBack';
+
+// Router heightfields, one per socket (see carving.ts)
+export interface BoxSaveState {
+  socketsBFront: SocketField[];
+  socketsBBack: SocketField[];
+  socketsDFront: SocketField[];
+  socketsDBack: SocketField[];
+  tally?: CutTally; // Router accuracy for the board being cut
+  pinBites?: Partial<Record<BoxSocketKey, PinBites[]>>; // Pin the router took past the marks (see carving.ts)
+  marks?: LayoutMarks; // Set once the player has marked out the joint
+  tools?: 'router' | 'hand'; // How the player chose to cut the sockets
+  handCuts?: Partial<Record<BoxSocketKey, SocketHandCut[]>>; // Saw kerfs and chisel work (see handTools.ts)
+  holdClamps?: ClampPlacement[]; // Clamps holding the base board down (see workholding.ts)
+  finishPanels?: FinishPanel[]; // Sanding and finish on the box's faces (see finishing.ts)
+}
+
+export interface StoolSaveState {
+  holesDrilled: boolean[];
+  holeErrors?: number[]; // Distance from each drilled hole to its mark
+  holeLeans?: DrillLean[]; // The way each hole was bored (see splay.ts)
+  holeDepths?: number[];   // How far the bit went in, along its axis
+  finishPanels?: FinishPanel[]; // Sanding and finish on the seat (see finishing.ts)
+}
+
+export interface DougongSaveState {
+  placed: string[];
+}
+
+export interface ProjectSaveState {
+  box?: BoxSaveState;
+  stool?: StoolSaveState;
+  dougong?: DougongSaveState;
+  luban?: LockState;
+  accuracy?: BoardAccuracy[]; // One entry per finished board
+  species?: WoodSpecies; // Of the boards the project was made from
+  finish?: FinishKind; // Brushed on in the finishing step
+}
+
+export interface SaveGame {
+  version: number;
+  savedAt: number;
+  phase: GamePhase;
+  level: number;
+  inventory: Inventory;
+  forest: ForestState;
+  project: ProjectSaveState;
+  dovetailSpec: DovetailSpec;
+  bestGrades: Partial<Record<ProjectKind, Stars>>;
+}
+
+// --- Migrations ---
+
+// Each entry upgrades a save from version `key` to `key + 1`.
+const MIGRATIONS: Record<number, (save: any) => any> = {
+  // v2: joint parameters became player-chosen
+  1: (save) => ({ ...save, dovetailSpec: DEFAULT_DOVETAIL_SPEC }),
+  // v3: sockets are carved gradually instead of vanishing in one go
+  2: (save) => {
+    const box = save.project?.box;
+    if (!box) return save;
+    const toFields = (cut: boolean[] = []) => cut.map(done => (done ? clearedSocket() : freshSocket()));
+    return {
+      ...save,
+      project: {
+        ...save.project,
+        box: {
+          socketsBFront: toFields(box.wastesCutBFront),
+          socketsBBack: toFields(box.wastesCutBBack),
+          socketsDFront: toFields(box.wastesCutD),
+          socketsDBack: toFields(box.wastesCutD),
+        },
+      },
+    };
+  },
+  // v4: cuts are graded and the best grade per project is kept
+  3: (save) => ({ ...save, bestGrades: {} }),
+  // v5: felled logs are milled into boards that projects draw on
+  4: (save) => ({ ...save, stock: [] }),
+  // v6: one typed inventory replaces item names, the log count and board lengths
+  5: ({ inventory = [], rawWoodCount = 0, stock = [], ...save }) => {
+    const log = { kind: 'log' as const, species: DEFAULT_SPECIES, length: LOG_LENGTH, diameter: 1 };
+    let items = newInventory();
+    (inventory as string[]).forEach(name => {
+      const icon = LEVELS.find(l => l.yields.name === name)?.yields.icon ?? "📦";
+      items = addItem(items, { kind: 'good', name, icon });
+    });
+    if (rawWoodCount > 0) items = addItem(items, log, rawWoodCount);
+    (stock as number[]).forEach(length => { items = addItem(items, ripBoard(log, length)); });
+    return { ...save, inventory: items };
+  },
+  // v7: the timber stage harvests a forest plot that is kept between projects
+  6: (save) => ({ ...save, forest: newForest() }),
+  // v8: forests are generated from a seed, and each tree has its own trunk size.
+  // Older plots keep their layout; seed 0 only supplies terrain and undergrowth.
+  7: (save) => ({
+    ...save,
+    forest: { ...save.forest, seed: save.forest.seed ?? 0, trees: save.forest.trees.map((tree: any) => ({ radius: 0.5, height: 5, ...tree })) },
+  }),
+};
+
+export function migrateSave(raw: any): SaveGame | null {
+  if (!raw || typeof raw !== 'object') return null;
+  let save = raw;
+  let version: number = typeof save.version === 'number' ? save.version : 0;
+
+  // A save from a newer build can't be read safely
+  if (version > SAVE_VERSION) return null;
+
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    save = migrate(save);
+    version++;
+  }
+
+  if (!Object.values(GamePhase).includes(save.phase)) return null;
+  return { ...save, version: SAVE_VERSION };
+}
+
+// --- Storage ---
+
+export function loadGame(): SaveGame | null {
+  try {
+    const json = window.localStorage.getItem(STORAGE_KEY);
+    if (!json) return null;
+    return migrateSave(JSON.parse(json));
+  } catch (err) {
+    console.warn('Could not load saved game:', err);
+    return null;
+  }
+}
+
+export function saveGame(state: Omit<SaveGame, 'version' | 'savedAt'>) {
+  const save: SaveGame = { ...state, version: SAVE_VERSION, savedAt: Date.now() };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch (err) {
+    // Private browsing / full storage: keep playing without saving
+    console.warn('Could not save game:', err);
+  }
+}
+
+export function clearSave() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+}
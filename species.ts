@@ -0,0 +1,110 @@
+// Timber species the player can harvest. Logs and boards in the inventory
+// remember which tree they came from, and the species decides how the wood
+// looks and how hard the tools have to work.
+
+export type WoodSpecies = 'fir' | 'elm' | 'rosewood' | 'camphor';
+
+export interface WoodPalette {
+  light: string;     // Sides and tails
+  dark: string;      // Pins, seats and other faces that want contrast
+  sawdust: string[]; // Picked at random for each chip
+}
+
+// Parameters for the end-grain (tree ring) texture
+export interface GrainParams {
+  heartColor: string;
+  ringColor: string;
+  ringSpacing: number; // Pixels between rings on a 256px texture
+  ringJitter: number;  // Random extra spacing per ring
+}
+
+export type CrownShape = 'cone' | 'round' | 'vase' | 'spreading';
+
+// How the standing tree looks in the forest
+export interface TreeLook {
+  bark: string;
+  leaves: string;
+  crown: CrownShape;
+}
+
+// What a woodworker checks to tell the trees apart
+export interface SpeciesClues {
+  bark: string;
+  leaf: string;
+  endGrain: string;
+}
+
+export interface SpeciesInfo {
+  name: string;
+  nameZh: string;
+  hardness: number; // Relative to Chinese fir; tools cut 1/hardness as fast
+  density: number;  // kg/m³, air dried
+  palette: WoodPalette;
+  grain: GrainParams;
+  look: TreeLook;
+  clues: SpeciesClues;
+}
+
+export const SPECIES: Record<WoodSpecies, SpeciesInfo> = {
+  fir: {
+    name: "Chinese Fir",
+    nameZh: "杉木",
+    hardness: 1,
+    density: 390,
+    palette: { light: "#dcb280", dark: "#c29468", sawdust: ["#e0c9a6", "#c29468", "#8B5A2B"] },
+    grain: { heartColor: "#6d4c41", ringColor: "#5d4037", ringSpacing: 4, ringJitter: 3 },
+    look: { bark: "#6b3f2a", leaves: "#166534", crown: 'cone' },
+    clues: {
+      bark: "Reddish-brown, peeling off in long strips",
+      leaf: "Stiff, flat needles in two rows along the twig",
+      endGrain: "Pale, with wide and even growth rings",
+    },
+  },
+  elm: {
+    name: "Elm",
+    nameZh: "榆木",
+    hardness: 1.6,
+    density: 650,
+    palette: { light: "#c9a27a", dark: "#a87c55", sawdust: ["#d8bc98", "#a87c55", "#7a5533"] },
+    grain: { heartColor: "#7a5533", ringColor: "#4e3420", ringSpacing: 6, ringJitter: 4 },
+    look: { bark: "#5b5249", leaves: "#4d7c0f", crown: 'vase' },
+    clues: {
+      bark: "Grey-brown and deeply furrowed into ridges",
+      leaf: "Toothed oval leaves with a lopsided base",
+      endGrain: "Brown heart, coarse rings ringed with open pores",
+    },
+  },
+  rosewood: {
+    name: "Rosewood",
+    nameZh: "红木",
+    hardness: 2.5,
+    density: 880,
+    palette: { light: "#9a4a32", dark: "#6b2a1e", sawdust: ["#b5654a", "#8a3b2a", "#4a1a12"] },
+    grain: { heartColor: "#5a2216", ringColor: "#2e0f09", ringSpacing: 2, ringJitter: 1.5 },
+    look: { bark: "#7c746a", leaves: "#3f6212", crown: 'spreading' },
+    clues: {
+      bark: "Pale grey and fairly smooth, flaking in small patches",
+      leaf: "Feathery compound leaves of small rounded leaflets",
+      endGrain: "Dark red-purple heart with very tight rings",
+    },
+  },
+  camphor: {
+    name: "Camphor",
+    nameZh: "樟木",
+    hardness: 1.3,
+    density: 540,
+    palette: { light: "#d9b57c", dark: "#b8905a", sawdust: ["#ecd3a8", "#c9a06a", "#9c7443"] },
+    grain: { heartColor: "#8a6238", ringColor: "#6b4a2a", ringSpacing: 5, ringJitter: 5 },
+    look: { bark: "#8d6e4a", leaves: "#15803d", crown: 'round' },
+    clues: {
+      bark: "Yellowish-brown with fine, criss-crossing cracks",
+      leaf: "Glossy oval leaves that smell of camphor when crushed",
+      endGrain: "Yellowish with faint rings, and a strong scent",
+    },
+  },
+};
+
+export const DEFAULT_SPECIES: WoodSpecies = 'fir';
+
+/** How fast a saw, router or drill gets through `species`, relative to fir. */
+export const cutSpeed = (species: WoodSpecies) => 1 / SPECIES[species].hardness;
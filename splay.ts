@@ -0,0 +1,42 @@
+// Splayed legs on a stool, each fixed with a wedged through-tenon. The leg
+// holes are bored at a lean, sighted along a line from each mark through the
+// centre of the seat with a sliding bevel set to the splay beside it. A hole
+// bored off that line leaves its leg rocking in it, and the wedge driven into
+// the kerf in the tenon end only locks a leg that already fits.
+
+// While it is drilled the seat lies upside down, so a leg that splays outward
+// is bored with the bit's tip leaning in toward the centre
+export interface DrillLean {
+  angle: number;   // From vertical
+  heading: number; // The way the tip leans, radians from +X toward +Z
+}
+
+export const TARGET_SPLAY = Math.PI / 15; // 12°
+export const KERF_STROKE = 0.25;          // Share of the kerf one saw stroke cuts
+export const WEDGE_BLOWS = 3;             // Mallet blows that drive a wedge home
+const SNUG_ERROR = 0.05;                  // Radians a hole may stray and still fit its leg snugly
+const LOOSE_ERROR = 0.2;                  // ...and off by this much, the leg just rocks
+const UNWEDGED_GRIP = 0.6;                // Grip of a well-fitted tenon before it is wedged
+
+export const VERTICAL: DrillLean = { angle: 0, heading: 0 };
+
+/** The lean for a hole marked at `x`, `z` on the upturned seat (its centre at the origin). */
+export const targetLean = (x: number, z: number): DrillLean => ({ angle: TARGET_SPLAY, heading: Math.atan2(-z, -x) });
+
+/** Unit vector the bit travels along into the wood. */
+export const boreDirection = ({ angle, heading }: DrillLean): [number, number, number] =>
+  [Math.sin(angle) * Math.cos(heading), -Math.cos(angle), Math.sin(angle) * Math.sin(heading)];
+
+/** Angle between a bored hole and the one it should have been, in radians. */
+export function leanError(bored: DrillLean, target: DrillLean): number {
+  const a = boreDirection(bored);
+  const b = boreDirection(target);
+  const dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  return Math.acos(Math.max(-1, Math.min(1, dot)));
+}
+
+/** 0-1: how well a leg fits a hole bored `error` off its splay, and how far (0-1) its wedge is driven. */
+export function jointTightness(error: number, wedged: number): number {
+  const fit = 1 - Math.max(0, Math.min(1, (error - SNUG_ERROR) / (LOOSE_ERROR - SNUG_ERROR)));
+  return fit * (UNWEDGED_GRIP + (1 - UNWEDGED_GRIP) * wedged);
+}
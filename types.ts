@@ -2,21 +2,33 @@ import React from 'react';
 
 export enum GamePhase {
   INTRO = 'INTRO',
+  DESIGN = 'DESIGN',          // Pick the joint parameters before starting
   
   // Level 2 Specific
   TIMBER = 'TIMBER',
+  MILLING = 'MILLING',        // Buck and rip the felled logs into blanks
 
   CLAMPING = 'CLAMPING',
+  PLANING = 'PLANING',        // Plane the rough board flat and to thickness
   MARKING = 'MARKING',
   CUTTING = 'CUTTING',        // Front of Bottom Board
   ASSEMBLY_PREP = 'ASSEMBLY_PREP',
   ASSEMBLY = 'ASSEMBLY',      // Front Board (A)
+  GLUE_UP = 'GLUE_UP',        // Glue and clamp the front joint
   
   CUTTING_BACK = 'CUTTING_BACK', // Back of Bottom Board
   ASSEMBLY_C = 'ASSEMBLY_C',     // Back Board (C)
+  GLUE_UP_C = 'GLUE_UP_C',
   
   CUTTING_TOP = 'CUTTING_TOP',   // Top Board (D)
   ASSEMBLY_D = 'ASSEMBLY_D',     // Top Board (D)
+  GLUE_UP_D = 'GLUE_UP_D',
+
+  WEDGING = 'WEDGING',           // Stool: kerf the tenon ends and drive wedges in
+  DISASSEMBLY = 'DISASSEMBLY',   // Luban lock: take the puzzle apart
+
+  SANDING = 'SANDING',           // Sand the finished piece through the grits
+  FINISHING = 'FINISHING',       // Brush on oil or lacquer
   
   SUCCESS = 'SUCCESS'
 }
@@ -0,0 +1,201 @@
+import { WoodSpecies } from './species';
+import type { ForestTree } from './forest';
+
+// Seeded generator for the forest plot: rolling terrain, a mix of species,
+// sizes and ages, undergrowth, and clearings. Everything comes from the seed,
+// so a class can share one number and all get the same woodland.
+
+export interface Terrain {
+  size: number;       // World units covered along X and Z, centred on the origin
+  resolution: number; // Samples per side
+  heights: number[];  // Row-major (z then x)
+}
+
+export interface Undergrowth {
+  x: number;
+  z: number;
+  kind: 'bush' | 'fern' | 'rock';
+  scale: number;
+}
+
+export interface Clearing {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export interface Woodland {
+  terrain: Terrain;
+  trees: Omit<ForestTree, 'id'>[];
+  undergrowth: Undergrowth[];
+  clearings: Clearing[];
+}
+
+const TERRAIN_SIZE = 30;
+const TERRAIN_RESOLUTION = 48;
+const FLAT_RADIUS = 9;      // The whole plot stays level, so felled logs lie flat for the ink line
+const HILL_HEIGHT = 1.6;
+const PLOT_X = 6.5;         // Trees grow within |x| < PLOT_X
+const PLOT_Z: [number, number] = [-5.5, 1.5];
+const TREE_SPACING = 2.2;
+const TREE_COUNT = 11;
+const GROWN_PER_SPECIES = 2; // Grown trees of every species, so any project's wood can be found
+// Any trunk rips into at least a pair of boards (see milling.ts), so two
+// trees of one species always fill a cut list
+const MIN_TRUNK_RADIUS = 0.4;
+// Kept clear in front of the camera, where the saw and ink line start
+const WORK_CLEARING: Clearing = { x: 0, z: 3, radius: 2 };
+
+const SPECIES_WEIGHTS: [WoodSpecies, number][] = [
+  ['fir', 0.4],
+  ['camphor', 0.25],
+  ['elm', 0.25],
+  ['rosewood', 0.1],
+];
+
+/** mulberry32: small, fast and the same in every browser. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A seed from whatever a teacher typed: digits are used as is, words are hashed. */
+export function seedFromText(text: string): number {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let hash = 2166136261;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = Math.imul(hash ^ trimmed.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 100000);
+
+function pickSpecies(random: () => number): WoodSpecies {
+  let roll = random();
+  for (const [species, weight] of SPECIES_WEIGHTS) {
+    if (roll < weight) return species;
+    roll -= weight;
+  }
+  return SPECIES_WEIGHTS[0][0];
+}
+
+const inClearing = (x: number, z: number, clearings: Clearing[]) =>
+  clearings.some(c => Math.hypot(x - c.x, z - c.z) < c.radius);
+
+function generateTerrain(random: () => number): Terrain {
+  // A few overlapping sine hills, faded out over the felling area
+  const waves = Array.from({ length: 4 }, () => ({
+    fx: 0.1 + random() * 0.25,
+    fz: 0.1 + random() * 0.25,
+    phase: random() * Math.PI * 2,
+    amp: 0.3 + random() * 0.7,
+  }));
+  const heights: number[] = [];
+  for (let row = 0; row < TERRAIN_RESOLUTION; row++) {
+    for (let col = 0; col < TERRAIN_RESOLUTION; col++) {
+      const x = (col / (TERRAIN_RESOLUTION - 1) - 0.5) * TERRAIN_SIZE;
+      const z = (row / (TERRAIN_RESOLUTION - 1) - 0.5) * TERRAIN_SIZE;
+      const hill = waves.reduce((sum, w) => sum + Math.sin(x * w.fx + w.phase) * Math.cos(z * w.fz - w.phase) * w.amp, 0) / waves.length;
+      const fade = Math.min(1, Math.max(0, (Math.hypot(x, z) - FLAT_RADIUS) / 4));
+      heights.push(Math.max(0, hill + 0.4) * HILL_HEIGHT * fade);
+    }
+  }
+  return { size: TERRAIN_SIZE, resolution: TERRAIN_RESOLUTION, heights };
+}
+
+/** Terrain height at (x, z), bilinear between samples; 0 off the edge. */
+export function terrainHeight(terrain: Terrain, x: number, z: number): number {
+  const n = terrain.resolution - 1;
+  const fx = (x / terrain.size + 0.5) * n;
+  const fz = (z / terrain.size + 0.5) * n;
+  if (fx < 0 || fz < 0 || fx > n || fz > n) return 0;
+  const col = Math.min(n - 1, Math.floor(fx));
+  const row = Math.min(n - 1, Math.floor(fz));
+  const tx = fx - col;
+  const tz = fz - row;
+  const at = (r: number, c: number) => terrain.heights[r * terrain.resolution + c];
+  const top = at(row, col) * (1 - tx) + at(row, col + 1) * tx;
+  const bottom = at(row + 1, col) * (1 - tx) + at(row + 1, col + 1) * tx;
+  return top * (1 - tz) + bottom * tz;
+}
+
+export function generateWoodland(seed: number): Woodland {
+  const random = seededRandom(seed);
+  const terrain = generateTerrain(random);
+
+  const clearings: Clearing[] = [WORK_CLEARING];
+  const clearingCount = 1 + Math.floor(random() * 2);
+  for (let i = 0; i < clearingCount; i++) {
+    clearings.push({
+      x: (random() - 0.5) * PLOT_X * 2,
+      z: PLOT_Z[0] + random() * (PLOT_Z[1] - PLOT_Z[0]),
+      radius: 1.2 + random() * 0.8,
+    });
+  }
+
+  const trees: Omit<ForestTree, 'id'>[] = [];
+  for (let attempt = 0; attempt < 400 && trees.length < TREE_COUNT; attempt++) {
+    const x = (random() - 0.5) * PLOT_X * 2;
+    const z = PLOT_Z[0] + random() * (PLOT_Z[1] - PLOT_Z[0]);
+    if (inClearing(x, z, clearings)) continue;
+    if (trees.some(t => Math.hypot(t.x - x, t.z - z) < TREE_SPACING)) continue;
+    // Older trees are thicker and taller
+    const age = random();
+    trees.push({
+      x,
+      z,
+      species: pickSpecies(random),
+      stage: age < 0.4 ? 'sapling' : 'tree',
+      plantedSeason: age < 0.4 ? -Math.floor(random() * 2) : -2,
+      radius: MIN_TRUNK_RADIUS + age * 0.25,
+      height: 4 + age * 2,
+    });
+  }
+
+  // Every forest must have something to fell and something growing
+  const minGrown = SPECIES_WEIGHTS.length * GROWN_PER_SPECIES;
+  trees.sort((a, b) => b.radius - a.radius);
+  trees.forEach((tree, i) => {
+    if (i < minGrown && tree.stage === 'sapling') Object.assign(tree, { stage: 'tree', plantedSeason: -2 });
+    if (i >= trees.length - 2 && tree.stage === 'tree') Object.assign(tree, { stage: 'sapling', plantedSeason: 0 });
+  });
+
+  // ...and a pair of every species ready to fell, taken from the commonest
+  // while it has trees to spare, then brought on from the saplings. A plot
+  // with too few trees for that keeps what it has.
+  const grown = trees.filter(t => t.stage === 'tree');
+  const grownOf = (species: WoodSpecies) => grown.filter(t => t.species === species);
+  for (const [species] of SPECIES_WEIGHTS) {
+    for (let tries = 0; tries < trees.length && grownOf(species).length < GROWN_PER_SPECIES; tries++) {
+      const [commonest] = SPECIES_WEIGHTS.map(([s]) => s).sort((a, b) => grownOf(b).length - grownOf(a).length);
+      if (grownOf(commonest).length > GROWN_PER_SPECIES) {
+        grownOf(commonest)[0].species = species;
+        continue;
+      }
+      const sapling = trees.find(t => t.stage === 'sapling');
+      if (!sapling) break;
+      Object.assign(sapling, { species, stage: 'tree', plantedSeason: -2 });
+      grown.push(sapling);
+    }
+  }
+
+  const undergrowth: Undergrowth[] = [];
+  for (let attempt = 0; attempt < 200 && undergrowth.length < 45; attempt++) {
+    const x = (random() - 0.5) * TERRAIN_SIZE * 0.8;
+    const z = (random() - 0.5) * TERRAIN_SIZE * 0.6 - 2;
+    if (inClearing(x, z, clearings)) continue;
+    if (trees.some(t => Math.hypot(t.x - x, t.z - z) < 0.9)) continue;
+    const roll = random();
+    undergrowth.push({ x, z, kind: roll < 0.5 ? 'bush' : roll < 0.85 ? 'fern' : 'rock', scale: 0.6 + random() * 0.7 });
+  }
+
+  return { terrain, trees, undergrowth, clearings };
+}
@@ -0,0 +1,68 @@
+import { PRESSURE_RANGE } from './clamps';
+
+// Holding the work down while it is routed. How many clamps there are, how
+// far apart they sit and how tight they are screwed decide how secure the
+// board is. The router drags at whatever it cuts, so a board that is not held
+// creeps and twists under it, the cut wanders off the marks, and a loose one
+// can be kicked right across the bench.
+
+export interface WorkShift {
+  x: number;
+  z: number;
+  spin: number; // Radians about the board's centre
+}
+
+export interface HoldPoint {
+  x: number;
+  z: number;
+  pressure: number;
+}
+
+export const HOLD_CLAMPS = 4;    // Clamps on the rack
+export const SECURE = 0.95;      // Held this well, the board doesn't move
+const CLAMPS_NEEDED = 2;         // Tight clamps it takes to hold a board
+const BRACE_SINGLE = 0.3;        // How well one clamp stops a board pivoting about it
+const CREEP = 0.004;             // Furthest a free board creeps in one frame of routing
+const SPIN_CREEP = 0.003;
+const KICK_BELOW = 0.3;          // Held worse than this, the router may kick the board
+const KICK_CHANCE = 0.01;        // Per frame of routing
+const MAX_SHIFT = 0.3;
+const MAX_SPIN = 0.15;
+
+export const freshShift = (): WorkShift => ({ x: 0, z: 0, spin: 0 });
+
+/**
+ * 0-1. Each clamp grips fully once it is screwed into the firm range; the
+ * board is held once CLAMPS_NEEDED are tight, and braced against twisting by
+ * how far apart they are, as a share of the board's `length`.
+ */
+export function holdSecurity(points: HoldPoint[], length: number): number {
+  const gripping = points.filter(p => p.pressure > 0);
+  const grip = gripping.reduce((sum, p) => sum + Math.min(1, p.pressure / PRESSURE_RANGE[0]), 0);
+  const holding = Math.min(1, grip / CLAMPS_NEEDED);
+  let spread = 0;
+  gripping.forEach(a => gripping.forEach(b => { spread = Math.max(spread, Math.hypot(a.x - b.x, a.z - b.z)); }));
+  const brace = Math.min(1, BRACE_SINGLE + spread / length);
+  return holding * brace;
+}
+
+/** One frame of the router pulling at a board held with `security`. */
+export function routerNudge(shift: WorkShift, security: number, random: () => number = Math.random): { shift: WorkShift; kicked?: boolean } {
+  if (security >= SECURE) return { shift };
+  const slack = 1 - security;
+  const kicked = security < KICK_BELOW && random() < KICK_CHANCE;
+  const push = kicked ? 25 : 1;
+  const clamp = (v: number, max: number) => Math.max(-max, Math.min(max, v));
+  return {
+    shift: {
+      x: clamp(shift.x + (random() - 0.5) * 2 * slack * CREEP * push, MAX_SHIFT),
+      z: clamp(shift.z + (random() - 0.5) * 2 * slack * CREEP * push, MAX_SHIFT),
+      spin: clamp(shift.spin + (random() - 0.5) * 2 * slack * SPIN_CREEP * push, MAX_SPIN),
+    },
+    kicked,
+  };
+}
+
+/** How far the board has moved at its ends, for the accuracy report. */
+export const shiftDistance = (shift: WorkShift, length: number) =>
+  Math.hypot(shift.x, shift.z) + Math.abs(Math.sin(shift.spin)) * length / 2;